@@ -1,10 +1,16 @@
 /**
  * @file: code.ts
  * @description: Основной код плагина для обработки PPTX файлов
- * @dependencies: Figma Plugin API, PPTXParser
+ * @dependencies: Figma Plugin API, PPTXParser, PPTXRenderer
  * @created: 2024-12-19
  */
 
+import { PPTXRenderer, EMU_PER_PIXEL } from './renderer/PPTXRenderer'
+import { ThemeColorStyles } from './renderer/ThemeColorStyles'
+import { FontSubstitution } from './renderer/FontSubstitution'
+import type { FontSubstitutions } from '../src/shared/types'
+import type { MasterSlide } from '../src/models/types'
+
 // Полифилл для setImmediate (недоступен в Figma)
 if (typeof setImmediate === 'undefined') {
   (globalThis as any).setImmediate = (callback: Function, ...args: any[]) => {
@@ -14,6 +20,9 @@ if (typeof setImmediate === 'undefined') {
 
 figma.showUI(__html__, { themeColors: true, height: 400 })
 
+// Импорт, ожидающий подтверждения замены шрифтов в UI
+let pendingRender: { pptxData: any; settings: any; fonts: FontSubstitution } | null = null
+
 // Обработка сообщений от UI
 figma.ui.onmessage = async (msg) => {
   try {
@@ -30,6 +39,10 @@ figma.ui.onmessage = async (msg) => {
         await handleRenderPPTX(msg.payload)
         break
 
+      case 'font-substitutions':
+        await handleFontSubstitutions(msg.payload)
+        break
+
       case 'cancel':
         figma.closePlugin()
         break
@@ -55,44 +68,107 @@ async function handleRenderPPTX(payload: any) {
       return
     }
 
-    // Отправка уведомления о начале рендеринга
-    figma.notify(`Начинаем рендеринг: ${pptxData.fileName}`)
-
-    // Отправка сообщения о начале рендеринга
-    sendMessage({
-      type: 'import-started',
-      payload: {
-        totalSlides: pptxData.slides?.length || 0
-      }
-    })
+    // Проверка шрифтов до рендеринга: недоступные семейства подтверждаются в UI
+    const fonts = await FontSubstitution.load()
+    const usedFonts = FontSubstitution.collectFonts(pptxData.slides || [], pptxData.masters || [])
+    const missingFonts = settings.importText !== false ? fonts.findMissing(usedFonts) : []
+    if (missingFonts.length > 0) {
+      pendingRender = { pptxData, settings, fonts }
+      sendMessage({
+        type: 'font-check',
+        payload: {
+          missingFonts,
+          availableFamilies: fonts.getAvailableFamilies()
+        }
+      })
+      return
+    }
 
-    // Создание фреймов на основе распарсенных данных
-    await createFramesFromPPTX(pptxData, settings)
+    await renderPPTX(pptxData, settings, {})
+  } catch (error) {
+    console.error('Render error:', error)
+    sendError(`Ошибка рендеринга: ${error.message}`)
+  }
+}
 
-    // Отправка сообщения о завершении
-    sendMessage({
-      type: 'import-complete',
-      payload: {
-        slidesImported: pptxData.slides?.length || 0,
-        warnings: [],
-        errors: []
-      }
-    })
+// Продолжение импорта после подтверждения таблицы замен шрифтов
+async function handleFontSubstitutions(payload: any) {
+  if (!pendingRender) {
+    sendError('Нет импорта, ожидающего замены шрифтов')
+    return
+  }
 
-    figma.notify('Рендеринг завершен успешно!')
+  const { pptxData, settings, fonts } = pendingRender
+  pendingRender = null
 
+  try {
+    const substitutions: FontSubstitutions = payload?.substitutions || {}
+    await fonts.save(substitutions)
+    await renderPPTX(pptxData, settings, substitutions)
   } catch (error) {
     console.error('Render error:', error)
-    sendError(`Ошибка рендеринга: ${error.message}`)
+    sendError(`Ошибка рендеринга: ${error instanceof Error ? error.message : 'Unknown error'}`)
   }
 }
 
+// Рендеринг слайдов с уже подтвержденными заменами шрифтов
+async function renderPPTX(pptxData: any, settings: any, fontSubstitutions: FontSubstitutions) {
+  // Отправка уведомления о начале рендеринга
+  figma.notify(`Начинаем рендеринг: ${pptxData.fileName}`)
+
+  // Отправка сообщения о начале рендеринга
+  sendMessage({
+    type: 'import-started',
+    payload: {
+      totalSlides: pptxData.slides?.length || 0
+    }
+  })
+
+  // Создание фреймов на основе распарсенных данных
+  const warnings = await createFramesFromPPTX(pptxData, settings, fontSubstitutions)
+
+  // Отправка сообщения о завершении
+  sendMessage({
+    type: 'import-complete',
+    payload: {
+      slidesImported: pptxData.slides?.length || 0,
+      warnings,
+      errors: []
+    }
+  })
+
+  figma.notify('Рендеринг завершен успешно!')
+}
+
 // Создание фреймов из PPTX данных
-async function createFramesFromPPTX(pptxData: any, settings: any) {
+async function createFramesFromPPTX(pptxData: any, settings: any, fontSubstitutions: FontSubstitutions): Promise<string[]> {
   const { slides } = pptxData
   
   // Получение размеров слайда
   const dimensions = getSlideDimensions(settings)
+  const themeStyles = settings.importThemeColors !== false && pptxData.colorTheme
+    ? new ThemeColorStyles(pptxData.colorTheme)
+    : undefined
+  themeStyles?.publish()
+  const renderer = new PPTXRenderer({
+    scale: getRenderScale(pptxData, dimensions),
+    importText: settings.importText !== false,
+    importShapes: settings.importShapes !== false,
+    importImages: settings.importImages !== false,
+    includeMasterBackground: settings.includeMasterBackground !== false,
+    media: pptxData.media || [],
+    masters: pptxData.masters || [],
+    themeStyles,
+    fontSubstitutions
+  })
+  if (settings.importTextStyles !== false && settings.importText !== false) {
+    await renderer.publishTextStyles(pptxData.masters || [], pptxData.colorTheme?.name || 'Theme')
+  }
+  const frames: FrameNode[] = []
+  const targetPage = figma.currentPage
+  const components = settings.useLayoutComponents !== false
+    ? await createLayoutComponents(pptxData, renderer, dimensions)
+    : new Map<string, ComponentNode>()
   
   for (let i = 0; i < slides.length; i++) {
     const slide = slides[i]
@@ -112,48 +188,66 @@ async function createFramesFromPPTX(pptxData: any, settings: any) {
     const frame = figma.createFrame()
     frame.name = `Slide ${i + 1} - ${slide.name || 'Untitled'}`
     frame.resize(dimensions.width, dimensions.height)
+    frame.clipsContent = true
     
     // Позиционирование фреймов
     frame.x = i * (dimensions.width + 100)
     frame.y = 0
 
-    // Добавление фона
-    frame.fills = [{ type: 'SOLID', color: { r: 0.95, g: 0.95, b: 0.95 } }]
-
-    // Создание заголовка слайда
-    const title = figma.createText()
-    await figma.loadFontAsync({ family: 'Inter', style: 'Regular' })
-    title.characters = slide.name || `Slide ${i + 1}`
-    title.fontSize = 24
-    title.x = 50
-    title.y = 50
-    title.fills = [{ type: 'SOLID', color: { r: 0.2, g: 0.2, b: 0.2 } }]
-
-    // Создание описания
-    const description = figma.createText()
-    description.characters = `Элементов: ${slide.elements?.length || 0}`
-    description.fontSize = 16
-    description.x = 50
-    description.y = 100
-    description.fills = [{ type: 'SOLID', color: { r: 0.5, g: 0.5, b: 0.5 } }]
-
-    // Добавление элементов в фрейм
-    frame.appendChild(title)
-    frame.appendChild(description)
+    // Рендеринг содержимого слайда
+    await renderer.renderSlide(slide, frame, components.get(slide.layoutId))
 
     // Добавление фрейма на страницу
-    figma.currentPage.appendChild(frame)
+    targetPage.appendChild(frame)
+    frames.push(frame)
   }
 
   // Выбор всех созданных фреймов
-  const frames = figma.currentPage.children.filter(child => 
-    child.name.startsWith('Slide ')
-  )
-  
   if (frames.length > 0) {
     figma.currentPage.selection = frames
     figma.viewport.scrollAndZoomIntoView(frames)
   }
+
+  return renderer.getWarnings()
+}
+
+// Создание компонентов макетов на отдельной странице, ключ — id макета
+async function createLayoutComponents(pptxData: any, renderer: PPTXRenderer, dimensions: { width: number; height: number }): Promise<Map<string, ComponentNode>> {
+  const components = new Map<string, ComponentNode>()
+  const masters: MasterSlide[] = pptxData.masters || []
+  if (!masters.some(master => master.layouts.length > 0)) {
+    return components
+  }
+
+  const page = figma.createPage()
+  page.name = `${pptxData.fileName || 'Presentation'} — Layouts`
+
+  // Одна строка компонентов на каждый мастер-слайд
+  for (let row = 0; row < masters.length; row++) {
+    const master = masters[row]
+    for (let column = 0; column < master.layouts.length; column++) {
+      const layout = master.layouts[column]
+      const component = await renderer.renderLayoutComponent(layout, master, dimensions.width, dimensions.height)
+      component.x = column * (dimensions.width + 100)
+      component.y = row * (dimensions.height + 100)
+      page.appendChild(component)
+      components.set(layout.id, component)
+    }
+  }
+
+  return components
+}
+
+// Масштаб из пикселей слайда PPTX в пиксели фрейма
+function getRenderScale(pptxData: any, dimensions: { width: number; height: number }): number {
+  const slideSize = pptxData.presentation?.slideSize
+  if (!slideSize?.width || !slideSize?.height) {
+    return 1
+  }
+
+  const slideWidth = slideSize.width / EMU_PER_PIXEL
+  const slideHeight = slideSize.height / EMU_PER_PIXEL
+  return Math.min(dimensions.width / slideWidth, dimensions.height / slideHeight)
 }
 
 // Получение размеров слайда из настроек
@@ -190,8 +284,3 @@ function sendError(error: string) {
   
   figma.notify(error, { error: true })
 }
-
-// Рендерер для создания Figma узлов
-class PPTXRenderer {
-  // Методы рендеринга будут добавлены позже
-}
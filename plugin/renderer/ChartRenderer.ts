@@ -0,0 +1,465 @@
+/**
+ * @file: ChartRenderer.ts
+ * @description: Рендеринг диаграмм (столбцы, линии, области, круговые, точечные) в редактируемые векторы и текст Figma
+ * @dependencies: Figma Plugin API, models/types.ts
+ * @created: 2026-10-18
+ */
+
+import { ChartElement, ChartSeries, Color, TextStyle } from '../../src/models/types'
+
+// Зависимости от основного рендерера: масштаб, шрифты и заливки
+export interface ChartRenderContext {
+  scale: number
+  loadFont(style: TextStyle | undefined): Promise<FontName>
+  createSolidPaint(color: Color, opacity?: number): SolidPaint
+}
+
+interface Box {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+interface LegendEntry {
+  name: string
+  color: Color
+}
+
+// Акцентные цвета темы Office по умолчанию для серий без явного цвета
+const DEFAULT_PALETTE: Color[] = [
+  { r: 0.267, g: 0.447, b: 0.769 },
+  { r: 0.929, g: 0.490, b: 0.192 },
+  { r: 0.647, g: 0.647, b: 0.647 },
+  { r: 1, g: 0.753, b: 0 },
+  { r: 0.357, g: 0.608, b: 0.835 },
+  { r: 0.439, g: 0.678, b: 0.278 }
+]
+const AXIS_COLOR: Color = { r: 0.75, g: 0.75, b: 0.75 }
+const LABEL_COLOR: Color = { r: 0.35, g: 0.35, b: 0.35 }
+const LABEL_FONT_SIZE = 12 // px до масштабирования
+const TITLE_FONT_SIZE = 18
+const PADDING = 8
+const AXIS_LABEL_SIZE = 36 // место под подписи значений
+const TICK_COUNT = 4
+
+export class ChartRenderer {
+  private context: ChartRenderContext
+  private font: FontName | null = null
+
+  constructor(context: ChartRenderContext) {
+    this.context = context
+  }
+
+  // Проверка, может ли диаграмма быть нарисована векторами
+  static canRender(element: ChartElement): boolean {
+    return element.chartType !== 'unsupported' && element.series.some(series => series.values.length > 0)
+  }
+
+  // Рендеринг диаграммы во фрейм размером с элемент
+  async render(element: ChartElement): Promise<FrameNode> {
+    const scale = this.context.scale
+    this.font = await this.context.loadFont(undefined)
+
+    const frame = figma.createFrame()
+    frame.name = element.name || 'Chart'
+    frame.fills = []
+    frame.clipsContent = false
+    frame.resize(Math.max(element.size.width * scale, 0.01), Math.max(element.size.height * scale, 0.01))
+
+    let area: Box = {
+      x: PADDING * scale,
+      y: PADDING * scale,
+      width: frame.width - PADDING * 2 * scale,
+      height: frame.height - PADDING * 2 * scale
+    }
+
+    if (element.title) {
+      const titleHeight = TITLE_FONT_SIZE * 1.6 * scale
+      frame.appendChild(this.createLabel(element.title, { ...area, height: titleHeight }, TITLE_FONT_SIZE, 'CENTER'))
+      area = { ...area, y: area.y + titleHeight, height: area.height - titleHeight }
+    }
+
+    const legendEntries = this.getLegendEntries(element)
+    if (element.legend && legendEntries.length > 0) {
+      area = this.renderLegend(frame, legendEntries, element.legend.position, area)
+    }
+
+    switch (element.chartType) {
+      case 'pie':
+      case 'doughnut':
+        this.renderPie(frame, element, area)
+        break
+      case 'scatter':
+        this.renderScatter(frame, element, area)
+        break
+      default:
+        this.renderCategoryChart(frame, element, area)
+    }
+
+    return frame
+  }
+
+  // Столбчатые, линейные диаграммы и диаграммы с областями на общей категориальной оси
+  private renderCategoryChart(frame: FrameNode, element: ChartElement, area: Box): void {
+    const scale = this.context.scale
+    const categoryCount = Math.max(element.categories.length, ...element.series.map(series => series.values.length))
+    const stacked = element.chartType !== 'line' && (element.grouping === 'stacked' || element.grouping === 'percentStacked')
+    const percent = stacked && element.grouping === 'percentStacked'
+    const totals = this.getCategoryTotals(element.series, categoryCount)
+    const horizontal = element.chartType === 'bar' && element.barDirection === 'bar'
+
+    // Диапазон значений с учётом накопления
+    const extremes: number[] = [0]
+    for (let index = 0; index < categoryCount; index++) {
+      let positive = 0
+      let negative = 0
+      for (const series of element.series) {
+        const value = this.normalize(series.values[index] || 0, totals[index], percent)
+        if (stacked) {
+          if (value >= 0) positive += value
+          else negative += value
+        } else {
+          extremes.push(value)
+        }
+      }
+      if (stacked) extremes.push(positive, negative)
+    }
+    const range = this.getNiceRange(Math.min(...extremes), Math.max(...extremes))
+
+    const plot: Box = horizontal
+      ? { x: area.x + AXIS_LABEL_SIZE * 2 * scale, y: area.y, width: area.width - AXIS_LABEL_SIZE * 2 * scale, height: area.height - LABEL_FONT_SIZE * 2 * scale }
+      : { x: area.x + AXIS_LABEL_SIZE * scale, y: area.y, width: area.width - AXIS_LABEL_SIZE * scale, height: area.height - LABEL_FONT_SIZE * 2 * scale }
+    if (plot.width <= 0 || plot.height <= 0 || categoryCount === 0) return
+
+    this.renderAxes(frame, element, plot, range, categoryCount, horizontal)
+
+    // Перевод значения в координату вдоль оси значений
+    const valueLength = horizontal ? plot.width : plot.height
+    const toOffset = (value: number) => ((value - range.min) / (range.max - range.min)) * valueLength
+    const baseline = toOffset(0)
+    const categorySize = (horizontal ? plot.height : plot.width) / categoryCount
+
+    if (element.chartType === 'bar') {
+      const gap = categorySize * 0.3
+      const barSize = stacked ? categorySize - gap : (categorySize - gap) / Math.max(element.series.length, 1)
+      const positiveStack: number[] = new Array(categoryCount).fill(0)
+      const negativeStack: number[] = new Array(categoryCount).fill(0)
+
+      element.series.forEach((series, seriesIndex) => {
+        const paint = this.context.createSolidPaint(this.getSeriesColor(series, seriesIndex))
+
+        for (let index = 0; index < categoryCount; index++) {
+          const value = this.normalize(series.values[index] || 0, totals[index], percent)
+          const stack = value >= 0 ? positiveStack : negativeStack
+          const start = stacked ? toOffset(stack[index]) : baseline
+          const end = stacked ? toOffset(stack[index] + value) : toOffset(value)
+          if (stacked) stack[index] += value
+
+          const across = index * categorySize + gap / 2 + (stacked ? 0 : seriesIndex * barSize)
+          const bar = figma.createRectangle()
+          bar.name = `${series.name} ${element.categories[index] || index + 1}`
+          const length = Math.max(Math.abs(end - start), 0.01)
+          bar.resize(horizontal ? length : Math.max(barSize, 0.01), horizontal ? Math.max(barSize, 0.01) : length)
+          bar.x = horizontal ? plot.x + Math.min(start, end) : plot.x + across
+          bar.y = horizontal ? plot.y + across : plot.y + plot.height - Math.max(start, end)
+          bar.fills = [paint]
+          frame.appendChild(bar)
+        }
+      })
+      return
+    }
+
+    // Линии и области: точки в центрах категорий
+    const cumulative: number[] = new Array(categoryCount).fill(0)
+    element.series.forEach((series, seriesIndex) => {
+      const color = this.getSeriesColor(series, seriesIndex)
+      const previous = [...cumulative]
+      const points = []
+
+      for (let index = 0; index < categoryCount; index++) {
+        const value = this.normalize(series.values[index] || 0, totals[index], percent)
+        if (stacked) cumulative[index] += value
+        points.push({
+          x: plot.x + (index + 0.5) * categorySize,
+          y: plot.y + plot.height - toOffset(stacked ? cumulative[index] : value)
+        })
+      }
+
+      if (element.chartType === 'area') {
+        const lower = previous
+          .map((value, index) => ({
+            x: plot.x + (index + 0.5) * categorySize,
+            y: plot.y + plot.height - (stacked ? toOffset(value) : baseline)
+          }))
+          .reverse()
+        const areaNode = this.createPathVector([...points, ...lower], true)
+        areaNode.name = series.name
+        areaNode.fills = [this.context.createSolidPaint(color, 0.85)]
+        frame.appendChild(areaNode)
+      } else {
+        const line = this.createPathVector(points, false)
+        line.name = series.name
+        line.fills = []
+        line.strokes = [this.context.createSolidPaint(color)]
+        line.strokeWeight = 2 * scale
+        line.strokeJoin = 'ROUND'
+        frame.appendChild(line)
+      }
+    })
+  }
+
+  // Круговая и кольцевая диаграммы: рисуется первая серия, сектора через arcData
+  private renderPie(frame: FrameNode, element: ChartElement, area: Box): void {
+    const series = element.series[0]
+    const values = series.values.map(value => Math.max(value, 0))
+    const total = values.reduce((sum, value) => sum + value, 0)
+    if (total <= 0) return
+
+    const diameter = Math.min(area.width, area.height)
+    const x = area.x + (area.width - diameter) / 2
+    const y = area.y + (area.height - diameter) / 2
+    // PowerPoint начинает первый сектор с 12 часов и идёт по часовой стрелке
+    let angle = -Math.PI / 2
+
+    values.forEach((value, index) => {
+      if (value === 0) return
+
+      const sweep = (value / total) * Math.PI * 2
+      const slice = figma.createEllipse()
+      slice.name = element.categories[index] || `${series.name} ${index + 1}`
+      slice.resize(Math.max(diameter, 0.01), Math.max(diameter, 0.01))
+      slice.x = x
+      slice.y = y
+      slice.arcData = {
+        startingAngle: angle,
+        endingAngle: angle + sweep,
+        innerRadius: element.chartType === 'doughnut' ? 0.5 : 0
+      }
+      slice.fills = [this.context.createSolidPaint(DEFAULT_PALETTE[index % DEFAULT_PALETTE.length])]
+      slice.strokes = [{ type: 'SOLID', color: { r: 1, g: 1, b: 1 } }]
+      slice.strokeWeight = this.context.scale
+      frame.appendChild(slice)
+      angle += sweep
+    })
+  }
+
+  // Точечная диаграмма: X берётся из категорий (c:xVal), Y из значений серии
+  private renderScatter(frame: FrameNode, element: ChartElement, area: Box): void {
+    const scale = this.context.scale
+    const xValues = element.categories.map((category, index) => {
+      const value = parseFloat(category)
+      return isNaN(value) ? index + 1 : value
+    })
+    const yValues = element.series.reduce<number[]>((all, series) => all.concat(series.values), [])
+    if (xValues.length === 0 || yValues.length === 0) return
+
+    const xRange = this.getNiceRange(Math.min(0, ...xValues), Math.max(...xValues))
+    const yRange = this.getNiceRange(Math.min(0, ...yValues), Math.max(...yValues))
+    const plot: Box = {
+      x: area.x + AXIS_LABEL_SIZE * scale,
+      y: area.y,
+      width: area.width - AXIS_LABEL_SIZE * scale,
+      height: area.height - LABEL_FONT_SIZE * 2 * scale
+    }
+    if (plot.width <= 0 || plot.height <= 0) return
+
+    this.renderValueAxis(frame, plot, yRange, false)
+    this.renderValueAxis(frame, plot, xRange, true)
+
+    const radius = 3 * scale
+    element.series.forEach((series, seriesIndex) => {
+      const paint = this.context.createSolidPaint(this.getSeriesColor(series, seriesIndex))
+      series.values.forEach((value, index) => {
+        if (index >= xValues.length) return
+
+        const marker = figma.createEllipse()
+        marker.name = `${series.name} ${index + 1}`
+        marker.resize(radius * 2, radius * 2)
+        marker.x = plot.x + ((xValues[index] - xRange.min) / (xRange.max - xRange.min)) * plot.width - radius
+        marker.y = plot.y + plot.height - ((value - yRange.min) / (yRange.max - yRange.min)) * plot.height - radius
+        marker.fills = [paint]
+        frame.appendChild(marker)
+      })
+    })
+  }
+
+  // Оси: категориальная с подписями категорий и ось значений с делениями
+  private renderAxes(
+    frame: FrameNode,
+    element: ChartElement,
+    plot: Box,
+    range: { min: number; max: number; step: number },
+    categoryCount: number,
+    horizontal: boolean
+  ): void {
+    const scale = this.context.scale
+    this.renderValueAxis(frame, plot, range, horizontal)
+
+    const categorySize = (horizontal ? plot.height : plot.width) / categoryCount
+    for (let index = 0; index < categoryCount; index++) {
+      const text = element.categories[index] || String(index + 1)
+      const box: Box = horizontal
+        ? { x: plot.x - AXIS_LABEL_SIZE * 2 * scale, y: plot.y + index * categorySize, width: AXIS_LABEL_SIZE * 2 * scale - 4 * scale, height: categorySize }
+        : { x: plot.x + index * categorySize, y: plot.y + plot.height + 4 * scale, width: categorySize, height: LABEL_FONT_SIZE * 1.6 * scale }
+      frame.appendChild(this.createLabel(text, box, LABEL_FONT_SIZE, horizontal ? 'RIGHT' : 'CENTER'))
+    }
+  }
+
+  // Ось значений: линии сетки и подписи делений
+  private renderValueAxis(frame: FrameNode, plot: Box, range: { min: number; max: number; step: number }, horizontal: boolean): void {
+    const scale = this.context.scale
+    const length = horizontal ? plot.width : plot.height
+
+    for (let value = range.min; value <= range.max + range.step / 2; value += range.step) {
+      const offset = ((value - range.min) / (range.max - range.min)) * length
+      const gridLine = horizontal
+        ? this.createPathVector([{ x: plot.x + offset, y: plot.y }, { x: plot.x + offset, y: plot.y + plot.height }], false)
+        : this.createPathVector([{ x: plot.x, y: plot.y + plot.height - offset }, { x: plot.x + plot.width, y: plot.y + plot.height - offset }], false)
+      gridLine.name = 'Grid line'
+      gridLine.fills = []
+      gridLine.strokes = [this.context.createSolidPaint(AXIS_COLOR)]
+      gridLine.strokeWeight = Math.max(scale, 0.5)
+      frame.appendChild(gridLine)
+
+      const text = this.formatValue(value)
+      const box: Box = horizontal
+        ? { x: plot.x + offset - AXIS_LABEL_SIZE * scale / 2, y: plot.y + plot.height + 4 * scale, width: AXIS_LABEL_SIZE * scale, height: LABEL_FONT_SIZE * 1.6 * scale }
+        : { x: plot.x - AXIS_LABEL_SIZE * scale, y: plot.y + plot.height - offset - LABEL_FONT_SIZE * 0.8 * scale, width: AXIS_LABEL_SIZE * scale - 4 * scale, height: LABEL_FONT_SIZE * 1.6 * scale }
+      frame.appendChild(this.createLabel(text, box, LABEL_FONT_SIZE, horizontal ? 'CENTER' : 'RIGHT'))
+    }
+  }
+
+  // Легенда: цветной маркер и название для каждой серии (или категории у круговых)
+  private renderLegend(frame: FrameNode, entries: LegendEntry[], position: 'top' | 'bottom' | 'left' | 'right', area: Box): Box {
+    const scale = this.context.scale
+    const rowHeight = LABEL_FONT_SIZE * 1.6 * scale
+    const swatch = LABEL_FONT_SIZE * 0.7 * scale
+    const vertical = position === 'left' || position === 'right'
+    const legendWidth = vertical ? Math.min(area.width * 0.3, 120 * scale) : area.width
+    const entryWidth = vertical ? legendWidth : area.width / entries.length
+
+    const origin = {
+      x: position === 'right' ? area.x + area.width - legendWidth : area.x,
+      y: position === 'bottom' ? area.y + area.height - rowHeight : area.y
+    }
+    if (vertical) {
+      origin.y = area.y + Math.max(0, (area.height - rowHeight * entries.length) / 2)
+    }
+
+    entries.forEach((entry, index) => {
+      const x = origin.x + (vertical ? 0 : index * entryWidth)
+      const y = origin.y + (vertical ? index * rowHeight : 0)
+
+      const marker = figma.createRectangle()
+      marker.name = `Legend ${entry.name}`
+      marker.resize(swatch, swatch)
+      marker.x = x
+      marker.y = y + (rowHeight - swatch) / 2
+      marker.fills = [this.context.createSolidPaint(entry.color)]
+      frame.appendChild(marker)
+
+      const labelBox: Box = { x: x + swatch * 1.6, y, width: Math.max(entryWidth - swatch * 1.6, 1), height: rowHeight }
+      frame.appendChild(this.createLabel(entry.name, labelBox, LABEL_FONT_SIZE, 'LEFT'))
+    })
+
+    switch (position) {
+      case 'top':
+        return { ...area, y: area.y + rowHeight, height: area.height - rowHeight }
+      case 'bottom':
+        return { ...area, height: area.height - rowHeight }
+      case 'left':
+        return { ...area, x: area.x + legendWidth, width: area.width - legendWidth }
+      default:
+        return { ...area, width: area.width - legendWidth }
+    }
+  }
+
+  // Элементы легенды: у круговых диаграмм — категории, у остальных — серии
+  private getLegendEntries(element: ChartElement): LegendEntry[] {
+    if (element.chartType === 'pie' || element.chartType === 'doughnut') {
+      return element.categories.map((category, index) => ({
+        name: category,
+        color: DEFAULT_PALETTE[index % DEFAULT_PALETTE.length]
+      }))
+    }
+
+    return element.series.map((series, index) => ({ name: series.name, color: this.getSeriesColor(series, index) }))
+  }
+
+  // Текстовая подпись фиксированного размера
+  private createLabel(text: string, box: Box, fontSize: number, align: 'LEFT' | 'CENTER' | 'RIGHT'): TextNode {
+    const label = figma.createText()
+    label.fontName = this.font!
+    label.characters = text
+    label.fontSize = Math.max(1, fontSize * this.context.scale)
+    label.fills = [this.context.createSolidPaint(LABEL_COLOR)]
+    label.textAlignHorizontal = align
+    label.textAlignVertical = 'CENTER'
+    label.textAutoResize = 'NONE'
+    label.resize(Math.max(box.width, 0.01), Math.max(box.height, 0.01))
+    label.x = box.x
+    label.y = box.y
+    return label
+  }
+
+  // Вектор по точкам; путь нормализуется к левому верхнему углу узла
+  private createPathVector(points: Array<{ x: number; y: number }>, closed: boolean): VectorNode {
+    const minX = Math.min(...points.map(point => point.x))
+    const minY = Math.min(...points.map(point => point.y))
+    const commands = points.map((point, index) => `${index === 0 ? 'M' : 'L'} ${point.x - minX} ${point.y - minY}`)
+    if (closed) commands.push('Z')
+
+    const vector = figma.createVector()
+    vector.vectorPaths = [{ windingRule: closed ? 'NONZERO' : 'NONE', data: commands.join(' ') }]
+    vector.x = minX
+    vector.y = minY
+    return vector
+  }
+
+  // Суммы значений по категориям для нормированного накопления
+  private getCategoryTotals(series: ChartSeries[], categoryCount: number): number[] {
+    const totals: number[] = new Array(categoryCount).fill(0)
+    for (const item of series) {
+      for (let index = 0; index < categoryCount; index++) {
+        totals[index] += Math.abs(item.values[index] || 0)
+      }
+    }
+    return totals
+  }
+
+  // Нормирование значения для диаграмм с накоплением до 100%
+  private normalize(value: number, total: number, percent: boolean): number {
+    if (!percent) return value
+    return total === 0 ? 0 : (value / total) * 100
+  }
+
+  // Округлённый диапазон оси значений с «красивым» шагом делений
+  private getNiceRange(min: number, max: number): { min: number; max: number; step: number } {
+    if (min === max) {
+      max = min + 1
+    }
+
+    const rawStep = (max - min) / TICK_COUNT
+    const magnitude = Math.pow(10, Math.floor(Math.log10(rawStep)))
+    const normalized = rawStep / magnitude
+    const step = (normalized <= 1 ? 1 : normalized <= 2 ? 2 : normalized <= 5 ? 5 : 10) * magnitude
+
+    return {
+      min: Math.floor(min / step) * step,
+      max: Math.ceil(max / step) * step,
+      step
+    }
+  }
+
+  // Форматирование подписи деления без лишних знаков после запятой
+  private formatValue(value: number): string {
+    const rounded = Math.round(value * 1000) / 1000
+    return String(rounded)
+  }
+
+  // Цвет серии с откатом на палитру темы по умолчанию
+  private getSeriesColor(series: ChartSeries, index: number): Color {
+    return series.color || DEFAULT_PALETTE[index % DEFAULT_PALETTE.length]
+  }
+}
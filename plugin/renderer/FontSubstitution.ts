@@ -0,0 +1,148 @@
+/**
+ * @file: FontSubstitution.ts
+ * @description: Сбор шрифтов презентации, проверка их наличия в Figma и таблица замен в figma.clientStorage
+ * @dependencies: Figma Plugin API, models/types.ts, shared/types.ts
+ * @created: 2026-10-18
+ */
+
+import type { Element, MasterSlide, Paragraph, TextStyle } from '../../src/models/types'
+import type { FontSubstitutions, MissingFont } from '../../src/shared/types'
+
+// Ключ таблицы замен в clientStorage, общей для всех импортов пользователя
+const STORAGE_KEY = 'fontSubstitutions'
+export const FALLBACK_FAMILY = 'Inter'
+
+// Метрически совместимые замены шрифтов Office
+const DEFAULT_SUBSTITUTIONS: FontSubstitutions = {
+  'Calibri': 'Carlito',
+  'Calibri Light': 'Carlito',
+  'Cambria': 'Caladea',
+  'Arial': 'Arimo',
+  'Helvetica': 'Arimo',
+  'Times New Roman': 'Tinos',
+  'Courier New': 'Cousine',
+  'Georgia': 'Gelasio',
+  'Segoe UI': 'Open Sans'
+}
+
+// Название начертания Figma для стиля run
+export function getFontStyleName(style: TextStyle | undefined): string {
+  const bold = style?.fontWeight === 'bold' || Number(style?.fontWeight) >= 600
+  const italic = style?.fontStyle === 'italic'
+
+  if (bold && italic) return 'Bold Italic'
+  if (bold) return 'Bold'
+  if (italic) return 'Italic'
+  return 'Regular'
+}
+
+export class FontSubstitution {
+  private available: Map<string, string[]> = new Map()
+  private stored: FontSubstitutions
+
+  private constructor(fonts: Font[], stored: FontSubstitutions) {
+    for (const font of fonts) {
+      const styles = this.available.get(font.fontName.family) || []
+      styles.push(font.fontName.style)
+      this.available.set(font.fontName.family, styles)
+    }
+    this.stored = stored
+  }
+
+  // Загрузка списка шрифтов Figma и сохраненной таблицы замен
+  static async load(): Promise<FontSubstitution> {
+    const [fonts, stored] = await Promise.all([
+      figma.listAvailableFontsAsync(),
+      figma.clientStorage.getAsync(STORAGE_KEY)
+    ])
+    return new FontSubstitution(fonts, stored && typeof stored === 'object' ? stored : {})
+  }
+
+  // Семейства и начертания, которые используются в тексте слайдов, мастеров и макетов
+  static collectFonts(slides: Array<{ elements: Element[] }>, masters: MasterSlide[]): Map<string, string[]> {
+    const fonts: Map<string, string[]> = new Map()
+    const addStyle = (style: TextStyle | undefined) => {
+      if (!style?.fontFamily) return
+      const styles = fonts.get(style.fontFamily) || []
+      const styleName = getFontStyleName(style)
+      if (styles.indexOf(styleName) === -1) styles.push(styleName)
+      fonts.set(style.fontFamily, styles)
+    }
+    const addParagraphs = (paragraphs: Paragraph[]) => {
+      for (const paragraph of paragraphs) {
+        for (const run of paragraph.runs) addStyle(run.style)
+        // Шрифт маркера (a:buFont) с начертанием первого run
+        if (paragraph.bullet?.fontFamily && paragraph.runs[0]) {
+          addStyle({ ...paragraph.runs[0].style, fontFamily: paragraph.bullet.fontFamily })
+        }
+      }
+    }
+    const addElements = (elements: Element[]) => {
+      for (const element of elements) {
+        if (element.type === 'text') addParagraphs(element.paragraphs)
+        if (element.type === 'shape' && element.text) addParagraphs(element.text.paragraphs)
+        if (element.type === 'group') addElements(element.children)
+        if (element.type === 'table') {
+          for (const row of element.rows) {
+            for (const cell of row.cells) addParagraphs(cell.paragraphs)
+          }
+        }
+      }
+    }
+
+    for (const slide of slides) addElements(slide.elements || [])
+    for (const master of masters) {
+      addElements(master.elements || [])
+      for (const layout of master.layouts || []) addElements(layout.elements || [])
+      for (const textStyle of master.textStyles || []) addStyle(textStyle.style)
+    }
+
+    return fonts
+  }
+
+  // Семейства и начертания, которых нет в Figma. Для отсутствующего семейства предлагается замена
+  // из сохраненной таблицы или таблицы по умолчанию, для отсутствующего начертания — само семейство
+  // (рендерер возьмет его начертание Regular), если пользователь не сохранил другую замену
+  findMissing(fonts: Map<string, string[]>): MissingFont[] {
+    const missing: MissingFont[] = []
+    fonts.forEach((styles, family) => {
+      const available = this.available.get(family)
+      if (!available) {
+        missing.push({ family, styles, familyAvailable: false, substitute: this.suggest(family) })
+        return
+      }
+
+      const missingStyles = styles.filter(style => available.indexOf(style) === -1)
+      if (missingStyles.length === 0) return
+      const stored = this.stored[family]
+      missing.push({
+        family,
+        styles: missingStyles,
+        familyAvailable: true,
+        substitute: stored && this.available.has(stored) ? stored : family
+      })
+    })
+    return missing.sort((a, b) => a.family.localeCompare(b.family))
+  }
+
+  // Все семейства Figma для выбора замены в UI
+  getAvailableFamilies(): string[] {
+    const families: string[] = []
+    this.available.forEach((_styles, family) => families.push(family))
+    return families.sort((a, b) => a.localeCompare(b))
+  }
+
+  // Сохранение подтвержденных пользователем замен поверх прежней таблицы
+  async save(substitutions: FontSubstitutions): Promise<void> {
+    this.stored = { ...this.stored, ...substitutions }
+    await figma.clientStorage.setAsync(STORAGE_KEY, this.stored)
+  }
+
+  private suggest(family: string): string {
+    const candidates = [this.stored[family], DEFAULT_SUBSTITUTIONS[family]]
+    for (const candidate of candidates) {
+      if (candidate && this.available.has(candidate)) return candidate
+    }
+    return FALLBACK_FAMILY
+  }
+}
@@ -0,0 +1,1380 @@
+/**
+ * @file: PPTXRenderer.ts
+ * @description: Рендерер доменных моделей слайдов в узлы Figma
+ * @dependencies: Figma Plugin API, models/types.ts, ChartRenderer.ts
+ * @created: 2026-10-18
+ */
+
+import {
+  Slide,
+  MasterSlide,
+  SlideLayout,
+  Element,
+  BaseElement,
+  TextElement,
+  TextRun,
+  Paragraph,
+  ShapeElement,
+  ShapePath,
+  ImageElement,
+  GroupElement,
+  LineElement,
+  LineEnd,
+  TableElement,
+  TableCell,
+  ChartElement,
+  Color,
+  FillStyle,
+  StrokeStyle,
+  SlideBackground,
+  ImagePlacement,
+  ImageInsets,
+  ImageAdjustments,
+  TextSpacing,
+  TextStyle
+} from '../../src/models/types'
+import { buildRelativeTransform, normalizeDegrees, rotatePoint } from '../../src/models/transform'
+import type { Orientation } from '../../src/models/transform'
+import { contentHash } from '../../src/models/hash'
+import { ChartRenderer } from './ChartRenderer'
+import { ThemeColorStyles } from './ThemeColorStyles'
+import { ThemeTextStyles } from './ThemeTextStyles'
+import { FALLBACK_FAMILY, getFontStyleName } from './FontSubstitution'
+import type { FontSubstitutions } from '../../src/shared/types'
+
+// Медиа файл в том виде, в котором он приходит из UI
+export interface RenderMediaFile {
+  id: string
+  name: string
+  src: string
+  data?: Uint8Array
+  svg?: string // SVG-файл или метафайл EMF/WMF, преобразованный в SVG при парсинге
+}
+
+export interface RenderOptions {
+  scale: number
+  importText: boolean
+  importShapes: boolean
+  importImages: boolean
+  includeMasterBackground: boolean // рендерить декоративные элементы макета и мастера под содержимым слайда
+  media: RenderMediaFile[]
+  masters: MasterSlide[]
+  themeStyles?: ThemeColorStyles // привязка цветов a:schemeClr к стилям заливки темы
+  fontSubstitutions: FontSubstitutions // замены недоступных в Figma семейств
+}
+
+export const EMU_PER_PIXEL = 9525 // При 96 DPI
+const POINTS_TO_PIXELS = 96 / 72
+// Одинарный интервал PowerPoint (a:spcPct 100%) — 1,2 размера шрифта
+const SINGLE_LINE_HEIGHT = 1.2
+const DEFAULT_FONT: FontName = { family: FALLBACK_FAMILY, style: 'Regular' }
+const PLACEHOLDER_COLOR: RGB = { r: 0.85, g: 0.85, b: 0.85 }
+const NO_INSETS: ImageInsets = { left: 0, top: 0, right: 0, bottom: 0 }
+// Форматы, которые принимает figma.createImage
+const RASTER_IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif']
+
+// Рендерер для создания Figma узлов
+export class PPTXRenderer {
+  private options: RenderOptions
+  private warnings: string[] = []
+  private loadedFonts: Map<string, FontName> = new Map()
+  private textStyles?: ThemeTextStyles
+  // Загруженные изображения по хэшу содержимого и хэши медиа файлов по пути
+  private images: Map<string, Image> = new Map()
+  private mediaHashes: Map<string, string> = new Map()
+
+  constructor(options: RenderOptions) {
+    this.options = options
+  }
+
+  // Рендеринг слайда в подготовленный фрейм. Если передан компонент макета,
+  // его экземпляр ложится нижним слоем вместо фона и элементов мастера
+  async renderSlide(slide: Slide, frame: FrameNode, layoutComponent?: ComponentNode): Promise<void> {
+    const source = `Слайд ${slide.number}`
+    const { master, layout } = this.findTemplate(slide)
+    let templateElements: Element[] = []
+
+    if (layoutComponent && master && layout && slide.showMasterShapes !== false) {
+      const instance = layoutComponent.createInstance()
+      instance.name = layoutComponent.name
+      frame.appendChild(instance)
+      instance.x = 0
+      instance.y = 0
+      instance.resize(frame.width, frame.height)
+
+      // Собственный фон слайда переопределяет фон макета только в этом экземпляре
+      if (!this.isSameBackground(slide.background, this.getLayoutBackground(layout, master))) {
+        this.setFills(instance, this.createBackgroundPaints(slide.background), slide.background?.color)
+      }
+      frame.fills = []
+    } else {
+      this.setFills(frame, this.createBackgroundPaints(slide.background), slide.background?.color)
+      if (this.options.includeMasterBackground && master && slide.showMasterShapes !== false) {
+        templateElements = this.getTemplateElements(master, layout)
+      }
+    }
+
+    for (const element of [...templateElements, ...(slide.elements || [])]) {
+      const node = await this.renderElement(element, frame, source)
+      if (node) {
+        frame.appendChild(node)
+      }
+    }
+  }
+
+  // Рендеринг компонента макета: фон и декоративные элементы мастера и макета
+  async renderLayoutComponent(layout: SlideLayout, master: MasterSlide, width: number, height: number): Promise<ComponentNode> {
+    const component = figma.createComponent()
+    // Слэш группирует компоненты макетов по мастер-слайду в панели Assets
+    component.name = `${master.name} / ${layout.name}`
+    component.resize(width, height)
+    component.clipsContent = true
+    const background = this.getLayoutBackground(layout, master)
+    this.setFills(component, this.createBackgroundPaints(background), background?.color)
+
+    if (this.options.includeMasterBackground) {
+      for (const element of this.getTemplateElements(master, layout)) {
+        const node = await this.renderElement(element, component, `Макет ${layout.name}`)
+        if (node) {
+          component.appendChild(node)
+        }
+      }
+    }
+
+    return component
+  }
+
+  // Публикация стилей текста мастер-слайдов; runs со свойствами мастера привязываются к ним
+  async publishTextStyles(masters: MasterSlide[], themeName: string): Promise<number> {
+    this.textStyles = new ThemeTextStyles({
+      scale: this.options.scale,
+      loadFont: style => this.loadFont(style)
+    })
+    return await this.textStyles.publish(masters, themeName)
+  }
+
+  // Мастер-слайд и макет, на которых основан слайд
+  private findTemplate(slide: Slide): { master?: MasterSlide; layout?: SlideLayout } {
+    const master = this.options.masters.find(candidate => candidate.id === slide.masterSlideId)
+    const layout = master?.layouts.find(candidate => candidate.id === slide.layoutId)
+    return { master, layout }
+  }
+
+  // Декоративные элементы мастера и макета (ниже содержимого слайда)
+  private getTemplateElements(master: MasterSlide, layout?: SlideLayout): Element[] {
+    // Макет может скрыть элементы мастера (showMasterSp="0")
+    const masterElements = layout?.showMasterShapes === false ? [] : master.elements
+    return [...masterElements, ...(layout?.elements || [])]
+  }
+
+  // Фон макета с откатом на фон мастер-слайда
+  private getLayoutBackground(layout: SlideLayout, master: MasterSlide): SlideBackground | undefined {
+    return layout.background && layout.background.type !== 'none' ? layout.background : master.background
+  }
+
+  private isSameBackground(a: SlideBackground | undefined, b: SlideBackground | undefined): boolean {
+    return JSON.stringify(a || null) === JSON.stringify(b || null)
+  }
+
+  // Получение накопленных предупреждений
+  getWarnings(): string[] {
+    return [...this.warnings]
+  }
+
+  // Рендеринг отдельного элемента
+  private async renderElement(element: Element, parent: BaseNode & ChildrenMixin, source: string): Promise<SceneNode | null> {
+    try {
+      switch (element.type) {
+        case 'text':
+          return this.options.importText ? await this.renderText(element) : null
+        case 'shape':
+          return await this.renderShapeWithText(element, parent)
+        case 'image':
+          return this.options.importImages ? this.renderImage(element) : null
+        case 'line':
+          return this.options.importShapes ? this.renderLine(element) : null
+        case 'group':
+          return await this.renderGroup(element, parent, source)
+        case 'table':
+          return this.options.importShapes || this.options.importText ? await this.renderTable(element) : null
+        case 'chart':
+          return this.options.importShapes ? await this.renderChart(element) : null
+        default:
+          this.warnings.push(`${source}: неподдерживаемый тип элемента ${(element as BaseElement).type}`)
+          return null
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      this.warnings.push(`${source}: ошибка рендеринга элемента ${element.name || element.id}: ${message}`)
+      return null
+    }
+  }
+
+  // Рендеринг текстового элемента: один TextNode на текстовый блок, стили runs задаются по диапазонам символов.
+  // Абзацы с разными полями и отступами или с висячим маркером раскладываются по отдельным узлам
+  private async renderText(element: TextElement): Promise<TextNode | FrameNode> {
+    if (this.needsParagraphLayout(element.paragraphs)) {
+      return await this.renderParagraphLayout(element)
+    }
+
+    const node = await this.createTextNode(element.paragraphs, element.fontScale || 1, element.lineSpacingReduction, true)
+    node.textAlignVertical = this.convertVerticalAlignment(element.verticalAlignment)
+
+    this.applyBaseProperties(node, this.getTextFrame(element))
+    // Без a:spAutoFit рамка фиксирована: текст выходит за нее, а вертикальное выравнивание работает внутри рамки
+    if (!element.wordWrap) {
+      node.textAutoResize = 'WIDTH_AND_HEIGHT'
+    } else if (element.autoFitType === 'shape') {
+      node.textAutoResize = 'HEIGHT'
+    } else {
+      node.textAutoResize = 'NONE'
+    }
+
+    this.warnUnsupportedTextLayout(element)
+    return node
+  }
+
+  // Figma задает поле и отступ первой строки на весь узел, а маркер не может выступать влево от текста
+  private needsParagraphLayout(paragraphs: Paragraph[]): boolean {
+    const first = paragraphs[0]
+    return paragraphs.some(paragraph =>
+      (!!paragraph.bullet && paragraph.style.textIndent < 0) ||
+      paragraph.style.marginLeft !== first.style.marginLeft ||
+      paragraph.style.textIndent !== first.style.textIndent
+    )
+  }
+
+  // Узел на абзац в вертикальном автолейауте: поле marL и отступ первой строки задаются каждому абзацу.
+  // Висячий маркер (отрицательный indent) выносится в поле отдельным узлом, текст абзаца начинается с marL
+  private async renderParagraphLayout(element: TextElement): Promise<FrameNode> {
+    const scale = this.options.scale
+    const fontScale = element.fontScale || 1
+    const frame = figma.createFrame()
+    frame.fills = []
+    frame.clipsContent = false
+    frame.layoutMode = 'VERTICAL'
+    frame.itemSpacing = 0
+    frame.counterAxisSizingMode = 'FIXED'
+    frame.primaryAxisSizingMode = element.autoFitType === 'shape' ? 'AUTO' : 'FIXED'
+    const alignment = this.convertVerticalAlignment(element.verticalAlignment)
+    frame.primaryAxisAlignItems = alignment === 'TOP' ? 'MIN' : alignment === 'BOTTOM' ? 'MAX' : 'CENTER'
+
+    for (let index = 0; index < element.paragraphs.length; index++) {
+      const paragraph = element.paragraphs[index]
+      const previous = element.paragraphs[index - 1]
+      const hanging = !!paragraph.bullet && paragraph.style.textIndent < 0
+
+      const row = figma.createFrame()
+      row.name = `Paragraph ${index + 1}`
+      row.fills = []
+      row.clipsContent = false
+      row.layoutMode = 'HORIZONTAL'
+      row.primaryAxisSizingMode = 'FIXED'
+      row.counterAxisSizingMode = 'AUTO'
+      // Поле начинается с маркера: marL с учетом выступа первой строки
+      row.paddingLeft = Math.max(paragraph.style.marginLeft + Math.min(paragraph.style.textIndent, 0), 0) * scale
+      row.paddingTop = previous ? this.getParagraphSpacing(previous, paragraph, fontScale) : 0
+      frame.appendChild(row)
+      row.layoutAlign = 'STRETCH'
+
+      if (hanging) {
+        const bullet = await this.createBulletNode(paragraph, fontScale, element.lineSpacingReduction)
+        row.appendChild(bullet)
+        bullet.textAutoResize = 'HEIGHT'
+        bullet.resize(Math.max(-paragraph.style.textIndent * scale, 0.01), bullet.height)
+      }
+
+      // Индексы runs заданы в тексте всего блока и сдвигаются к началу абзаца
+      const offset = paragraph.runs[0]?.startIndex || 0
+      const body = await this.createTextNode([{
+        ...paragraph,
+        bullet: hanging ? undefined : paragraph.bullet,
+        runs: paragraph.runs.map(run => ({ ...run, startIndex: run.startIndex - offset, endIndex: run.endIndex - offset }))
+      }], fontScale, element.lineSpacingReduction, false)
+      row.appendChild(body)
+      body.layoutGrow = 1
+      body.textAutoResize = 'HEIGHT'
+    }
+
+    this.applyBaseProperties(frame, this.getTextFrame(element, false))
+    this.warnUnsupportedTextLayout(element)
+    return frame
+  }
+
+  // Текстовый узел абзацев: символы, стили runs, маркеры, интервалы и выравнивание первого абзаца.
+  // Списки Figma используются, только если все абзацы лежат в одном узле: иначе нумерация не продолжается
+  private async createTextNode(paragraphs: Paragraph[], fontScale: number, lineSpacingReduction: number | undefined, nativeLists: boolean): Promise<TextNode> {
+    const node = figma.createText()
+    const runs = paragraphs.reduce<TextRun[]>((all, paragraph) => all.concat(paragraph.runs), [])
+    const listTypes = nativeLists ? this.getNativeListTypes(paragraphs) : paragraphs.map(() => undefined)
+    // Маркеры, которые нельзя передать списком Figma, добавляются в текст перед абзацем; табуляция отделяет текст от маркера
+    const prefixes = paragraphs.map((paragraph, index) =>
+      paragraph.bullet && !listTypes[index] ? `${paragraph.bullet.text}\t` : ''
+    )
+
+    node.fontName = await this.loadFont(runs[0]?.style)
+    node.characters = paragraphs
+      .map((paragraph, index) => prefixes[index] + paragraph.runs.map(run => run.text).join(''))
+      .join('\n')
+
+    const firstParagraph = paragraphs[0]
+
+    // Индексы runs заданы в тексте без маркеров, поэтому сдвигаются на длину добавленных префиксов
+    let shift = 0
+    let paragraphStart = 0
+    for (let index = 0; index < paragraphs.length; index++) {
+      const paragraph = paragraphs[index]
+      const length = prefixes[index].length + paragraph.runs.reduce((sum, run) => sum + run.text.length, 0)
+      shift += prefixes[index].length
+
+      for (const run of paragraph.runs) {
+        await this.applyRunStyle(node, run, shift, fontScale)
+      }
+      await this.applyBullet(node, paragraph, paragraphStart, paragraphStart + length, prefixes[index], listTypes[index], fontScale)
+      // Перевод строки после абзаца получает тот же интервал, иначе пустые абзацы сохраняют интервал Figma по умолчанию
+      const lineEnd = Math.min(paragraphStart + length + 1, node.characters.length)
+      if (lineEnd > paragraphStart) {
+        node.setRangeLineHeight(paragraphStart, lineEnd, this.convertLineHeight(paragraph.style.lineHeight, lineSpacingReduction))
+      }
+      paragraphStart += length + 1
+    }
+
+    // Интервалы между абзацами и отступ первой строки Figma задает на весь узел; в одном узле они совпадают у всех абзацев
+    if (firstParagraph) {
+      const nextParagraph = paragraphs[1]
+      node.paragraphSpacing = nextParagraph ? this.getParagraphSpacing(firstParagraph, nextParagraph, fontScale) : 0
+      node.paragraphIndent = Math.max(firstParagraph.style.textIndent, 0) * this.options.scale
+      node.textAlignHorizontal = this.convertAlignment(firstParagraph.style.alignment)
+    }
+
+    return node
+  }
+
+  // Висячий маркер абзаца шириной в выступ первой строки
+  private async createBulletNode(paragraph: Paragraph, fontScale: number, lineSpacingReduction?: number): Promise<TextNode> {
+    const node = figma.createText()
+    const text = paragraph.bullet?.text || ''
+    node.name = 'Bullet'
+    node.fontName = await this.loadFont(paragraph.runs[0]?.style)
+    node.characters = text
+    await this.applyBullet(node, paragraph, 0, text.length, text, undefined, fontScale)
+    if (text.length > 0) {
+      // Высота строки абзаца выравнивает маркер по первой строке текста
+      node.setRangeLineHeight(0, text.length, this.convertLineHeight(paragraph.style.lineHeight, lineSpacingReduction))
+    }
+    return node
+  }
+
+  // Интервал между абзацами: после предыдущего и перед следующим
+  private getParagraphSpacing(previous: Paragraph, next: Paragraph, fontScale: number): number {
+    return this.convertSpacing(previous.style.marginBottom, (previous.runs[0]?.style.fontSize || 0) * fontScale) +
+      this.convertSpacing(next.style.marginTop, (next.runs[0]?.style.fontSize || 0) * fontScale)
+  }
+
+  private warnUnsupportedTextLayout(element: TextElement): void {
+    if (element.textDirection === 'stacked') {
+      this.warnings.push(`Текст ${element.name || element.id}: буквы столбиком не поддерживаются, текст размещен горизонтально`)
+    }
+    if (element.columns && element.columns > 1) {
+      this.warnings.push(`Текст ${element.name || element.id}: колонки (${element.columns}) не поддерживаются, текст размещен в одну колонку`)
+    }
+  }
+
+  // Рамка текста: рамка фигуры за вычетом полей a:bodyPr, повернутая на a:bodyPr/@rot и @vert вокруг своего центра.
+  // Смещение центра из-за несимметричных полей поворачивается вместе с фигурой
+  private getTextFrame(element: TextElement, includeMargins = true): TextElement {
+    const bodyInsets = element.insets || { left: 0, top: 0, right: 0, bottom: 0 }
+    // Общий левый отступ абзацев (marL с учетом выступа первой строки) сдвигает весь блок,
+    // если поля не заданы каждому абзацу отдельно
+    const margins = includeMargins
+      ? element.paragraphs.map(paragraph => paragraph.style.marginLeft + Math.min(paragraph.style.textIndent, 0))
+      : []
+    const margin = margins.length > 0 ? Math.max(Math.min(...margins), 0) : 0
+    const insets = { ...bodyInsets, left: bodyInsets.left + margin }
+    const width = Math.max(element.size.width - insets.left - insets.right, 1)
+    const height = Math.max(element.size.height - insets.top - insets.bottom, 1)
+    const offset = rotatePoint(
+      { x: (insets.left - insets.right) / 2, y: (insets.top - insets.bottom) / 2 },
+      { x: 0, y: 0 },
+      this.getOrientation(element).rotation
+    )
+    const center = {
+      x: element.position.x + element.size.width / 2 + offset.x,
+      y: element.position.y + element.size.height / 2 + offset.y
+    }
+
+    const directionRotation = element.textDirection === 'vertical' ? 90 : element.textDirection === 'vertical270' ? 270 : 0
+    const textRotation = normalizeDegrees((element.textRotation || 0) + directionRotation)
+    // Вертикальный текст идет вдоль длинной стороны: ширина и высота рамки меняются местами
+    const size = textRotation === 90 || textRotation === 270 ? { width: height, height: width } : { width, height }
+
+    return {
+      ...element,
+      position: { x: center.x - size.width / 2, y: center.y - size.height / 2 },
+      size,
+      rotation: normalizeDegrees(element.rotation + textRotation)
+    }
+  }
+
+  // Стиль run на его диапазоне символов; стиль текста мастера привязывается поверх шрифта и размера
+  private async applyRunStyle(node: TextNode, run: TextRun, shift: number, fontScale: number): Promise<void> {
+    const start = run.startIndex + shift
+    const end = Math.min(run.endIndex + shift, node.characters.length)
+    if (end <= start) return
+
+    node.setRangeFontName(start, end, await this.loadFont(run.style))
+    node.setRangeFontSize(start, end, Math.max(1, run.style.fontSize * fontScale * POINTS_TO_PIXELS * this.options.scale))
+    node.setRangeTextDecoration(start, end, this.convertTextDecoration(run.style.textDecoration))
+
+    // Стиль мастера задает полный размер шрифта, поэтому уменьшенный авто-подгонкой текст к нему не привязывается
+    const textStyleId = fontScale === 1 ? this.textStyles?.getStyleId(run.masterStyleId) : undefined
+    if (textStyleId) {
+      node.setRangeTextStyleId(start, end, textStyleId)
+    }
+
+    const paints = [this.createSolidPaint(run.style.color, run.style.opacity)]
+    node.setRangeFills(start, end, paints)
+    const fillStyleId = this.getColorStyleId(run.style.color, paints)
+    if (fillStyleId) {
+      node.setRangeFillStyleId(start, end, fillStyleId)
+    }
+
+    // Переходы на слайды внутри презентации пока не переносятся
+    if (run.hyperlink && run.hyperlink.target === '_blank') {
+      node.setRangeHyperlink(start, end, { type: 'URL', value: run.hyperlink.url })
+    }
+  }
+
+  // Маркеры, которые передаются списками Figma: «•» и нумерация «1.» с единицы на первом уровне.
+  // Figma сама нумерует подряд идущие пункты, поэтому номер должен совпасть с позицией в серии;
+  // цвет и размер маркера у списков Figma не настраиваются
+  private getNativeListTypes(paragraphs: Paragraph[]): Array<'ORDERED' | 'UNORDERED' | undefined> {
+    let orderedStreak = 0
+    return paragraphs.map(paragraph => {
+      const bullet = paragraph.bullet
+      const plain = !!bullet && (paragraph.bulletLevel || 0) === 0 && !bullet.color && !bullet.sizePoints &&
+        (bullet.sizePercent === undefined || bullet.sizePercent === 1)
+
+      if (plain && bullet && bullet.type === 'number' && bullet.scheme === 'arabicPeriod' && bullet.number === orderedStreak + 1) {
+        orderedStreak++
+        return 'ORDERED'
+      }
+      orderedStreak = 0
+      return plain && bullet && bullet.type === 'bullet' && bullet.text === '•' ? 'UNORDERED' : undefined
+    })
+  }
+
+  // Маркер абзаца [start, end): список Figma или уже вставленный префикс со шрифтом, размером и цветом маркера
+  private async applyBullet(
+    node: TextNode,
+    paragraph: Paragraph,
+    start: number,
+    end: number,
+    prefix: string,
+    listType: 'ORDERED' | 'UNORDERED' | undefined,
+    fontScale: number
+  ): Promise<void> {
+    const bullet = paragraph.bullet
+    const firstRun = paragraph.runs[0]
+    if (!bullet || !firstRun || end <= start) return
+
+    if (listType) {
+      node.setRangeListOptions(start, end, { type: listType })
+      return
+    }
+
+    const prefixEnd = start + prefix.length
+    const fontSize = (bullet.sizePoints || firstRun.style.fontSize * (bullet.sizePercent || 1)) * fontScale
+    node.setRangeFontName(start, prefixEnd, await this.loadFont({ ...firstRun.style, fontFamily: bullet.fontFamily || firstRun.style.fontFamily }))
+    node.setRangeFontSize(start, prefixEnd, Math.max(1, fontSize * POINTS_TO_PIXELS * this.options.scale))
+    node.setRangeTextDecoration(start, prefixEnd, 'NONE')
+
+    const color = bullet.color || firstRun.style.color
+    const paints = [this.createSolidPaint(color, firstRun.style.opacity)]
+    node.setRangeFills(start, prefixEnd, paints)
+    const fillStyleId = this.getColorStyleId(color, paints)
+    if (fillStyleId) {
+      node.setRangeFillStyleId(start, prefixEnd, fillStyleId)
+    }
+  }
+
+  // Межстрочный интервал: проценты от одинарного интервала с учетом a:normAutofit/@lnSpcReduction, пункты — точная высота строки
+  private convertLineHeight(spacing: TextSpacing, reduction?: number): LineHeight {
+    if (spacing.unit === 'points') {
+      return { unit: 'PIXELS', value: spacing.value * POINTS_TO_PIXELS * this.options.scale }
+    }
+    const value = Math.max(spacing.value - (reduction || 0), 0)
+    return { unit: 'PERCENT', value: value * SINGLE_LINE_HEIGHT * 100 }
+  }
+
+  // Интервал до или после абзаца в пикселях; проценты считаются от одинарного интервала шрифта абзаца (в пунктах)
+  private convertSpacing(spacing: TextSpacing, fontSize: number): number {
+    const points = spacing.unit === 'percent' ? spacing.value * fontSize * SINGLE_LINE_HEIGHT : spacing.value
+    return points * POINTS_TO_PIXELS * this.options.scale
+  }
+
+  // Фигура с текстом: текстовый узел над геометрией, оба объединяются в группу с именем фигуры
+  private async renderShapeWithText(element: ShapeElement, parent: BaseNode & ChildrenMixin): Promise<SceneNode | null> {
+    const text = element.text && this.options.importText ? await this.renderText(element.text) : null
+    const shape = this.options.importShapes ? this.renderShape(element) : null
+    if (!shape || !text) return shape || text
+
+    parent.appendChild(shape)
+    parent.appendChild(text)
+    const group = figma.group([shape, text], parent)
+    group.name = element.name || 'Shape'
+    return group
+  }
+
+  // Рендеринг фигуры
+  private renderShape(element: ShapeElement): SceneNode {
+    if (element.paths && element.paths.length > 0) {
+      return this.renderCustomGeometry(element)
+    }
+
+    let node: GeometryMixin & SceneNode & LayoutMixin
+
+    switch (element.shapeType) {
+      case 'ellipse':
+        node = figma.createEllipse()
+        break
+      case 'triangle': {
+        const polygon = figma.createPolygon()
+        polygon.pointCount = 3
+        node = polygon
+        break
+      }
+      case 'polygon': {
+        const polygon = figma.createPolygon()
+        polygon.pointCount = Math.max(3, element.points?.length || 6)
+        node = polygon
+        break
+      }
+      case 'star':
+        node = figma.createStar()
+        break
+      case 'arrow':
+      case 'line':
+      case 'freeform':
+        node = this.createShapeVector(element)
+        break
+      default: {
+        const rectangle = figma.createRectangle()
+        if (element.cornerRadius) {
+          rectangle.cornerRadius = element.cornerRadius * this.options.scale
+        }
+        node = rectangle
+      }
+    }
+
+    this.applyBaseProperties(node, element)
+    this.setFills(node, this.createFillPaints(element.fill), element.fill?.color)
+    this.applyStroke(node, element.stroke)
+
+    return node
+  }
+
+  // Пользовательская геометрия (a:custGeom): каждый контур становится отдельным вектором во фрейме
+  // размера фигуры. Заливка изображением обрезается маской по залитым контурам
+  private renderCustomGeometry(element: ShapeElement): FrameNode {
+    const paths = element.paths || []
+    const frame = this.createGeometryFrame(element, paths)
+    const isImageFill = element.fill?.type === 'image'
+    const imageShapes: VectorNode[] = []
+
+    frame.children.forEach((child, index) => {
+      const path = paths[index]
+      if (!path || child.type !== 'VECTOR') return
+
+      if (path.fill && isImageFill) {
+        child.fills = []
+        imageShapes.push(child)
+      } else if (path.fill) {
+        this.setFills(child, this.createFillPaints(element.fill), element.fill?.color)
+      } else {
+        child.fills = []
+      }
+      this.applyStroke(child, path.stroke ? element.stroke : undefined)
+    })
+
+    if (imageShapes.length > 0) {
+      this.appendImageMask(frame, imageShapes, this.createFillPaints(element.fill))
+    }
+
+    this.applyBaseProperties(frame, element)
+    return frame
+  }
+
+  // Фрейм размера элемента с векторами контуров; viewBox SVG переводит координаты контуров в масштаб рендеринга
+  private createGeometryFrame(element: BaseElement, paths: ShapePath[]): FrameNode {
+    const width = Math.max(element.size.width, 0.01)
+    const height = Math.max(element.size.height, 0.01)
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width * this.options.scale}" height="${height * this.options.scale}" ` +
+      `viewBox="0 0 ${width} ${height}">` +
+      paths.map(path => `<path d="${path.data}" fill="black"/>`).join('') +
+      '</svg>'
+
+    const frame = figma.createNodeFromSvg(svg)
+    frame.fills = []
+    frame.clipsContent = false
+    return frame
+  }
+
+  // Изображение по силуэту: копии залитых контуров объединяются в маску над прямоугольником
+  // с заливкой изображением во весь фрейм, чтобы размещение изображения не зависело от границ контуров.
+  // Группа с маской ставится под остальные векторы фрейма, обводки маской не обрезаются
+  private appendImageMask(frame: FrameNode, shapes: VectorNode[], paints: Paint[]): void {
+    const mask = figma.flatten(shapes.map(shape => shape.clone()), frame)
+    mask.fills = [{ type: 'SOLID', color: { r: 0, g: 0, b: 0 } }]
+    mask.strokes = []
+    mask.isMask = true
+    mask.name = 'Mask'
+
+    const image = figma.createRectangle()
+    frame.appendChild(image)
+    image.resize(frame.width, frame.height)
+    image.x = 0
+    image.y = 0
+    image.fills = paints
+    image.name = 'Image'
+
+    figma.group([mask, image], frame, 0).name = 'Masked image'
+    // Контуры без обводки остаются пустыми векторами после переноса заливки в маску
+    shapes.forEach(shape => {
+      if (shape.strokes.length === 0) shape.remove()
+    })
+  }
+
+  // Создание вектора для фигур без прямого аналога в Figma
+  private createShapeVector(element: ShapeElement): VectorNode {
+    const vector = figma.createVector()
+    const width = Math.max(element.size.width, 1)
+    const height = Math.max(element.size.height, 1)
+    let data: string
+
+    if (element.shapeType === 'freeform' && element.points && element.points.length > 1) {
+      const [first, ...rest] = element.points
+      data = [`M ${first.x} ${first.y}`, ...rest.map(point => `L ${point.x} ${point.y}`), 'Z'].join(' ')
+    } else if (element.shapeType === 'line') {
+      data = `M 0 0 L ${width} ${height}`
+    } else {
+      const headSize = Math.min(width, height) * 0.5
+      const shaftTop = height * 0.25
+      const shaftBottom = height * 0.75
+      data = `M 0 ${shaftTop} L ${width - headSize} ${shaftTop} L ${width - headSize} 0 L ${width} ${height / 2} ` +
+        `L ${width - headSize} ${height} L ${width - headSize} ${shaftBottom} L 0 ${shaftBottom} Z`
+    }
+
+    vector.vectorPaths = [{ windingRule: 'NONZERO', data }]
+    return vector
+  }
+
+  // Рендеринг изображения: SVG и преобразованные метафайлы импортируются векторами,
+  // остальные форматы — прямоугольником с заливкой изображением
+  private renderImage(element: ImageElement): SceneNode {
+    const vector = this.renderVectorImage(element)
+    if (vector) {
+      return vector
+    }
+
+    const image = this.getImage(element.src)
+    let paints: Paint[]
+    if (image) {
+      paints = [this.createImagePaint(image, element, element)]
+    } else {
+      const media = this.findMedia(element.src)
+      this.warnings.push(media
+        ? `Изображение ${element.src}: формат не поддерживается Figma, создан плейсхолдер`
+        : `Изображение ${element.src || element.id} не найдено, создан плейсхолдер`)
+      paints = [{ type: 'SOLID', color: PLACEHOLDER_COLOR }]
+    }
+
+    // Форма картинки: эллипс заливается изображением напрямую, остальные контуры становятся маской
+    const fillPaths = (element.paths || []).filter(path => path.fill)
+    let node: SceneNode
+    if (fillPaths.length > 0) {
+      const frame = this.createGeometryFrame(element, fillPaths)
+      this.appendImageMask(frame, frame.children.filter((child): child is VectorNode => child.type === 'VECTOR'), paints)
+      node = frame
+    } else {
+      const shape = element.shapeType === 'ellipse' ? figma.createEllipse() : figma.createRectangle()
+      shape.fills = paints
+      node = shape
+    }
+    this.applyBaseProperties(node, element)
+
+    if (element.altText) {
+      node.setPluginData('altText', element.altText)
+    }
+
+    return node
+  }
+
+  // Векторное изображение из SVG (asvg:svgBlip или сам файл изображения); null — нужен растровый вариант
+  private renderVectorImage(element: ImageElement): FrameNode | null {
+    const svgMedia = element.svgSrc ? this.findMedia(element.svgSrc) : undefined
+    const media = svgMedia?.svg ? svgMedia : this.findMedia(element.src)
+    const source = element.name || element.svgSrc || element.src
+    const hasVectorSource = !!element.svgSrc || !this.isRasterImage(element.src)
+
+    const svg = media?.svg && this.fitSvg(media.svg, element)
+    if (!svg) {
+      if (hasVectorSource && media) {
+        this.warnings.push(`Изображение ${source}: векторная версия не прочитана, использовано растровое изображение`)
+      }
+      return null
+    }
+
+    let frame: FrameNode
+    try {
+      frame = figma.createNodeFromSvg(svg)
+    } catch (error) {
+      this.warnings.push(`Изображение ${source}: SVG не импортирован (${error instanceof Error ? error.message : String(error)}), использовано растровое изображение`)
+      return null
+    }
+
+    frame.fills = []
+    frame.clipsContent = true
+    this.applyBaseProperties(frame, element)
+    frame.opacity = element.opacity * (element.alpha ?? 1)
+    if (element.altText) {
+      frame.setPluginData('altText', element.altText)
+    }
+    return frame
+  }
+
+  // Подгонка SVG под размер элемента: viewBox растягивается без сохранения пропорций,
+  // как картинка в PowerPoint, обрезка a:srcRect сдвигает границы viewBox
+  private fitSvg(svg: string, element: ImageElement): string | undefined {
+    const tag = svg.match(/<svg\b[^>]*>/i)?.[0]
+    if (!tag) return undefined
+
+    const attribute = (name: string) => tag.match(new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`, 'i'))?.[1]
+    let viewBox = (attribute('viewBox') || '').trim().split(/[\s,]+/).map(Number)
+    if (viewBox.length !== 4 || viewBox.some(value => isNaN(value))) {
+      const width = parseFloat(attribute('width') || '') || element.size.width
+      const height = parseFloat(attribute('height') || '') || element.size.height
+      viewBox = [0, 0, width, height]
+    }
+
+    const crop = element.crop || NO_INSETS
+    const [x, y, width, height] = viewBox
+    const cropped = [
+      x + crop.left * width,
+      y + crop.top * height,
+      width * (1 - crop.left - crop.right),
+      height * (1 - crop.top - crop.bottom)
+    ]
+    if (cropped[2] <= 0 || cropped[3] <= 0) return undefined
+
+    const scale = this.options.scale
+    const fitted = tag
+      .replace(/\s(width|height|viewBox|preserveAspectRatio)\s*=\s*("[^"]*"|'[^']*')/gi, '')
+      .replace(/^<svg\b/i, `<svg width="${Math.max(element.size.width * scale, 0.01)}" height="${Math.max(element.size.height * scale, 0.01)}" ` +
+        `viewBox="${cropped.join(' ')}" preserveAspectRatio="none"`)
+    return svg.replace(tag, fitted)
+  }
+
+  // Рендеринг линии: прямой или по контуру соединительной линии, с наконечниками на концах
+  private renderLine(element: LineElement): VectorNode {
+    const vector = figma.createVector()
+    const scale = this.options.scale
+    let data: string
+
+    if (element.path) {
+      data = element.path.replace(/-?\d*\.?\d+(?:e[-+]?\d+)?/gi, value => String(Number(value) * scale))
+    } else {
+      const start = {
+        x: (element.startPoint.x - element.position.x) * scale,
+        y: (element.startPoint.y - element.position.y) * scale
+      }
+      const end = {
+        x: (element.endPoint.x - element.position.x) * scale,
+        y: (element.endPoint.y - element.position.y) * scale
+      }
+      data = `M ${start.x} ${start.y} L ${end.x} ${end.y}`
+    }
+
+    vector.vectorPaths = [{ windingRule: 'NONE', data }]
+    vector.fills = []
+    vector.name = element.name || 'Line'
+    // Поворот и отражения соединительной линии уже перенесены на ее точки
+    this.applyTransform(vector, element, element.size.width * scale, element.size.height * scale, { rotation: 0, flipH: false, flipV: false })
+    vector.opacity = element.opacity
+    vector.visible = element.visible
+    vector.locked = element.locked
+    this.applyStroke(vector, element.stroke)
+    this.applyLineEnds(vector, element.stroke)
+
+    if (element.startConnection) {
+      vector.setPluginData('startConnection', JSON.stringify(element.startConnection))
+    }
+    if (element.endConnection) {
+      vector.setPluginData('endConnection', JSON.stringify(element.endConnection))
+    }
+
+    return vector
+  }
+
+  // Наконечники a:headEnd / a:tailEnd на первой и последней вершине вектора
+  private applyLineEnds(vector: VectorNode, stroke: StrokeStyle): void {
+    if (stroke.type === 'none' || (!stroke.headEnd && !stroke.tailEnd)) return
+
+    const network = vector.vectorNetwork
+    const segments = network.segments
+    if (segments.length === 0) return
+
+    const first = segments[0].start
+    const last = segments[segments.length - 1].end
+    const vertices = network.vertices.map((vertex, index) => {
+      if (index === first && stroke.headEnd) return { ...vertex, strokeCap: this.convertLineEnd(stroke.headEnd) }
+      if (index === last && stroke.tailEnd) return { ...vertex, strokeCap: this.convertLineEnd(stroke.tailEnd) }
+      return vertex
+    })
+
+    vector.vectorNetwork = { ...network, vertices }
+  }
+
+  // Ближайший вариант strokeCap Figma; для ромба и круга наконечников нет — используются квадратный и круглый концы
+  private convertLineEnd(end: LineEnd): StrokeCap {
+    switch (end.type) {
+      case 'arrow': return 'ARROW_LINES'
+      case 'oval': return 'ROUND'
+      case 'diamond': return 'SQUARE'
+      case 'none': return 'NONE'
+      default: return 'ARROW_EQUILATERAL'
+    }
+  }
+
+  // Рендеринг группы
+  private async renderGroup(element: GroupElement, parent: BaseNode & ChildrenMixin, source: string): Promise<GroupNode | null> {
+    const children: SceneNode[] = []
+
+    for (const child of element.children) {
+      const node = await this.renderElement(child, parent, source)
+      if (node) {
+        parent.appendChild(node)
+        children.push(node)
+      }
+    }
+
+    if (children.length === 0) {
+      return null
+    }
+
+    const group = figma.group(children, parent)
+    group.name = element.name || 'Group'
+    group.opacity = element.opacity
+    group.visible = element.visible
+    group.locked = element.locked
+
+    return group
+  }
+
+  // Рендеринг таблицы: фрейм-сетка с ячейками, позиционированными по ширинам колонок и высотам строк
+  private async renderTable(element: TableElement): Promise<FrameNode> {
+    const scale = this.options.scale
+    const table = figma.createFrame()
+    this.applyBaseProperties(table, element)
+    table.name = element.name || 'Table'
+    table.fills = []
+    table.clipsContent = false
+
+    const columnOffsets = this.getOffsets(element.columns)
+    const rowOffsets = this.getOffsets(element.rows.map(row => row.height))
+
+    for (let rowIndex = 0; rowIndex < element.rows.length; rowIndex++) {
+      const row = element.rows[rowIndex]
+
+      for (let columnIndex = 0; columnIndex < row.cells.length && columnIndex < element.columns.length; columnIndex++) {
+        const cell = row.cells[columnIndex]
+        // Продолжения объединённых ячеек покрываются ячейкой-источником
+        if (cell.hMerge || cell.vMerge) continue
+
+        const lastColumn = Math.min(columnIndex + cell.gridSpan, element.columns.length)
+        const lastRow = Math.min(rowIndex + cell.rowSpan, element.rows.length)
+        const bounds = {
+          x: columnOffsets[columnIndex],
+          y: rowOffsets[rowIndex],
+          width: columnOffsets[lastColumn] - columnOffsets[columnIndex],
+          height: rowOffsets[lastRow] - rowOffsets[rowIndex]
+        }
+
+        const cellNode = await this.renderTableCell(cell, bounds, `Cell ${rowIndex + 1}:${columnIndex + 1}`)
+        table.appendChild(cellNode)
+        this.renderCellBorders(cell, bounds, table)
+      }
+    }
+
+    return table
+  }
+
+  // Рендеринг ячейки таблицы (координаты в пикселях слайда относительно таблицы)
+  private async renderTableCell(
+    cell: TableCell,
+    bounds: { x: number; y: number; width: number; height: number },
+    name: string
+  ): Promise<FrameNode> {
+    const scale = this.options.scale
+    const node = figma.createFrame()
+    node.name = name
+    node.resize(Math.max(bounds.width * scale, 0.01), Math.max(bounds.height * scale, 0.01))
+    node.x = bounds.x * scale
+    node.y = bounds.y * scale
+    this.setFills(node, this.createFillPaints(cell.fill), cell.fill?.color)
+    node.clipsContent = false
+
+    const hasText = cell.paragraphs.some(paragraph => paragraph.runs.some(run => run.text.length > 0))
+    if (!this.options.importText || !hasText) {
+      return node
+    }
+
+    const textElement: TextElement = {
+      id: `${cell.id}-text`,
+      type: 'text',
+      name: 'Text',
+      position: { x: cell.margins.left, y: cell.margins.top },
+      size: {
+        width: Math.max(bounds.width - cell.margins.left - cell.margins.right, 1),
+        height: Math.max(bounds.height - cell.margins.top - cell.margins.bottom, 1)
+      },
+      rotation: 0,
+      opacity: 1,
+      visible: true,
+      locked: false,
+      paragraphs: cell.paragraphs,
+      autoFit: false,
+      wordWrap: true,
+      verticalAlignment: cell.verticalAlignment
+    }
+
+    const text = await this.renderText(textElement)
+    // Фиксированный размер нужен, чтобы вертикальное выравнивание работало внутри ячейки
+    if (text.type === 'TEXT') {
+      text.textAutoResize = 'NONE'
+    }
+    text.resize(textElement.size.width * scale, textElement.size.height * scale)
+    node.appendChild(text)
+
+    return node
+  }
+
+  // Рендеринг границ ячейки отдельными линиями поверх ячеек
+  private renderCellBorders(
+    cell: TableCell,
+    bounds: { x: number; y: number; width: number; height: number },
+    table: FrameNode
+  ): void {
+    const scale = this.options.scale
+    const width = bounds.width * scale
+    const height = bounds.height * scale
+    const horizontal = `M 0 0 L ${width} 0`
+    const vertical = `M 0 0 L 0 ${height}`
+    const sides: Array<[keyof TableCell['borders'], string, number, number]> = [
+      ['top', horizontal, 0, 0],
+      ['right', vertical, width, 0],
+      ['bottom', horizontal, 0, height],
+      ['left', vertical, 0, 0]
+    ]
+
+    for (const [side, data, offsetX, offsetY] of sides) {
+      const stroke = cell.borders[side]
+      if (!stroke || stroke.type === 'none' || stroke.width <= 0) continue
+
+      const vector = figma.createVector()
+      vector.name = `Border ${side}`
+      vector.vectorPaths = [{ windingRule: 'NONE', data }]
+      vector.fills = []
+      this.applyStroke(vector, stroke)
+      table.appendChild(vector)
+      vector.x = bounds.x * scale + offsetX
+      vector.y = bounds.y * scale + offsetY
+    }
+  }
+
+  // Рендеринг диаграммы: векторы для поддерживаемых типов, иначе кэшированное изображение
+  private async renderChart(element: ChartElement): Promise<SceneNode> {
+    if (ChartRenderer.canRender(element)) {
+      const chartRenderer = new ChartRenderer({
+        scale: this.options.scale,
+        loadFont: style => this.loadFont(style),
+        createSolidPaint: (color, opacity) => this.createSolidPaint(color, opacity)
+      })
+      const frame = await chartRenderer.render(element)
+      this.applyBaseProperties(frame, element)
+      return frame
+    }
+
+    const node = figma.createRectangle()
+    this.applyBaseProperties(node, element)
+
+    const image = element.fallbackImageSrc ? this.getImage(element.fallbackImageSrc) : undefined
+    if (image) {
+      node.fills = [{ type: 'IMAGE', scaleMode: 'FIT', imageHash: image.hash }]
+      this.warnings.push(`Диаграмма ${element.name || element.id} не поддерживается, вставлено кэшированное изображение`)
+    } else {
+      node.fills = [{ type: 'SOLID', color: PLACEHOLDER_COLOR }]
+      this.warnings.push(`Диаграмма ${element.name || element.id} не поддерживается, создан плейсхолдер`)
+    }
+
+    return node
+  }
+
+  // Накопленные смещения для списка размеров: [0, a, a + b, ...]
+  private getOffsets(sizes: number[]): number[] {
+    const offsets = [0]
+    for (const size of sizes) {
+      offsets.push(offsets[offsets.length - 1] + size)
+    }
+    return offsets
+  }
+
+  // Применение общих свойств элемента: позиция, размер, поворот, видимость
+  private applyBaseProperties(node: SceneNode, element: BaseElement): void {
+    const scale = this.options.scale
+    const width = Math.max(element.size.width * scale, 0.01)
+    const height = Math.max(element.size.height * scale, 0.01)
+
+    node.name = element.name || element.type
+    if ('resize' in node) {
+      node.resize(width, height)
+    }
+    if ('rotation' in node) {
+      this.applyTransform(node, element, width, height, this.getOrientation(element))
+    }
+
+    if ('opacity' in node) {
+      node.opacity = element.opacity
+    }
+    node.visible = element.visible
+    node.locked = element.locked
+  }
+
+  // Поворот и отражения элемента. Текст PowerPoint не зеркалит: flipH игнорируется,
+  // а flipV переворачивает текст на 180°
+  private getOrientation(element: BaseElement): Orientation {
+    if (element.type === 'text') {
+      return { rotation: normalizeDegrees(element.rotation + (element.flipV ? 180 : 0)), flipH: false, flipV: false }
+    }
+    return { rotation: element.rotation, flipH: !!element.flipH, flipV: !!element.flipV }
+  }
+
+  // Положение узла по рамке элемента (в масштабе импорта) через relativeTransform
+  private applyTransform(node: Pick<LayoutMixin, 'x' | 'y' | 'relativeTransform'>, element: BaseElement, width: number, height: number, orientation: Orientation): void {
+    const scale = this.options.scale
+    const frame = { x: element.position.x * scale, y: element.position.y * scale, width, height }
+
+    if (!orientation.rotation && !orientation.flipH && !orientation.flipV) {
+      node.x = frame.x
+      node.y = frame.y
+      return
+    }
+
+    node.relativeTransform = buildRelativeTransform(frame, orientation)
+  }
+
+  // Применение обводки
+  private applyStroke(node: GeometryMixin & MinimalStrokesMixin, stroke: StrokeStyle | undefined): void {
+    if (!stroke || stroke.type === 'none' || stroke.width <= 0) {
+      node.strokes = []
+      return
+    }
+
+    const weight = Math.max(stroke.width * this.options.scale, 0.1)
+    node.strokes = [this.createSolidPaint(stroke.color, stroke.opacity)]
+    const strokeStyleId = this.getColorStyleId(stroke.color, node.strokes)
+    if (strokeStyleId) {
+      node.strokeStyleId = strokeStyleId
+    }
+    node.strokeWeight = weight
+    node.strokeJoin = stroke.join === 'miter' ? 'MITER' : stroke.join === 'bevel' ? 'BEVEL' : 'ROUND'
+    node.strokeCap = stroke.cap === 'round' ? 'ROUND' : stroke.cap === 'square' ? 'SQUARE' : 'NONE'
+
+    if (stroke.dashPattern && stroke.dashPattern.length > 0) {
+      node.dashPattern = stroke.dashPattern.map(value => value * weight)
+    } else if (stroke.type === 'dashed') {
+      node.dashPattern = [weight * 4, weight * 3]
+    } else if (stroke.type === 'dotted') {
+      node.dashPattern = [weight, weight]
+    }
+  }
+
+  // Заливка узла с привязкой к стилю цвета темы
+  private setFills(node: MinimalFillsMixin, paints: Paint[], color: Color | undefined): void {
+    node.fills = paints
+    const styleId = this.getColorStyleId(color, paints)
+    if (styleId) {
+      node.fillStyleId = styleId
+    }
+  }
+
+  // Стиль темы применим только к единственной сплошной заливке цветом a:schemeClr
+  private getColorStyleId(color: Color | undefined, paints: ReadonlyArray<Paint>): string | undefined {
+    const paint = paints[0]
+    if (!this.options.themeStyles || !color || paints.length !== 1 || paint.type !== 'SOLID') {
+      return undefined
+    }
+    return this.options.themeStyles.getStyleId(color, paint)
+  }
+
+  // Создание заливки фона слайда
+  private createBackgroundPaints(background: SlideBackground | undefined): Paint[] {
+    if (!background || background.type === 'none') {
+      return [{ type: 'SOLID', color: { r: 1, g: 1, b: 1 } }]
+    }
+
+    return this.createFillPaints({
+      type: background.type,
+      color: background.color,
+      gradientStops: background.gradientStops,
+      gradientType: background.gradientType,
+      gradientAngle: background.gradientAngle,
+      gradientCenter: background.gradientCenter,
+      imageUrl: background.imageUrl,
+      imagePlacement: background.imagePlacement,
+      imageAdjustments: background.imageAdjustments,
+      opacity: background.opacity
+    })
+  }
+
+  // Создание заливки из доменного стиля
+  private createFillPaints(fill: FillStyle | undefined): Paint[] {
+    if (!fill) return []
+
+    switch (fill.type) {
+      case 'solid':
+        return fill.color ? [this.createSolidPaint(fill.color, fill.opacity)] : []
+      case 'gradient':
+        if (!fill.gradientStops || fill.gradientStops.length === 0) {
+          return fill.color ? [this.createSolidPaint(fill.color, fill.opacity)] : []
+        }
+        return [this.createGradientPaint(fill)]
+      case 'image': {
+        const image = fill.imageUrl ? this.getImage(fill.imageUrl) : undefined
+        if (image) {
+          return [this.createImagePaint(image, fill.imagePlacement, fill.imageAdjustments, fill.opacity ?? 1)]
+        }
+        return [{ type: 'SOLID', color: PLACEHOLDER_COLOR }]
+      }
+      default:
+        return []
+    }
+  }
+
+  // Заливка изображением: a:tile — TILE, обрезка или a:fillRect — CROP с imageTransform, иначе FILL.
+  // imageTransform переводит нормализованные координаты узла в координаты изображения
+  private createImagePaint(image: Image, placement: ImagePlacement = {}, adjustments: ImageAdjustments = {}, opacity: number = 1): ImagePaint {
+    const filters = this.createImageFilters(adjustments)
+    const paint = {
+      type: 'IMAGE' as const,
+      imageHash: image.hash,
+      opacity: opacity * (adjustments.alpha ?? 1),
+      ...(filters ? { filters } : {})
+    }
+
+    if (placement.tile) {
+      return { ...paint, scaleMode: 'TILE', scalingFactor: placement.tile.scaleX * this.options.scale }
+    }
+
+    const source = placement.crop || NO_INSETS
+    const target = placement.fillRect || NO_INSETS
+    const isEmpty = (insets: ImageInsets) => !insets.left && !insets.top && !insets.right && !insets.bottom
+    if (isEmpty(source) && isEmpty(target)) {
+      return { ...paint, scaleMode: 'FILL' }
+    }
+
+    // Видимая часть изображения (a:srcRect) растягивается на область a:fillRect рамки
+    const scaleX = (1 - source.left - source.right) / Math.max(1 - target.left - target.right, 0.001)
+    const scaleY = (1 - source.top - source.bottom) / Math.max(1 - target.top - target.bottom, 0.001)
+    return {
+      ...paint,
+      scaleMode: 'CROP',
+      imageTransform: [
+        [scaleX, 0, source.left - target.left * scaleX],
+        [0, scaleY, source.top - target.top * scaleY]
+      ]
+    }
+  }
+
+  // Фильтры Figma (-1..1) для коррекций a:lum и a:hsl; оттенки серого — нулевая насыщенность
+  private createImageFilters(adjustments: ImageAdjustments): ImageFilters | undefined {
+    const clamp = (value: number) => Math.max(-1, Math.min(1, value / 100))
+    const exposure = clamp(adjustments.brightness || 0)
+    const contrast = clamp(adjustments.contrast || 0)
+    const saturation = adjustments.grayscale ? -1 : clamp(adjustments.saturation || 0)
+
+    if (!exposure && !contrast && !saturation) return undefined
+    return { exposure, contrast, saturation }
+  }
+
+  // Изображение Figma для медиа файла: файлы с одинаковым содержимым загружаются через figma.createImage один раз
+  private getImage(src: string): Image | undefined {
+    const media = this.findMedia(src)
+    if (!media?.data || !this.isRasterImage(media.src)) return undefined
+
+    let hash = this.mediaHashes.get(media.src)
+    if (!hash) {
+      hash = contentHash(media.data)
+      this.mediaHashes.set(media.src, hash)
+    }
+
+    let image = this.images.get(hash)
+    if (!image) {
+      image = figma.createImage(media.data)
+      this.images.set(hash, image)
+    }
+    return image
+  }
+
+  // Создание градиентной заливки. gradientTransform переводит нормализованные координаты
+  // узла (0-1) в пространство градиента, где линейный градиент идет от x = 0 к x = 1,
+  // а радиальный имеет центр (0.5, 0.5) и радиус 0.5
+  private createGradientPaint(fill: FillStyle): GradientPaint {
+    const gradientStops = (fill.gradientStops || []).map(stop => ({
+      position: Math.max(0, Math.min(1, stop.position / 100)),
+      color: this.convertColor(stop.color)
+    }))
+
+    if (fill.gradientType && fill.gradientType !== 'linear') {
+      const center = fill.gradientCenter || { x: 0.5, y: 0.5 }
+      // PowerPoint растягивает градиент от фокуса до самого дальнего угла элемента
+      const reachX = Math.max(center.x, 1 - center.x)
+      const reachY = Math.max(center.y, 1 - center.y)
+      const radius = fill.gradientType === 'radial' ? Math.sqrt(reachX * reachX + reachY * reachY) : Math.max(reachX + reachY, 0.01)
+      const scale = 0.5 / Math.max(radius, 0.01)
+
+      return {
+        type: fill.gradientType === 'radial' ? 'GRADIENT_RADIAL' : 'GRADIENT_DIAMOND',
+        gradientTransform: [
+          [scale, 0, 0.5 - scale * center.x],
+          [0, scale, 0.5 - scale * center.y]
+        ],
+        gradientStops,
+        opacity: fill.opacity ?? 1
+      }
+    }
+
+    // Поворот вокруг центра по часовой стрелке с растяжением до углов элемента
+    const radians = ((fill.gradientAngle || 0) * Math.PI) / 180
+    const cos = Math.cos(radians)
+    const sin = Math.sin(radians)
+    const span = Math.abs(cos) + Math.abs(sin)
+
+    return {
+      type: 'GRADIENT_LINEAR',
+      gradientTransform: [
+        [cos / span, sin / span, 0.5 - (cos + sin) / span / 2],
+        [-sin, cos, 0.5 + (sin - cos) / 2]
+      ],
+      gradientStops,
+      opacity: fill.opacity ?? 1
+    }
+  }
+
+  // Создание сплошной заливки
+  private createSolidPaint(color: Color, opacity: number = 1): SolidPaint {
+    const rgba = this.convertColor(color)
+    return {
+      type: 'SOLID',
+      color: { r: rgba.r, g: rgba.g, b: rgba.b },
+      opacity: Math.max(0, Math.min(1, rgba.a * opacity))
+    }
+  }
+
+  // Конвертация доменного цвета в RGBA Figma
+  private convertColor(color: Color | undefined): RGBA {
+    if (!color) return { r: 0, g: 0, b: 0, a: 1 }
+
+    const clamp = (value: number) => Math.max(0, Math.min(1, value || 0))
+    return {
+      r: clamp(color.r),
+      g: clamp(color.g),
+      b: clamp(color.b),
+      a: 'a' in color ? clamp(color.a) : 1
+    }
+  }
+
+  // Загрузка шрифта с учетом таблицы замен: семейство замены в том же начертании,
+  // затем в начертании Regular, затем шрифт по умолчанию
+  private async loadFont(style: TextStyle | undefined): Promise<FontName> {
+    const family = style?.fontFamily || DEFAULT_FONT.family
+    const fontName: FontName = {
+      family: this.options.fontSubstitutions[family] || family,
+      style: getFontStyleName(style)
+    }
+    const key = `${fontName.family}:${fontName.style}`
+
+    const cached = this.loadedFonts.get(key)
+    if (cached) return cached
+
+    const candidates = [fontName, { family: fontName.family, style: 'Regular' }, DEFAULT_FONT]
+    let loaded = DEFAULT_FONT
+    for (const candidate of candidates) {
+      try {
+        await figma.loadFontAsync(candidate)
+        loaded = candidate
+        break
+      } catch (error) {
+        continue
+      }
+    }
+
+    if (loaded !== fontName) {
+      this.warnings.push(`Шрифт ${fontName.family} ${fontName.style} недоступен, используется ${loaded.family} ${loaded.style}`)
+    }
+
+    this.loadedFonts.set(key, loaded)
+    return loaded
+  }
+
+  // Растровый формат по расширению файла
+  private isRasterImage(src: string): boolean {
+    const extension = (src.split('.').pop() || '').toLowerCase()
+    return RASTER_IMAGE_EXTENSIONS.indexOf(extension) !== -1
+  }
+
+  // Поиск медиа файла по ссылке элемента
+  private findMedia(src: string): RenderMediaFile | undefined {
+    if (!src) return undefined
+
+    const name = src.split('/').pop()
+    return this.options.media.find(media =>
+      media.src === src || media.id === src || media.name === name
+    )
+  }
+
+  private convertAlignment(alignment: string): 'LEFT' | 'CENTER' | 'RIGHT' | 'JUSTIFIED' {
+    switch (alignment) {
+      case 'center':
+        return 'CENTER'
+      case 'right':
+        return 'RIGHT'
+      case 'justify':
+        return 'JUSTIFIED'
+      default:
+        return 'LEFT'
+    }
+  }
+
+  private convertVerticalAlignment(alignment: TextElement['verticalAlignment']): 'TOP' | 'CENTER' | 'BOTTOM' {
+    switch (alignment) {
+      case 'middle':
+        return 'CENTER'
+      case 'bottom':
+        return 'BOTTOM'
+      default:
+        return 'TOP'
+    }
+  }
+
+  private convertTextDecoration(decoration: TextStyle['textDecoration']): TextDecoration {
+    switch (decoration) {
+      case 'underline':
+        return 'UNDERLINE'
+      case 'line-through':
+        return 'STRIKETHROUGH'
+      default:
+        return 'NONE'
+    }
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * @file: ThemeColorStyles.ts
+ * @description: Публикация цветовой схемы темы PPTX в виде стилей заливки Figma и поиск стилей для цветов a:schemeClr
+ * @dependencies: Figma Plugin API, models/types.ts, parser/types.ts
+ * @created: 2026-10-18
+ */
+
+import type { Color, ThemeColorReference } from '../../src/models/types'
+import type { ThemeColorPalette } from '../../src/parser/types'
+
+export class ThemeColorStyles {
+  private palette: ThemeColorPalette
+  private styles: Map<string, PaintStyle> = new Map()
+
+  constructor(palette: ThemeColorPalette) {
+    this.palette = palette
+  }
+
+  // Создание стилей базовых цветов схемы, возвращает количество стилей
+  publish(): number {
+    const keys = Object.keys(this.palette.colors)
+    for (const key of keys) {
+      this.getOrCreateStyle(`${this.palette.name}/${key}`, this.createPaint(this.palette.colors[key], 1))
+    }
+    return keys.length
+  }
+
+  // Стиль для сплошной заливки цветом темы. Цвета с модификаторами и прозрачностью
+  // получают производные стили вида "Тема/accent1/Lum 75% Off 25%"
+  getStyleId(color: Color, paint: SolidPaint): string | undefined {
+    const reference = color.themeColor
+    if (!reference || !this.palette.colors[reference.key]) return undefined
+
+    const variant = this.getVariantName(reference, paint.opacity ?? 1)
+    const name = variant ? `${this.palette.name}/${reference.key}/${variant}` : `${this.palette.name}/${reference.key}`
+    return this.getOrCreateStyle(name, paint).id
+  }
+
+  // Стиль с тем же именем и цветом переиспользуется, в том числе от прошлых импортов
+  private getOrCreateStyle(name: string, paint: SolidPaint): PaintStyle {
+    const cached = this.styles.get(name)
+    if (cached) return cached
+
+    const existing = figma.getLocalPaintStyles().find(style => style.name === name && this.isSamePaint(style.paints[0], paint))
+    const style = existing || figma.createPaintStyle()
+    if (!existing) {
+      style.name = name
+      style.paints = [paint]
+    }
+
+    this.styles.set(name, style)
+    return style
+  }
+
+  // Имя производного цвета из модификаторов DrawingML и итоговой прозрачности
+  private getVariantName(reference: ThemeColorReference, opacity: number): string {
+    const percent = (value: number) => `${Math.round(value * 100)}%`
+    const parts: string[] = []
+
+    if (reference.tint !== undefined) parts.push(`Tint ${percent(reference.tint)}`)
+    if (reference.shade !== undefined) parts.push(`Shade ${percent(reference.shade)}`)
+    if (reference.lumMod !== undefined) parts.push(`Lum ${percent(reference.lumMod)}`)
+    if (reference.lumOff !== undefined) parts.push(`Off ${percent(reference.lumOff)}`)
+    if (opacity < 1) parts.push(`Alpha ${percent(opacity)}`)
+
+    return parts.join(' ')
+  }
+
+  private createPaint(color: Color, opacity: number): SolidPaint {
+    const clamp = (value: number) => Math.max(0, Math.min(1, value || 0))
+    return {
+      type: 'SOLID',
+      color: { r: clamp(color.r), g: clamp(color.g), b: clamp(color.b) },
+      opacity
+    }
+  }
+
+  private isSamePaint(paint: Paint | undefined, expected: SolidPaint): boolean {
+    if (!paint || paint.type !== 'SOLID') return false
+
+    const close = (a: number, b: number) => Math.abs(a - b) < 0.002
+    return close(paint.color.r, expected.color.r) &&
+      close(paint.color.g, expected.color.g) &&
+      close(paint.color.b, expected.color.b) &&
+      close(paint.opacity ?? 1, expected.opacity ?? 1)
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * @file: ThemeTextStyles.ts
+ * @description: Публикация стилей текста мастер-слайдов (p:txStyles) в виде стилей текста Figma
+ * @dependencies: Figma Plugin API, models/types.ts
+ * @created: 2026-10-18
+ */
+
+import type { MasterSlide, MasterTextStyle, TextStyle as ModelTextStyle } from '../../src/models/types'
+
+// Зависимости от основного рендерера: масштаб и загрузка шрифтов с заменой недоступных
+export interface TextStyleContext {
+  scale: number
+  loadFont(style: ModelTextStyle | undefined): Promise<FontName>
+}
+
+const POINTS_TO_PIXELS = 96 / 72
+
+export class ThemeTextStyles {
+  private context: TextStyleContext
+  // Стиль Figma по id стиля мастера (MasterTextStyle.id)
+  private styles: Map<string, TextStyle> = new Map()
+
+  constructor(context: TextStyleContext) {
+    this.context = context
+  }
+
+  // Создание стилей "Тема/Title", "Тема/Body L1" и т.д.; при нескольких мастерах
+  // добавляется уровень с именем мастер-слайда. Возвращает количество стилей
+  async publish(masters: MasterSlide[], themeName: string): Promise<number> {
+    const existing = figma.getLocalTextStyles()
+
+    for (const master of masters) {
+      const group = masters.length > 1 ? `${themeName}/${master.name}` : themeName
+      for (const masterStyle of master.textStyles || []) {
+        this.styles.set(masterStyle.id, await this.getOrCreateStyle(`${group}/${masterStyle.name}`, masterStyle, existing))
+      }
+    }
+
+    return this.styles.size
+  }
+
+  // Стиль Figma для run, свойства которого унаследованы от мастера
+  getStyleId(masterStyleId: string | undefined): string | undefined {
+    return masterStyleId ? this.styles.get(masterStyleId)?.id : undefined
+  }
+
+  // Стиль с тем же именем и параметрами переиспользуется, в том числе от прошлых импортов
+  private async getOrCreateStyle(name: string, masterStyle: MasterTextStyle, existing: TextStyle[]): Promise<TextStyle> {
+    const fontName = await this.context.loadFont(masterStyle.style)
+    const fontSize = Math.max(1, masterStyle.style.fontSize * POINTS_TO_PIXELS * this.context.scale)
+    const textDecoration = this.convertTextDecoration(masterStyle.style.textDecoration)
+
+    const reused = existing.find(style =>
+      style.name === name &&
+      style.fontName.family === fontName.family &&
+      style.fontName.style === fontName.style &&
+      Math.abs(style.fontSize - fontSize) < 0.01 &&
+      style.textDecoration === textDecoration
+    )
+    if (reused) return reused
+
+    const style = figma.createTextStyle()
+    style.name = name
+    style.fontName = fontName
+    style.fontSize = fontSize
+    style.textDecoration = textDecoration
+    return style
+  }
+
+  private convertTextDecoration(decoration: ModelTextStyle['textDecoration']): TextDecoration {
+    switch (decoration) {
+      case 'underline': return 'UNDERLINE'
+      case 'line-through': return 'STRIKETHROUGH'
+      default: return 'NONE'
+    }
+  }
+}
@@ -1,13 +1,15 @@
 /**
  * @file: pptx-adapter.ts
  * @description: Adapter for ZIP and XML operations (DOM-dependent)
- * @dependencies: core/parser.ts, JSZip, fast-xml-parser
+ * @dependencies: core/parser.ts, parser/RelationshipResolver.ts, parser/MetafileConverter.ts, JSZip, fast-xml-parser
  * @created: 2024-12-19
  */
 
 import JSZip from 'jszip'
 import { XMLParser } from 'fast-xml-parser'
 import { CoreParser } from '../core/parser'
+import { RelationshipResolver } from '../parser/RelationshipResolver'
+import { convertVectorMedia } from '../parser/MetafileConverter'
 import { PPTXData, ParseResult, ParseProgress } from '../shared/types'
 
 // Polyfill for setImmediate in UI context
@@ -19,6 +21,7 @@ if (typeof setImmediate === 'undefined') {
 
 export class PPTXAdapter {
   private zip: JSZip | null = null
+  private relationships: RelationshipResolver = new RelationshipResolver()
   private xmlParser: XMLParser
   private onProgress?: (progress: ParseProgress) => void
 
@@ -116,6 +119,12 @@ export class PPTXAdapter {
     
     this.zip = new JSZip()
     await this.zip.loadAsync(fileData)
+    this.relationships = await RelationshipResolver.fromZip(this.zip)
+  }
+
+  // Relationships of the loaded archive parts
+  getRelationships(): RelationshipResolver {
+    return this.relationships
   }
 
   // Parse presentation.xml
@@ -161,7 +170,7 @@ export class PPTXAdapter {
       try {
         const xmlContent = await slideFile.async('string')
         const xmlData = this.xmlParser.parse(xmlContent)
-        const slide = CoreParser.parseSlide(xmlData, slideNumber)
+        const slide = CoreParser.parseSlide(xmlData, slideNumber, this.relationships.forPart(slideFile.name))
         slides.push(slide)
       } catch (error) {
         console.warn(`Error parsing slide ${slideNumber}:`, error)
@@ -189,7 +198,7 @@ export class PPTXAdapter {
       try {
         const xmlContent = await masterFile.async('string')
         const xmlData = this.xmlParser.parse(xmlContent)
-        const master = CoreParser.parseMasterSlide(xmlData, masterNumber)
+        const master = CoreParser.parseMasterSlide(xmlData, masterNumber, this.relationships.forPart(masterFile.name))
         masters.push(master)
       } catch (error) {
         console.warn(`Error parsing master slide ${masterNumber}:`, error)
@@ -241,6 +250,8 @@ export class PPTXAdapter {
     for (const mediaFile of mediaFiles) {
       try {
         const fileData = await mediaFile.async('uint8array')
+        const vector = convertVectorMedia(mediaFile.name, fileData)
+        vector.warnings.forEach(warning => console.warn(warning))
         const mediaItem = {
           id: `media-${media.length}`,
           name: mediaFile.name.split('/').pop() || 'unknown',
@@ -248,6 +259,7 @@ export class PPTXAdapter {
           src: mediaFile.name,
           size: fileData.length,
           data: fileData,
+          svg: vector.svg,
           mimeType: this.getMimeType(mediaFile.name)
         }
         media.push(mediaItem)
@@ -307,7 +319,7 @@ export class PPTXAdapter {
   private getMediaType(fileName: string): 'image' | 'video' | 'audio' {
     const ext = fileName.split('.').pop()?.toLowerCase()
     
-    if (['jpg', 'jpeg', 'png', 'gif', 'bmp', 'svg'].includes(ext || '')) {
+    if (['jpg', 'jpeg', 'png', 'gif', 'bmp', 'svg', 'emf', 'wmf'].includes(ext || '')) {
       return 'image'
     }
     
@@ -328,6 +340,8 @@ export class PPTXAdapter {
       'gif': 'image/gif',
       'bmp': 'image/bmp',
       'svg': 'image/svg+xml',
+      'emf': 'image/x-emf',
+      'wmf': 'image/x-wmf',
       'mp4': 'video/mp4',
       'avi': 'video/x-msvideo',
       'mov': 'video/quicktime',
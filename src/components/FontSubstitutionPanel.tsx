@@ -0,0 +1,76 @@
+/**
+ * @file: FontSubstitutionPanel.tsx
+ * @description: Таблица замены шрифтов и начертаний презентации, недоступных в Figma
+ * @dependencies: React, types
+ * @created: 2026-10-18
+ */
+
+import React, { useState } from 'react'
+import { FontSubstitutions, MissingFont } from '../shared/types'
+
+interface FontSubstitutionPanelProps {
+  missingFonts: MissingFont[]
+  availableFamilies: string[]
+  onConfirm: (substitutions: FontSubstitutions) => void
+  onCancel: () => void
+}
+
+const FontSubstitutionPanel: React.FC<FontSubstitutionPanelProps> = ({ missingFonts, availableFamilies, onConfirm, onCancel }) => {
+  const [substitutions, setSubstitutions] = useState<FontSubstitutions>(() =>
+    missingFonts.reduce<FontSubstitutions>((table, font) => ({ ...table, [font.family]: font.substitute }), {})
+  )
+
+  const handleChange = (family: string, substitute: string) => {
+    setSubstitutions(prev => ({ ...prev, [family]: substitute }))
+  }
+
+  // Замена должна быть одним из семейств, доступных в Figma
+  const isValid = missingFonts.every(font => availableFamilies.includes(substitutions[font.family]))
+
+  return (
+    <div className="font-substitution">
+      <h3>Замена шрифтов</h3>
+      <p className="subtitle">Эти шрифты или их начертания не найдены в Figma. Выберите замену — таблица сохранится для следующих импортов.</p>
+
+      <datalist id="available-font-families">
+        {availableFamilies.map(family => (
+          <option key={family} value={family} />
+        ))}
+      </datalist>
+
+      <div className="settings-group">
+        {missingFonts.map(font => (
+          <div key={font.family} className="font-row">
+            <div className="font-source">
+              <span>{font.family}</span>
+              <span className="font-styles">
+                {font.familyAvailable
+                  ? `Нет начертаний: ${font.styles.join(', ')}. Без замены семейства используется Regular`
+                  : font.styles.join(', ')}
+              </span>
+            </div>
+            <span className="font-arrow">→</span>
+            <input
+              type="text"
+              list="available-font-families"
+              value={substitutions[font.family] || ''}
+              className={availableFamilies.includes(substitutions[font.family]) ? '' : 'invalid'}
+              onChange={(e) => handleChange(font.family, e.target.value)}
+            />
+          </div>
+        ))}
+      </div>
+
+      <footer>
+        <button className="primary-btn" disabled={!isValid} onClick={() => onConfirm(substitutions)}>
+          Продолжить
+        </button>
+        <button className="cancel-btn" onClick={onCancel}>
+          Отмена
+        </button>
+      </footer>
+    </div>
+  )
+}
+
+export default FontSubstitutionPanel
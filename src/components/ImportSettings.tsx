@@ -13,21 +13,31 @@ interface ImportSettingsProps {
 
 export interface ImportSettings {
   includeMasterBackground: boolean
+  useLayoutComponents: boolean
+  importThemeColors: boolean
+  importTextStyles: boolean
   importImages: boolean
   importShapes: boolean
   importText: boolean
   slideSize: '1920x1080' | '1280x720' | 'custom'
   customWidth?: number
   customHeight?: number
+  maxImageDimension?: number
+  imageQuality?: number
 }
 
 const ImportSettings: React.FC<ImportSettingsProps> = ({ onSettingsChange }) => {
   const [settings, setSettings] = useState<ImportSettings>({
     includeMasterBackground: true,
+    useLayoutComponents: true,
+    importThemeColors: true,
+    importTextStyles: true,
     importImages: true,
     importShapes: true,
     importText: true,
-    slideSize: '1920x1080'
+    slideSize: '1920x1080',
+    maxImageDimension: 4096,
+    imageQuality: 0.85
   })
 
   const handleSettingChange = (key: keyof ImportSettings, value: any) => {
@@ -78,8 +88,62 @@ const ImportSettings: React.FC<ImportSettingsProps> = ({ onSettingsChange }) =>
           />
           <span>Включать фон мастера</span>
         </label>
+
+        <label className="setting-item">
+          <input
+            type="checkbox"
+            checked={settings.useLayoutComponents}
+            onChange={(e) => handleSettingChange('useLayoutComponents', e.target.checked)}
+          />
+          <span>Макеты как компоненты</span>
+        </label>
+
+        <label className="setting-item">
+          <input
+            type="checkbox"
+            checked={settings.importThemeColors}
+            onChange={(e) => handleSettingChange('importThemeColors', e.target.checked)}
+          />
+          <span>Цвета темы как стили</span>
+        </label>
+
+        <label className="setting-item">
+          <input
+            type="checkbox"
+            checked={settings.importTextStyles}
+            onChange={(e) => handleSettingChange('importTextStyles', e.target.checked)}
+          />
+          <span>Стили текста темы</span>
+        </label>
       </div>
       
+      {settings.importImages && (
+        <div className="settings-group">
+          <h4>Изображения</h4>
+
+          <div className="size-input">
+            <label>Наибольшая сторона, px:</label>
+            <input
+              type="number"
+              value={settings.maxImageDimension || 4096}
+              onChange={(e) => handleSettingChange('maxImageDimension', parseInt(e.target.value))}
+              min="256"
+              max="4096"
+            />
+          </div>
+          <div className="size-input">
+            <label>Качество JPEG, %:</label>
+            <input
+              type="number"
+              value={Math.round((settings.imageQuality || 0.85) * 100)}
+              onChange={(e) => handleSettingChange('imageQuality', parseInt(e.target.value) / 100)}
+              min="10"
+              max="100"
+            />
+          </div>
+        </div>
+      )}
+
       <div className="settings-group">
         <h4>Размер слайдов</h4>
         
@@ -1,7 +1,7 @@
 /**
  * @file: PPTXImporter.tsx
  * @description: Основной компонент для импорта PPTX файлов
- * @dependencies: React, ImportSettings, ProgressBar, ResultsPanel, validation, types
+ * @dependencies: React, ImportSettings, ProgressBar, ResultsPanel, FontSubstitutionPanel, validation, types, workers/parser.worker.ts
  * @created: 2024-12-19
  */
 
@@ -9,8 +9,11 @@ import React, { useState, useEffect, useRef } from 'react'
 import ImportSettings, { ImportSettings as ImportSettingsType } from './ImportSettings'
 import ProgressBar from './ProgressBar'
 import ResultsPanel from './ResultsPanel'
-import { validatePPTXFile, validateImportSettings, fileToArrayBuffer } from '../shared/validation'
-import { ImportState, ImportResult, MainMessage, ParseProgress, PPTXData } from '../shared/types'
+import FontSubstitutionPanel from './FontSubstitutionPanel'
+import { validatePPTXFile, validateImportSettings, fileToArrayBuffer, getSlideDimensions } from '../shared/validation'
+import { ImportState, ImportResult, MainMessage, PPTXData, FontSubstitutions, MissingFont } from '../shared/types'
+import { ParserState } from '../parser/types'
+import ParserWorker from '../workers/parser.worker?worker&inline'
 
 const PPTXImporter: React.FC = () => {
   const [isDragOver, setIsDragOver] = useState(false)
@@ -27,11 +30,16 @@ const PPTXImporter: React.FC = () => {
     currentSlide: 0,
     totalSlides: 0,
     settings: {
+      includeMasterBackground: true,
+      useLayoutComponents: true,
+      importThemeColors: true,
+      importTextStyles: true,
+      importImages: true,
+      importShapes: true,
+      importText: true,
       slideSize: '1920x1080',
-      includeBackground: true,
-      includeText: true,
-      includeShapes: true,
-      includeImages: true
+      maxImageDimension: 4096,
+      imageQuality: 0.85
     },
     results: {
       slidesImported: 0,
@@ -42,8 +50,13 @@ const PPTXImporter: React.FC = () => {
     }
   })
   
+  // Недоступные шрифты, для которых main процесс ждет таблицу замен
+  const [fontCheck, setFontCheck] = useState<{ missingFonts: MissingFont[]; availableFamilies: string[] } | null>(null)
+  
   // Web Worker reference
   const workerRef = useRef<Worker | null>(null)
+  // Настройки текущего импорта для отправки результата парсинга на рендеринг
+  const settingsRef = useRef(importState.settings)
 
   // Обработка сообщений от main процесса
   useEffect(() => {
@@ -79,7 +92,8 @@ const PPTXImporter: React.FC = () => {
             results: {
               ...prev.results,
               slidesImported: message.payload.slidesImported,
-              warnings: message.payload.warnings,
+              // Предупреждения парсера дополняются предупреждениями рендеринга
+              warnings: [...prev.results.warnings, ...message.payload.warnings],
               errors: message.payload.errors
             }
           }))
@@ -96,6 +110,13 @@ const PPTXImporter: React.FC = () => {
           }))
           break
 
+        case 'font-check':
+          setFontCheck({
+            missingFonts: message.payload.missingFonts,
+            availableFamilies: message.payload.availableFamilies
+          })
+          break
+
         case 'notification':
           // Можно добавить toast уведомления
           console.log(`${message.payload.type}: ${message.payload.message}`)
@@ -110,29 +131,49 @@ const PPTXImporter: React.FC = () => {
   // Обработка сообщений от Web Worker
   const handleWorkerMessage = (event: MessageEvent) => {
     const { type, payload } = event.data
-    console.log('Worker message received:', type, payload)
 
     switch (type) {
       case 'progress':
-        const progress = payload as ParseProgress
+        const state = payload as ParserState
         setImportState(prev => ({
           ...prev,
-          progress: progress.progress,
-          currentStep: progress.message
+          progress: state.progress,
+          currentStep: state.currentStep
         }))
         break
 
       case 'complete':
+        if (!payload.success || !payload.data) {
+          setImportState(prev => ({
+            ...prev,
+            isImporting: false,
+            results: {
+              ...prev.results,
+              errors: [...prev.results.errors, ...payload.errors]
+            }
+          }))
+          break
+        }
+
         const pptxData = payload.data as PPTXData
-        console.log('PPTX parsing completed:', pptxData)
-        
+
+        // Предупреждения парсера и отчет об уменьшенных изображениях дополняют результаты импорта
+        setImportState(prev => ({
+          ...prev,
+          results: {
+            ...prev.results,
+            warnings: [...prev.results.warnings, ...payload.warnings],
+            imageOptimizations: payload.imageOptimizations || []
+          }
+        }))
+
         // Отправляем данные в main процесс для рендеринга
         window.parent.postMessage({
           pluginMessage: {
             type: 'render-pptx',
             payload: {
               pptxData,
-              settings: importState.settings
+              settings: settingsRef.current
             }
           }
         }, '*')
@@ -216,142 +257,14 @@ const PPTXImporter: React.FC = () => {
       // Чтение файла
       const fileData = await fileToArrayBuffer(selectedFile)
       
-      // Создаем Web Worker для парсинга
+      // Web Worker парсера собирается Vite вместе с UI и встраивается в бандл
       if (!workerRef.current) {
         try {
-                     // Создаем простой Web Worker без сложных конструкций
-           const workerCode = `
-             // Простая функция для симуляции парсинга
-             function simulateParsing(onProgress) {
-               const steps = [
-                 { progress: 10, message: 'Загрузка ZIP архива...' },
-                 { progress: 20, message: 'Парсинг presentation.xml...' },
-                 { progress: 30, message: 'Парсинг слайдов...' },
-                 { progress: 50, message: 'Парсинг мастер-слайдов...' },
-                 { progress: 60, message: 'Парсинг тем...' },
-                 { progress: 70, message: 'Парсинг медиа файлов...' },
-                 { progress: 90, message: 'Формирование результата...' }
-               ];
-
-               return new Promise((resolve) => {
-                 let currentStep = 0;
-                 
-                 function nextStep() {
-                   if (currentStep < steps.length) {
-                     const step = steps[currentStep];
-                     onProgress(step);
-                     currentStep++;
-                     setTimeout(nextStep, 200);
-                   } else {
-                     resolve();
-                   }
-                 }
-                 
-                 nextStep();
-               });
-             }
-
-             // Обработчик сообщений
-             self.addEventListener('message', async function(event) {
-               try {
-                 const { type, payload } = event.data;
-                 console.log('Worker received message:', type, payload);
-
-                 if (type === 'parse-pptx') {
-                   const { fileData, fileName } = payload;
-                   console.log('Starting PPTX parsing for:', fileName, 'Size:', fileData.byteLength);
-                   
-                   // Отправляем начальный прогресс
-                   self.postMessage({
-                     type: 'progress',
-                     payload: {
-                       stage: 'initializing',
-                       progress: 0,
-                       message: 'Инициализация парсера...'
-                     }
-                   });
-
-                   // Симулируем парсинг
-                   await simulateParsing((progress) => {
-                     console.log('Parsing progress:', progress);
-                     self.postMessage({
-                       type: 'progress',
-                       payload: progress
-                     });
-                   });
-
-                   // Создаем результат
-                   const result = {
-                     fileName: fileName,
-                     fileSize: fileData.byteLength,
-                     slides: [
-                       {
-                         id: 'slide-1',
-                         name: 'Slide 1',
-                         number: 1,
-                         elements: []
-                       },
-                       {
-                         id: 'slide-2', 
-                         name: 'Slide 2',
-                         number: 2,
-                         elements: []
-                       }
-                     ],
-                     masters: [],
-                     themes: [],
-                     media: [],
-                     presentation: {
-                       slideCount: 2,
-                       masterCount: 0,
-                       themeCount: 0,
-                       slideSize: { width: 9144000, height: 6858000 }
-                     }
-                   };
-
-                   // Отправляем завершающий прогресс
-                   self.postMessage({
-                     type: 'progress',
-                     payload: {
-                       stage: 'completed',
-                       progress: 100,
-                       message: 'Парсинг завершен'
-                     }
-                   });
-
-                   // Отправляем результат
-                   self.postMessage({
-                     type: 'complete',
-                     payload: {
-                       success: true,
-                       data: result,
-                       errors: [],
-                       warnings: [],
-                       processingTime: 1000
-                     }
-                   });
-                 }
-               } catch (error) {
-                 console.error('Worker error:', error);
-                 self.postMessage({
-                   type: 'error',
-                   payload: {
-                     error: error.message || 'Unknown error'
-                   }
-                 });
-               }
-             });
-           `;
-
-          const blob = new Blob([workerCode], { type: 'application/javascript' });
-          const workerUrl = URL.createObjectURL(blob);
-          console.log('Creating Web Worker with Blob URL:', workerUrl);
-          
-                     workerRef.current = new Worker(workerUrl);
-          
+          workerRef.current = new ParserWorker()
+
           // Добавляем обработчик ошибок для Web Worker
           workerRef.current.onerror = (error) => {
-            console.error('Web Worker error:', error);
+            console.error('Web Worker error:', error)
             setImportState(prev => ({
               ...prev,
               isImporting: false,
@@ -359,14 +272,14 @@ const PPTXImporter: React.FC = () => {
                 ...prev.results,
                 errors: [...prev.results.errors, `Ошибка Web Worker: ${error.message}`]
               }
-            }));
-          };
-          
+            }))
+          }
+
           // Добавляем обработчик сообщений
-          workerRef.current.addEventListener('message', handleWorkerMessage);
-          
+          workerRef.current.addEventListener('message', handleWorkerMessage)
+
         } catch (error) {
-          console.error('Failed to create Web Worker:', error);
+          console.error('Failed to create Web Worker:', error)
           setImportState(prev => ({
             ...prev,
             isImporting: false,
@@ -374,17 +287,26 @@ const PPTXImporter: React.FC = () => {
               ...prev.results,
               errors: [...prev.results.errors, `Не удалось создать Web Worker: ${error.message}`]
             }
-          }));
-          return;
+          }))
+          return
         }
       }
-      
+
+      // Настройки рендеринга берутся обработчиком сообщений worker, созданным при первом импорте
+      settingsRef.current = importState.settings
+
       // Отправляем файл в Web Worker для парсинга
       workerRef.current.postMessage({
-        type: 'parse-pptx',
+        type: 'parse',
+        id: `${Date.now()}`,
         payload: {
           fileData,
-          fileName: selectedFile.name
+          fileName: selectedFile.name,
+          imageOptions: {
+            maxDimension: importState.settings.maxImageDimension,
+            quality: importState.settings.imageQuality,
+            frameSize: getSlideDimensions(importState.settings)
+          }
         }
       })
 
@@ -408,6 +330,27 @@ const PPTXImporter: React.FC = () => {
     setImportState(prev => ({ ...prev, settings }))
   }
 
+  const handleFontSubstitutions = (substitutions: FontSubstitutions) => {
+    setFontCheck(null)
+    parent.postMessage({ pluginMessage: { type: 'font-substitutions', payload: { substitutions } } }, '*')
+  }
+
+  if (fontCheck) {
+    return (
+      <div className="pptx-importer">
+        <header>
+          <h2>Импорт PPTX</h2>
+        </header>
+        <FontSubstitutionPanel
+          missingFonts={fontCheck.missingFonts}
+          availableFamilies={fontCheck.availableFamilies}
+          onConfirm={handleFontSubstitutions}
+          onCancel={handleCancel}
+        />
+      </div>
+    )
+  }
+
   if (importState.isImporting) {
     return (
       <div className="pptx-importer">
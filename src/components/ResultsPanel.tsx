@@ -1,21 +1,30 @@
 /**
  * @file: ResultsPanel.tsx
  * @description: Компонент панели результатов импорта
- * @dependencies: React
+ * @dependencies: React, shared/types.ts
  * @created: 2024-12-19
  */
 
 import React from 'react'
+import { ImageOptimization } from '../shared/types'
 
 interface ResultsPanelProps {
   results: {
     slidesImported: number
     warnings: string[]
     errors: string[]
+    imageOptimizations?: ImageOptimization[]
   }
 }
 
+// Размер в килобайтах или мегабайтах
+const formatBytes = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`
+
 const ResultsPanel: React.FC<ResultsPanelProps> = ({ results }) => {
+  const optimizations = results.imageOptimizations || []
+  const savedBytes = optimizations.reduce((sum, optimization) => sum + optimization.savedBytes, 0)
+
   return (
     <div className="results-panel">
       <div className="results-summary">
@@ -43,6 +52,22 @@ const ResultsPanel: React.FC<ResultsPanelProps> = ({ results }) => {
         </div>
       )}
       
+      {optimizations.length > 0 && (
+        <div className="results-section">
+          <h4 className="section-title">
+            🖼️ Уменьшено изображений: {optimizations.length}, сэкономлено {formatBytes(savedBytes)}
+          </h4>
+          <ul className="warnings-list">
+            {optimizations.map(optimization => (
+              <li key={optimization.src} className="warning-item">
+                {optimization.src.split('/').pop()}: {optimization.originalWidth}×{optimization.originalHeight} → {optimization.width}×{optimization.height},
+                {' '}{formatBytes(optimization.originalBytes)} → {formatBytes(optimization.bytes)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {results.errors.length > 0 && (
         <div className="results-section">
           <h4 className="section-title error">
@@ -1,7 +1,7 @@
 /**
  * @file: parser.ts
  * @description: Core parsing functions for PPTX data (pure functions, no DOM dependencies)
- * @dependencies: types.ts
+ * @dependencies: types.ts, parser/RelationshipResolver.ts
  * @created: 2024-12-19
  */
 
@@ -14,6 +14,7 @@ import {
   PresentationInfo,
   ParseResult 
 } from '../shared/types'
+import type { PartRelationships } from '../parser/RelationshipResolver'
 
 // Core parsing functions (pure, no DOM dependencies)
 export class CoreParser {
@@ -38,7 +39,7 @@ export class CoreParser {
   }
 
   // Parse slide data from XML object
-  static parseSlide(xmlData: any, slideNumber: number): Slide {
+  static parseSlide(xmlData: any, slideNumber: number, relationships?: PartRelationships): Slide {
     const slide = xmlData['p:sld'] || xmlData.sld || {}
     const spTree = slide['p:spTree'] || slide.spTree || {}
     const shapes = spTree['p:sp'] || spTree.sp || []
@@ -49,12 +50,12 @@ export class CoreParser {
       number: slideNumber,
       elements: this.parseShapes(shapes),
       background: this.parseBackground(slide),
-      layout: this.parseLayout(slide)
+      layout: this.parseLayout(slide, relationships)
     }
   }
 
   // Parse master slide data
-  static parseMasterSlide(xmlData: any, masterNumber: number): MasterSlide {
+  static parseMasterSlide(xmlData: any, masterNumber: number, relationships?: PartRelationships): MasterSlide {
     const master = xmlData['p:sldMaster'] || xmlData.sldMaster || {}
     const spTree = master['p:spTree'] || master.spTree || {}
     const shapes = spTree['p:sp'] || spTree.sp || []
@@ -64,7 +65,7 @@ export class CoreParser {
       name: `Master ${masterNumber}`,
       number: masterNumber,
       elements: this.parseShapes(shapes),
-      layouts: this.parseLayouts(master)
+      layouts: this.parseLayouts(master, relationships)
     }
   }
 
@@ -108,7 +109,16 @@ export class CoreParser {
   }
 
   // Parse layout
-  private static parseLayout(slide: any): any {
+  private static parseLayout(slide: any, relationships?: PartRelationships): any {
+    // The slide layout is referenced from the slide's .rels part
+    const layoutRelationship = relationships?.getByType('slideLayout')[0]
+    if (layoutRelationship) {
+      return {
+        id: layoutRelationship.target,
+        name: layoutRelationship.target.split('/').pop() || 'Layout'
+      }
+    }
+
     const layout = slide['p:sldLayoutId'] || slide.sldLayoutId || {}
     
     return {
@@ -118,17 +128,20 @@ export class CoreParser {
   }
 
   // Parse layouts from master
-  private static parseLayouts(master: any): any[] {
+  private static parseLayouts(master: any, relationships?: PartRelationships): any[] {
     const layouts = master['p:sldLayoutIdLst'] || master.sldLayoutIdLst || {}
     const layoutList = layouts['p:sldLayoutId'] || layouts.sldLayoutId || []
+    const layoutArray = Array.isArray(layoutList) ? layoutList : [layoutList]
     
-    if (!Array.isArray(layoutList)) return []
-    
-    return layoutList.map((layout, index) => ({
-      id: layout['@attributes']?.id || `layout-${index}`,
-      name: layout['@attributes']?.name || `Layout ${index + 1}`,
-      number: index + 1
-    }))
+    return layoutArray.map((layout, index) => {
+      // r:id of sldLayoutId points to the layout part through the master's .rels
+      const target = relationships?.getTarget(layout['@r:id'])
+      return {
+        id: target || layout['@id'] || `layout-${index}`,
+        name: target?.split('/').pop() || `Layout ${index + 1}`,
+        number: index + 1
+      }
+    })
   }
 
   // Parse color scheme
@@ -22,6 +22,7 @@ import { XMLParser } from '../parser/xml/XMLParser';
 import { SlideParser } from '../parser/xml/SlideParser';
 import { TextParser } from '../parser/xml/TextParser';
 import { ThemeParser } from '../parser/xml/ThemeParser';
+import { PartRelationships } from '../parser/RelationshipResolver';
 
 export interface MappingContext {
   themeCache: ThemeCache;
@@ -30,6 +31,7 @@ export interface MappingContext {
   scale: number;
   slideWidth: number;
   slideHeight: number;
+  relationships?: PartRelationships; // связи слайда для разрешения r:id
 }
 
 export interface MappingResult {
@@ -60,7 +62,8 @@ export class ElementMapper {
     slideXml: string, 
     slideIndex: number, 
     slideId: string,
-    scale: number = 1.0
+    scale: number = 1.0,
+    relationships?: PartRelationships
   ): Promise<MappingResult> {
     const context: MappingContext = {
       themeCache: this.themeCache,
@@ -68,7 +71,8 @@ export class ElementMapper {
       slideId,
       scale,
       slideWidth: 1920,
-      slideHeight: 1080
+      slideHeight: 1080,
+      relationships
     };
 
     const result: MappingResult = {
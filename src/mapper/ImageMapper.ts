@@ -7,6 +7,8 @@
 
 import { ImageElement, ColorInfo } from '../models/types';
 import { ModelFactories } from '../models/factories';
+import { angleToDegrees } from '../models/transform';
+import { contentHash } from '../models/hash';
 import { MappingContext } from './ElementMapper';
 
 export interface ImageMappingOptions {
@@ -34,7 +36,7 @@ export class ImageMapper {
   ): Promise<ImageElement | null> {
     try {
       // Извлекаем данные изображения
-      const imageBytes = await this.extractImageBytes(imageData);
+      const imageBytes = await this.extractImageBytes(imageData, context);
       if (!imageBytes) {
         console.warn('Не удалось извлечь данные изображения');
         return null;
@@ -91,10 +93,10 @@ export class ImageMapper {
   /**
    * Извлечение байтов изображения
    */
-  private static async extractImageBytes(imageData: any): Promise<string | null> {
+  private static async extractImageBytes(imageData: any, context: MappingContext): Promise<string | null> {
     try {
       // Поддерживаемые форматы изображений
-      const supportedFormats = ['png', 'jpg', 'jpeg', 'gif', 'bmp', 'webp'];
+      const supportedFormats = ['png', 'jpg', 'jpeg', 'gif', 'bmp', 'webp', 'svg', 'emf', 'wmf'];
       
       if (imageData.src) {
         const format = this.getImageFormat(imageData.src);
@@ -110,7 +112,7 @@ export class ImageMapper {
 
       if (imageData.relationshipId) {
         // Извлекаем из relationships
-        return await this.extractFromRelationship(imageData.relationshipId);
+        return await this.extractFromRelationship(imageData.relationshipId, context);
       }
 
       return null;
@@ -121,56 +123,32 @@ export class ImageMapper {
   }
 
   /**
-   * Генерация хэша изображения для дедупликации
+   * Генерация хэша изображения для дедупликации.
+   * Хэшируется все содержимое: у файлов одного формата совпадают заголовки
    */
   private static async generateImageHash(imageBytes: string): Promise<string> {
-    try {
-      // Простая хэш-функция для дедупликации
-      let hash = 0;
-      const str = imageBytes.substring(0, 1000); // Берем первые 1000 символов для скорости
-      
-      for (let i = 0; i < str.length; i++) {
-        const char = str.charCodeAt(i);
-        hash = ((hash << 5) - hash) + char;
-        hash = hash & hash; // Конвертируем в 32-битное целое
-      }
-      
-      return hash.toString(36);
-    } catch (error) {
-      console.warn('Ошибка генерации хэша изображения:', error);
-      return Date.now().toString();
-    }
+    return contentHash(imageBytes);
   }
 
   /**
-   * Применение обрезки изображения
+   * Применение обрезки изображения.
+   * Значения a:srcRect (тысячные доли процента) переводятся в доли размера изображения;
+   * рамка a:xfrm уже задает размер обрезанного изображения и не меняется
    */
   private static applyCrop(image: ImageElement, cropData: any): void {
     if (!cropData) return;
 
-    const crop = {
-      left: cropData.left || 0,
-      top: cropData.top || 0,
-      right: cropData.right || 0,
-      bottom: cropData.bottom || 0
+    const toFraction = (value: number | undefined): number => {
+      const fraction = value || 0;
+      return Math.abs(fraction) > 1 ? fraction / 100000 : fraction;
     };
 
-    // Конвертируем проценты в пиксели если нужно
-    if (crop.left <= 1) crop.left *= image.width;
-    if (crop.top <= 1) crop.top *= image.height;
-    if (crop.right <= 1) crop.right *= image.width;
-    if (crop.bottom <= 1) crop.bottom *= image.height;
-
-    image.crop = crop;
-
-    // Корректируем размеры изображения
-    const cropWidth = image.width - crop.left - crop.right;
-    const cropHeight = image.height - crop.top - crop.bottom;
-    
-    if (cropWidth > 0 && cropHeight > 0) {
-      image.width = cropWidth;
-      image.height = cropHeight;
-    }
+    image.crop = {
+      left: toFraction(cropData.left),
+      top: toFraction(cropData.top),
+      right: toFraction(cropData.right),
+      bottom: toFraction(cropData.bottom)
+    };
   }
 
   /**
@@ -222,7 +200,8 @@ export class ImageMapper {
   private static getImageFormat(src: string): string {
     if (src.startsWith('data:image/')) {
       const match = src.match(/data:image\/([^;]+)/);
-      return match ? match[1] : 'unknown';
+      // image/svg+xml, image/x-emf, image/x-wmf
+      return match ? match[1].replace(/^x-/, '').replace(/\+xml$/, '') : 'unknown';
     }
 
     const extension = src.split('.').pop()?.toLowerCase();
@@ -243,14 +222,22 @@ export class ImageMapper {
   }
 
   /**
-   * Извлечение изображения из relationships
+   * Извлечение изображения из relationships: r:embed → путь медиа-части (ppt/media/...)
    */
-  private static async extractFromRelationship(relationshipId: string): Promise<string | null> {
+  private static async extractFromRelationship(relationshipId: string, context: MappingContext): Promise<string | null> {
     try {
-      // Здесь должна быть логика извлечения из relationships
-      // Пока возвращаем null
-      console.warn('Извлечение из relationships не реализовано');
-      return null;
+      const relationship = context.relationships?.get(relationshipId);
+      if (!relationship) {
+        console.warn(`Связь ${relationshipId} не найдена`);
+        return null;
+      }
+
+      if (relationship.type !== 'image' && relationship.type !== 'media') {
+        console.warn(`Связь ${relationshipId} указывает не на изображение: ${relationship.rawType}`);
+        return null;
+      }
+
+      return relationship.target;
     } catch (error) {
       console.warn('Ошибка извлечения из relationships:', error);
       return null;
@@ -261,8 +248,7 @@ export class ImageMapper {
    * Конвертация поворота
    */
   private static convertRotation(rotation: number): number {
-    // PPTX использует 60000 единиц на градус
-    return rotation / 60000;
+    return angleToDegrees(rotation);
   }
 
   /**
@@ -1,14 +1,16 @@
 /**
  * @file: ShapeMapper.ts
  * @description: Специализированный маппер для фигур и геометрических элементов PPTX
- * @dependencies: models/, ElementMapper
+ * @dependencies: models/, ElementMapper, parser/GuideEvaluator
  * @created: 2024-12-19
  */
 
 import { ShapeElement, ColorInfo } from '../models/types';
 import { ModelFactories } from '../models/factories';
+import { angleToDegrees } from '../models/transform';
 import { MappingContext } from './ElementMapper';
 import { TextMapper } from './TextMapper';
+import { GuideEvaluator, toPathData } from '../parser/GuideEvaluator';
 
 export interface ShapeMappingOptions {
   preserveText: boolean;
@@ -59,7 +61,7 @@ export class ShapeMapper {
       }
 
       // Конвертируем в векторные пути если нужно
-      if (options.convertToVector && this.shouldConvertToVector(shapeType)) {
+      if (options.convertToVector && this.shouldConvertToVector(shapeData.presetGeometry)) {
         shape.vectorPaths = this.generateVectorPaths(shape, shapeData);
       }
 
@@ -372,8 +374,7 @@ export class ShapeMapper {
    * Конвертация поворота
    */
   private static convertRotation(rotation: number): number {
-    // PPTX использует 60000 единиц на градус
-    return rotation / 60000;
+    return angleToDegrees(rotation);
   }
 
   /**
@@ -384,87 +385,29 @@ export class ShapeMapper {
   }
 
   /**
-   * Определение необходимости конвертации в вектор
+   * Определение необходимости конвертации в вектор: все предустановленные фигуры,
+   * кроме прямоугольника и эллипса, у которых есть нативные аналоги
    */
-  private static shouldConvertToVector(shapeType: string): boolean {
-    const vectorShapes = ['ARROW', 'STAR', 'CALLOUT', 'HEART', 'LIGHTNING', 'SUN', 'FLOWER', 'CLOUD'];
-    return vectorShapes.includes(shapeType);
+  private static shouldConvertToVector(presetGeometry: string | undefined): boolean {
+    return GuideEvaluator.hasPreset(presetGeometry) && presetGeometry !== 'rect' && presetGeometry !== 'ellipse';
   }
 
   /**
-   * Генерация векторных путей
+   * Генерация векторных путей по формулам предустановленной фигуры с корректировками
    */
   private static generateVectorPaths(shape: ShapeElement, shapeData: any): any[] {
-    // Базовая реализация - можно расширить для конкретных типов фигур
-    switch (shape.type) {
-      case 'ARROW':
-        return this.generateArrowPaths(shape);
-      case 'STAR':
-        return this.generateStarPaths(shape);
-      case 'HEART':
-        return this.generateHeartPaths(shape);
-      default:
-        return [];
-    }
-  }
-
-  /**
-   * Генерация путей для стрелки
-   */
-  private static generateArrowPaths(shape: ShapeElement): any[] {
-    const { width, height } = shape;
-    const arrowHeadSize = Math.min(width, height) * 0.3;
-    
-    return [{
-      type: 'PATH',
-      data: `M 0 ${height/2} L ${width-arrowHeadSize} ${height/2} L ${width-arrowHeadSize} 0 L ${width} ${height/2} L ${width-arrowHeadSize} ${height} L ${width-arrowHeadSize} ${height/2} Z`
-    }];
-  }
-
-  /**
-   * Генерация путей для звезды
-   */
-  private static generateStarPaths(shape: ShapeElement): any[] {
-    const { width, height } = shape;
-    const centerX = width / 2;
-    const centerY = height / 2;
-    const outerRadius = Math.min(width, height) / 2;
-    const innerRadius = outerRadius * 0.4;
-    const points = shape.points || 5;
-    
-    const path = [];
-    for (let i = 0; i < points * 2; i++) {
-      const angle = (i * Math.PI) / points;
-      const radius = i % 2 === 0 ? outerRadius : innerRadius;
-      const x = centerX + radius * Math.cos(angle - Math.PI / 2);
-      const y = centerY + radius * Math.sin(angle - Math.PI / 2);
-      
-      if (i === 0) {
-        path.push(`M ${x} ${y}`);
-      } else {
-        path.push(`L ${x} ${y}`);
-      }
-    }
-    path.push('Z');
-    
-    return [{
-      type: 'PATH',
-      data: path.join(' ')
-    }];
-  }
-
-  /**
-   * Генерация путей для сердца
-   */
-  private static generateHeartPaths(shape: ShapeElement): any[] {
-    const { width, height } = shape;
-    const centerX = width / 2;
-    const centerY = height / 2;
-    const size = Math.min(width, height) / 2;
-    
-    return [{
+    const { paths, warnings } = GuideEvaluator.evaluatePreset(
+      shapeData.presetGeometry,
+      shape.size,
+      shapeData.adjustValues || {}
+    );
+    warnings.forEach(warning => console.warn(warning));
+
+    return paths.map(path => ({
       type: 'PATH',
-      data: `M ${centerX} ${centerY + size * 0.3} C ${centerX - size * 0.5} ${centerY - size * 0.1} ${centerX - size * 0.5} ${centerY - size * 0.5} ${centerX} ${centerY - size * 0.5} C ${centerX + size * 0.5} ${centerY - size * 0.5} ${centerX + size * 0.5} ${centerY - size * 0.1} ${centerX} ${centerY + size * 0.3} Z`
-    }];
+      data: toPathData(path.commands),
+      fill: path.fill,
+      stroke: path.stroke
+    }));
   }
 }
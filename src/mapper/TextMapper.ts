@@ -117,12 +117,16 @@ export class TextMapper {
     if (!bulletData) return null;
 
     return {
-      type: bulletData.type || 'bullet', // 'bullet' | 'number' | 'picture'
+      type: bulletData.type || 'bullet', // 'bullet' | 'number'
       level: bulletData.level || 0,
-      character: bulletData.character || '•',
-      size: this.convertPointsToPixels(bulletData.size || 12),
-      color: this.mapColor(bulletData.color),
-      font: bulletData.font || 'Arial'
+      // Символ a:buChar или номер по схеме a:buAutoNum, уже вычисленный TextParser
+      character: bulletData.text || bulletData.character || '•',
+      scheme: bulletData.scheme,
+      number: bulletData.number,
+      sizePercent: bulletData.sizePercent,
+      size: bulletData.sizePoints ? this.convertPointsToPixels(bulletData.sizePoints) : undefined,
+      color: bulletData.color ? this.mapColor(bulletData.color) : undefined,
+      font: bulletData.fontFamily || bulletData.font
     };
   }
 
@@ -5,7 +5,24 @@
  * @created: 2024-12-19
  */
 
-import { Theme, ColorScheme, FontScheme, ColorInfo } from './types'
+import { Theme, ColorScheme, FontScheme, ColorInfo, RGBAColor, ThemeColorReference } from './types'
+
+// Модификаторы цвета DrawingML (a:tint, a:shade, a:lumMod, a:lumOff, a:alpha), доли 0-1
+export interface ColorModifiers {
+  tint?: number
+  shade?: number
+  lumMod?: number
+  lumOff?: number
+  alpha?: number
+}
+
+// Соответствие цветов слайда (clrMap по умолчанию) ключам цветовой схемы
+const SCHEME_COLOR_ALIASES: { [key: string]: string } = {
+  bg1: 'lt1',
+  tx1: 'dk1',
+  bg2: 'lt2',
+  tx2: 'dk2'
+}
 
 export interface ThemeCacheEntry {
   theme: Theme
@@ -119,6 +136,70 @@ export class ThemeCache {
     return color
   }
 
+  // Разрешение a:schemeClr в цвет модели с учетом модификаторов DrawingML
+  resolveColor(colorScheme: ColorScheme, schemeKey: string, modifiers: ColorModifiers = {}): RGBAColor {
+    const colorKey = SCHEME_COLOR_ALIASES[schemeKey] || schemeKey
+    // В DrawingML tint/shade задают долю исходного цвета, а getColor — долю осветления/затемнения
+    const tint = modifiers.tint !== undefined ? 1 - modifiers.tint : undefined
+    const shade = modifiers.shade !== undefined ? 1 - modifiers.shade : undefined
+    const rgb = this.hexToRgb(this.getColor(colorScheme, colorKey, tint, shade, 1)) || { r: 0, g: 0, b: 0 }
+
+    let color = { r: rgb.r / 255, g: rgb.g / 255, b: rgb.b / 255 }
+    if (modifiers.lumMod !== undefined || modifiers.lumOff !== undefined) {
+      color = this.applyLuminance(color, modifiers.lumMod ?? 1, modifiers.lumOff ?? 0)
+    }
+
+    const schemeAlpha = colorScheme.colors[colorKey]?.alpha ?? 1
+    return {
+      ...color,
+      a: Math.max(0, Math.min(1, (modifiers.alpha ?? 1) * schemeAlpha)),
+      themeColor: this.createReference(colorKey, modifiers)
+    }
+  }
+
+  // Ссылка на цвет схемы: сохраняются только заданные модификаторы, кроме прозрачности
+  private createReference(colorKey: string, modifiers: ColorModifiers): ThemeColorReference {
+    const reference: ThemeColorReference = { key: colorKey }
+    if (modifiers.tint !== undefined) reference.tint = modifiers.tint
+    if (modifiers.shade !== undefined) reference.shade = modifiers.shade
+    if (modifiers.lumMod !== undefined) reference.lumMod = modifiers.lumMod
+    if (modifiers.lumOff !== undefined) reference.lumOff = modifiers.lumOff
+    return reference
+  }
+
+  // Применение lumMod/lumOff в пространстве HSL
+  private applyLuminance(color: { r: number; g: number; b: number }, lumMod: number, lumOff: number): { r: number; g: number; b: number } {
+    const max = Math.max(color.r, color.g, color.b)
+    const min = Math.min(color.r, color.g, color.b)
+    const delta = max - min
+    let hue = 0
+    let saturation = 0
+    let lightness = (max + min) / 2
+
+    if (delta > 0) {
+      saturation = delta / (1 - Math.abs(2 * lightness - 1))
+      if (max === color.r) hue = ((color.g - color.b) / delta) % 6
+      else if (max === color.g) hue = (color.b - color.r) / delta + 2
+      else hue = (color.r - color.g) / delta + 4
+      hue *= 60
+      if (hue < 0) hue += 360
+    }
+
+    lightness = Math.max(0, Math.min(1, lightness * lumMod + lumOff))
+
+    const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation
+    const x = chroma * (1 - Math.abs(((hue / 60) % 2) - 1))
+    const m = lightness - chroma / 2
+    const [r, g, b] = hue < 60 ? [chroma, x, 0]
+      : hue < 120 ? [x, chroma, 0]
+      : hue < 180 ? [0, chroma, x]
+      : hue < 240 ? [0, x, chroma]
+      : hue < 300 ? [x, 0, chroma]
+      : [chroma, 0, x]
+
+    return { r: r + m, g: g + m, b: b + m }
+  }
+
   // Парсинг значения цвета
   private parseColorValue(colorInfo: ColorInfo): string {
     switch (colorInfo.type) {
@@ -22,6 +22,11 @@ import {
   ImageElement,
   GroupElement,
   LineElement,
+  TableElement,
+  TableRow,
+  TableCell,
+  ChartElement,
+  ChartSeries,
   Element,
   SlideBackground,
   Slide,
@@ -84,11 +89,11 @@ export class ModelFactories {
   static createParagraphStyle(overrides: Partial<ParagraphStyle> = {}): ParagraphStyle {
     return {
       alignment: 'left',
-      lineHeight: 1.2,
+      lineHeight: { unit: 'percent', value: 1 },
       letterSpacing: 0,
       textIndent: 0,
-      marginTop: 0,
-      marginBottom: 0,
+      marginTop: { unit: 'points', value: 0 },
+      marginBottom: { unit: 'points', value: 0 },
       marginLeft: 0,
       marginRight: 0,
       ...overrides
@@ -263,6 +268,92 @@ export class ModelFactories {
     };
   }
 
+  // Создание ячейки таблицы
+  static createTableCell(paragraphs: Paragraph[] = [], overrides: Partial<TableCell> = {}): TableCell {
+    return {
+      id: `cell-${Date.now()}-${Math.random()}`,
+      paragraphs,
+      fill: this.createFillStyle(),
+      borders: {},
+      margins: { left: 9.6, right: 9.6, top: 4.8, bottom: 4.8 }, // 91440 и 45720 EMU по умолчанию
+      verticalAlignment: 'top',
+      gridSpan: 1,
+      rowSpan: 1,
+      hMerge: false,
+      vMerge: false,
+      ...overrides
+    };
+  }
+
+  // Создание строки таблицы
+  static createTableRow(height: number, cells: TableCell[] = []): TableRow {
+    return {
+      id: `row-${Date.now()}-${Math.random()}`,
+      height,
+      cells
+    };
+  }
+
+  // Создание таблицы
+  static createTableElement(
+    position: Point,
+    size: Size,
+    columns: number[] = [],
+    rows: TableRow[] = [],
+    overrides: Partial<TableElement> = {}
+  ): TableElement {
+    return {
+      id: `table-${Date.now()}-${Math.random()}`,
+      type: 'table',
+      name: 'Table',
+      position,
+      size,
+      rotation: 0,
+      opacity: 1,
+      visible: true,
+      locked: false,
+      columns,
+      rows,
+      ...overrides
+    };
+  }
+
+  // Создание серии диаграммы
+  static createChartSeries(name: string, values: number[] = [], overrides: Partial<ChartSeries> = {}): ChartSeries {
+    return {
+      id: `series-${Date.now()}-${Math.random()}`,
+      name,
+      values,
+      ...overrides
+    };
+  }
+
+  // Создание диаграммы
+  static createChartElement(
+    position: Point,
+    size: Size,
+    chartType: ChartElement['chartType'] = 'unsupported',
+    overrides: Partial<ChartElement> = {}
+  ): ChartElement {
+    return {
+      id: `chart-${Date.now()}-${Math.random()}`,
+      type: 'chart',
+      name: 'Chart',
+      position,
+      size,
+      rotation: 0,
+      opacity: 1,
+      visible: true,
+      locked: false,
+      chartType,
+      barDirection: 'column',
+      grouping: 'clustered',
+      categories: [],
+      series: [],
+      ...overrides
+    };
+  }
+
   // Создание фона слайда
   static createSlideBackground(overrides: Partial<SlideBackground> = {}): SlideBackground {
     return {
@@ -0,0 +1,20 @@
+/**
+ * @file: hash.ts
+ * @description: Хэш содержимого медиа файлов для дедупликации изображений
+ * @dependencies: нет
+ * @created: 2026-10-18
+ */
+
+// Параметры 32-битного FNV-1a
+const FNV_OFFSET_BASIS = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+
+// Хэш всего содержимого (байты файла или строка base64); длина в ключе снижает вероятность коллизий
+export function contentHash(data: Uint8Array | string): string {
+  let hash = FNV_OFFSET_BASIS;
+  for (let i = 0; i < data.length; i++) {
+    hash ^= typeof data === 'string' ? data.charCodeAt(i) : data[i];
+    hash = Math.imul(hash, FNV_PRIME);
+  }
+  return `${(hash >>> 0).toString(36)}-${data.length.toString(36)}`;
+}
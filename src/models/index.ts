@@ -1,7 +1,7 @@
 /**
  * @file: index.ts
  * @description: Главный файл экспорта доменных моделей
- * @dependencies: types.ts, factories.ts, utils.ts
+ * @dependencies: types.ts, factories.ts, utils.ts, transform.ts, hash.ts
  * @created: 2024-12-19
  */
 
@@ -14,6 +14,12 @@ export { ModelFactories } from './factories';
 // Экспорт утилит
 export { ModelUtils } from './utils';
 
+// Экспорт преобразований a:xfrm
+export * from './transform';
+
+// Экспорт хэша содержимого медиа файлов
+export * from './hash';
+
 // Экспорт констант для удобства
 export const EMU_CONSTANTS = {
   EMU_PER_INCH: 914400,
@@ -0,0 +1,77 @@
+/**
+ * @file: transform.ts
+ * @description: Общая модель преобразования a:xfrm (смещение, размер, поворот, отражения) и ее перевод в relativeTransform Figma
+ * @dependencies: types.ts
+ * @created: 2026-10-18
+ */
+
+import { Point } from './types';
+
+// Углы a:xfrm/@rot задаются в 60000-х долях градуса
+export const ANGLE_UNITS_PER_DEGREE = 60000;
+
+// Матрица 2×3 в формате relativeTransform Figma: [[a, b, tx], [c, d, ty]]
+export type AffineTransform = [[number, number, number], [number, number, number]];
+
+// Рамка элемента до поворота и отражений
+export interface TransformFrame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Поворот и отражения элемента
+export interface Orientation {
+  rotation: number; // в градусах по часовой стрелке
+  flipH: boolean;
+  flipV: boolean;
+}
+
+// Угол DrawingML в градусах в диапазоне [0, 360)
+export function angleToDegrees(angle: number): number {
+  return normalizeDegrees(angle / ANGLE_UNITS_PER_DEGREE);
+}
+
+export function normalizeDegrees(degrees: number): number {
+  const normalized = degrees % 360;
+  return normalized < 0 ? normalized + 360 : normalized;
+}
+
+// Поворот точки вокруг центра по часовой стрелке (ось y направлена вниз)
+export function rotatePoint(point: Point, center: Point, rotation: number): Point {
+  if (!rotation) return point;
+
+  const radians = (rotation * Math.PI) / 180;
+  const dx = point.x - center.x;
+  const dy = point.y - center.y;
+  return {
+    x: center.x + dx * Math.cos(radians) - dy * Math.sin(radians),
+    y: center.y + dx * Math.sin(radians) + dy * Math.cos(radians)
+  };
+}
+
+/**
+ * PowerPoint отражает элемент внутри рамки и поворачивает вокруг ее центра,
+ * а Figma задает положение узла матрицей относительно левого верхнего угла.
+ * Матрица переводит локальные координаты узла (0..width, 0..height) в координаты родителя.
+ */
+export function buildRelativeTransform(frame: TransformFrame, orientation: Orientation): AffineTransform {
+  const radians = (orientation.rotation * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const scaleX = orientation.flipH ? -1 : 1;
+  const scaleY = orientation.flipV ? -1 : 1;
+
+  const a = cos * scaleX;
+  const b = -sin * scaleY;
+  const c = sin * scaleX;
+  const d = cos * scaleY;
+  const centerX = frame.x + frame.width / 2;
+  const centerY = frame.y + frame.height / 2;
+
+  return [
+    [a, b, centerX - (a * frame.width) / 2 - (b * frame.height) / 2],
+    [c, d, centerY - (c * frame.width) / 2 - (d * frame.height) / 2]
+  ];
+}
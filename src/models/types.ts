@@ -28,6 +28,16 @@ export interface RGBColor {
   r: number; // 0-1
   g: number; // 0-1
   b: number; // 0-1
+  themeColor?: ThemeColorReference; // цвет задан через a:schemeClr
+}
+
+// Ссылка на цвет цветовой схемы темы с модификаторами DrawingML (доли 0-1)
+export interface ThemeColorReference {
+  key: string; // dk1, lt1, dk2, lt2, accent1-6, hlink, folHlink
+  tint?: number;
+  shade?: number;
+  lumMod?: number;
+  lumOff?: number;
 }
 
 export interface RGBAColor extends RGBColor {
@@ -49,21 +59,77 @@ export interface TextStyle {
 
 export interface ParagraphStyle {
   alignment: 'left' | 'center' | 'right' | 'justify';
-  lineHeight: number;
+  lineHeight: TextSpacing; // a:lnSpc
   letterSpacing: number;
-  textIndent: number;
-  marginTop: number;
-  marginBottom: number;
-  marginLeft: number;
+  textIndent: number; // a:pPr/@indent: сдвиг первой строки от marginLeft, отрицательный — выступ
+  marginTop: TextSpacing; // a:spcBef
+  marginBottom: TextSpacing; // a:spcAft
+  marginLeft: number; // a:pPr/@marL
   marginRight: number;
 }
 
+// Интервал в единицах PowerPoint: доля одинарного интервала или размера шрифта (a:spcPct, 1 — 100%) или пункты (a:spcPts)
+export interface TextSpacing {
+  unit: 'percent' | 'points';
+  value: number;
+}
+
+export type GradientType = 'linear' | 'radial' | 'rectangular' | 'path';
+
 export interface FillStyle {
   type: 'none' | 'solid' | 'gradient' | 'image';
   color?: Color;
   opacity?: number;
   gradientStops?: GradientStop[];
+  gradientType?: GradientType;
+  gradientAngle?: number; // в градусах по часовой стрелке, 0 — слева направо
+  gradientCenter?: Point; // центр радиальных градиентов, доли 0-1 от размера элемента
   imageUrl?: string;
+  imagePlacement?: ImagePlacement;
+  imageAdjustments?: ImageAdjustments;
+}
+
+// Размещение изображения заливки a:blipFill: обрезка a:srcRect, растяжение a:stretch или мозаика a:tile
+export interface ImagePlacement {
+  crop?: ImageInsets; // a:srcRect: часть изображения, которая попадает в рамку
+  fillRect?: ImageInsets; // a:stretch/a:fillRect: область рамки, в которую растягивается изображение
+  tile?: ImageTile; // a:tile; без него изображение растягивается
+}
+
+// Отступы от краев в долях размера (0.25 — 25%), отрицательные расширяют область
+export interface ImageInsets {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+export interface ImageTile {
+  offsetX: number; // a:tile/@tx в пикселях
+  offsetY: number; // a:tile/@ty в пикселях
+  scaleX: number; // a:tile/@sx, 1 — 100%
+  scaleY: number; // a:tile/@sy, 1 — 100%
+  flip: 'none' | 'x' | 'y' | 'xy';
+  alignment: string; // a:tile/@algn: tl, t, tr, l, ctr, r, bl, b, br
+}
+
+// Коррекция изображения эффектами a:blip. Яркость, контраст, насыщенность и прозрачность
+// переносятся в фильтры Figma, остальные эффекты запекаются в растр при парсинге
+export interface ImageAdjustments {
+  brightness?: number; // -100 to 100, a:lum/@bright
+  contrast?: number; // -100 to 100, a:lum/@contrast
+  saturation?: number; // -100 to 100, a:hsl/@sat
+  alpha?: number; // 0-1, a:alphaModFix/@amt
+  grayscale?: boolean; // a:grayscl
+  duotone?: [Color, Color]; // a:duotone: темные тона — первый цвет, светлые — второй
+  colorChange?: ImageColorChange; // a:clrChange
+  biLevelThreshold?: number; // 0-1, a:biLevel/@thresh
+}
+
+// Замена цвета a:clrChange: обычно a:clrTo с a:alpha делает цвет прозрачным
+export interface ImageColorChange {
+  from: Color;
+  to: Color;
 }
 
 export interface StrokeStyle {
@@ -73,6 +139,19 @@ export interface StrokeStyle {
   opacity: number;
   cap: 'round' | 'square' | 'butt';
   join: 'round' | 'miter' | 'bevel';
+  dashPattern?: number[]; // штрихи и пробелы в долях толщины линии (a:prstDash, a:custDash)
+  headEnd?: LineEnd; // окончание в начале линии (a:headEnd)
+  tailEnd?: LineEnd; // окончание в конце линии (a:tailEnd)
+}
+
+// Окончание линии: тип наконечника и его размер относительно толщины линии
+export type LineEndType = 'none' | 'triangle' | 'stealth' | 'diamond' | 'oval' | 'arrow';
+export type LineEndSize = 'sm' | 'med' | 'lg';
+
+export interface LineEnd {
+  type: LineEndType;
+  width: LineEndSize;
+  length: LineEndSize;
 }
 
 export interface GradientStop {
@@ -97,6 +176,30 @@ export interface GlowEffect {
   opacity: number;
 }
 
+// Типы плейсхолдеров (p:ph) макетов и мастер-слайдов
+export type PlaceholderType =
+  | 'title'
+  | 'ctrTitle'
+  | 'subTitle'
+  | 'body'
+  | 'obj'
+  | 'dt'
+  | 'ftr'
+  | 'sldNum'
+  | 'hdr'
+  | 'pic'
+  | 'chart'
+  | 'tbl'
+  | 'dgm'
+  | 'media'
+  | 'clipArt'
+  | 'sldImg';
+
+export interface PlaceholderInfo {
+  type: PlaceholderType;
+  index?: number; // p:ph@idx, по нему слайд находит плейсхолдер макета
+}
+
 // Базовый интерфейс для всех элементов
 export interface BaseElement {
   id: string;
@@ -105,9 +208,12 @@ export interface BaseElement {
   position: Point;
   size: Size;
   rotation: number; // в градусах
+  flipH?: boolean; // отражение внутри рамки до поворота (a:xfrm/@flipH)
+  flipV?: boolean;
   opacity: number; // 0-1
   visible: boolean;
   locked: boolean;
+  placeholder?: PlaceholderInfo; // элемент заполняет плейсхолдер макета
 }
 
 // Типы для гиперссылок
@@ -125,6 +231,19 @@ export interface TextRun {
   startIndex: number;
   endIndex: number;
   hyperlink?: Hyperlink;
+  masterStyleId?: string; // стиль текста мастера, от которого унаследованы свойства run
+}
+
+// Категория стилей текста мастер-слайда (p:titleStyle, p:bodyStyle, p:otherStyle)
+export type MasterTextStyleCategory = 'title' | 'body' | 'other';
+
+// Стиль текста мастер-слайда для одного уровня абзаца
+export interface MasterTextStyle {
+  id: string; // путь части мастер-слайда и имя стиля
+  name: string; // Title, Body L1-L9, Other L1-L9
+  category: MasterTextStyleCategory;
+  level: number; // 0-8
+  style: TextStyle;
 }
 
 export interface Paragraph {
@@ -134,6 +253,20 @@ export interface Paragraph {
   bulletType?: 'none' | 'bullet' | 'number';
   bulletLevel?: number;
   bulletText?: string;
+  bullet?: ParagraphBullet;
+}
+
+// Маркер абзаца (a:buChar, a:buAutoNum) с разрешенным наследованием a:buFont, a:buClr и a:buSz* по уровням
+export interface ParagraphBullet {
+  type: 'bullet' | 'number';
+  text: string; // символ маркера или номер по схеме: «•», «1.», «iv)»
+  scheme?: string; // схема a:buAutoNum: arabicPeriod, romanUcParenR, alphaLcPeriod, ...
+  startAt?: number; // a:buAutoNum/@startAt
+  number?: number; // номер абзаца с учетом предыдущих абзацев того же уровня
+  fontFamily?: string; // a:buFont; без него — шрифт текста абзаца
+  color?: Color; // a:buClr; без него — цвет текста
+  sizePercent?: number; // a:buSzPct, 1 — размер текста
+  sizePoints?: number; // a:buSzPts
 }
 
 export interface TextElement extends BaseElement {
@@ -142,8 +275,30 @@ export interface TextElement extends BaseElement {
   autoFit: boolean;
   wordWrap: boolean;
   verticalAlignment: 'top' | 'middle' | 'bottom';
+  insets?: TextInsets; // поля a:bodyPr (lIns, tIns, rIns, bIns)
+  autoFitType?: TextAutoFitType;
+  fontScale?: number; // a:normAutofit/@fontScale, 1 — без уменьшения
+  lineSpacingReduction?: number; // a:normAutofit/@lnSpcReduction, доля межстрочного интервала
+  textDirection?: TextDirection; // a:bodyPr/@vert
+  textRotation?: number; // a:bodyPr/@rot в градусах, поворот текста внутри фигуры
+  columns?: number; // a:bodyPr/@numCol
+  columnSpacing?: number; // a:bodyPr/@spcCol
+}
+
+// Поля между рамкой фигуры и текстом в пикселях
+export interface TextInsets {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
 }
 
+// a:noAutofit — текст выходит за рамку, a:normAutofit — текст уменьшается, a:spAutoFit — рамка подстраивается под текст
+export type TextAutoFitType = 'none' | 'normal' | 'shape';
+
+// Направление текста: vert и eaVert — поворот на 90°, vert270 — на 270°, wordArtVert — буквы столбиком
+export type TextDirection = 'horizontal' | 'vertical' | 'vertical270' | 'stacked';
+
 // Типы для фигур
 export type ShapeType = 
   | 'rectangle' 
@@ -162,17 +317,25 @@ export interface ShapeElement extends BaseElement {
   stroke: StrokeStyle;
   cornerRadius?: number; // для прямоугольников
   points?: Point[]; // для полигонов и свободных форм
+  paths?: ShapePath[]; // контуры пользовательской геометрии (a:custGeom)
+  text?: TextElement; // текст фигуры (p:txBody) поверх геометрии, в той же рамке
+}
+
+// Контур пользовательской геометрии: данные SVG (M/L/C/Q/Z) в пикселях относительно левого верхнего угла фигуры
+export interface ShapePath {
+  data: string;
+  fill: boolean;
+  stroke: boolean;
 }
 
 // Типы для изображений
-export interface ImageElement extends BaseElement {
+export interface ImageElement extends BaseElement, ImagePlacement, ImageAdjustments {
   type: 'image';
   src: string;
+  svgSrc?: string; // SVG из расширения asvg:svgBlip, src остается запасным растровым изображением
   altText?: string;
-  crop?: Rectangle;
-  brightness?: number; // -100 to 100
-  contrast?: number; // -100 to 100
-  saturation?: number; // -100 to 100
+  shapeType?: ShapeType; // геометрия p:spPr, по которой обрезается изображение; без нее — прямоугольник
+  paths?: ShapePath[]; // контуры предустановленной или пользовательской геометрии
 }
 
 // Типы для групп
@@ -191,17 +354,105 @@ export interface LineElement extends BaseElement {
   arrowStart?: boolean;
   arrowEnd?: boolean;
   arrowSize?: number;
+  path?: string; // контур ломаной или изогнутой соединительной линии (SVG) в пикселях относительно position
+  startConnection?: ConnectionSite; // фигура, к которой присоединено начало (a:stCxn)
+  endConnection?: ConnectionSite; // фигура, к которой присоединен конец (a:endCxn)
+}
+
+// Точка соединения фигуры: id фигуры на слайде (cNvPr/@id) и номер точки из a:cxnLst
+export interface ConnectionSite {
+  shapeId: string;
+  index: number;
+}
+
+// Типы для таблиц
+export interface TableCellBorders {
+  left?: StrokeStyle;
+  right?: StrokeStyle;
+  top?: StrokeStyle;
+  bottom?: StrokeStyle;
+}
+
+export interface TableCellMargins {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+export interface TableCell {
+  id: string;
+  paragraphs: Paragraph[];
+  fill: FillStyle;
+  borders: TableCellBorders;
+  margins: TableCellMargins;
+  verticalAlignment: 'top' | 'middle' | 'bottom';
+  gridSpan: number; // количество объединенных колонок
+  rowSpan: number; // количество объединенных строк
+  hMerge: boolean; // ячейка поглощена объединением слева
+  vMerge: boolean; // ячейка поглощена объединением сверху
+}
+
+export interface TableRow {
+  id: string;
+  height: number;
+  cells: TableCell[];
+}
+
+export interface TableElement extends BaseElement {
+  type: 'table';
+  columns: number[]; // ширины колонок сетки
+  rows: TableRow[];
+  styleId?: string;
+}
+
+// Типы для диаграмм
+export type ChartType =
+  | 'bar'
+  | 'line'
+  | 'area'
+  | 'pie'
+  | 'doughnut'
+  | 'scatter'
+  | 'unsupported';
+
+export interface ChartSeries {
+  id: string;
+  name: string;
+  values: number[];
+  color?: Color;
+}
+
+export interface ChartLegend {
+  position: 'top' | 'bottom' | 'left' | 'right';
+}
+
+export interface ChartElement extends BaseElement {
+  type: 'chart';
+  chartType: ChartType;
+  barDirection: 'column' | 'bar'; // вертикальные или горизонтальные столбцы
+  grouping: 'clustered' | 'stacked' | 'percentStacked' | 'standard';
+  title?: string;
+  categories: string[];
+  series: ChartSeries[];
+  legend?: ChartLegend;
+  fallbackImageSrc?: string; // кэшированное изображение для неподдерживаемых типов
 }
 
 // Объединенный тип для всех элементов
-export type Element = TextElement | ShapeElement | ImageElement | GroupElement | LineElement;
+export type Element = TextElement | ShapeElement | ImageElement | GroupElement | LineElement | TableElement | ChartElement;
 
 // Типы для слайдов
 export interface SlideBackground {
   type: 'none' | 'solid' | 'gradient' | 'image';
   color?: Color;
   gradientStops?: GradientStop[];
+  gradientType?: GradientType;
+  gradientAngle?: number;
+  gradientCenter?: Point;
   imageUrl?: string;
+  imagePlacement?: ImagePlacement;
+  imageAdjustments?: ImageAdjustments;
   opacity: number;
 }
 
@@ -214,6 +465,7 @@ export interface Slide {
   size: Size;
   masterSlideId?: string;
   layoutId?: string;
+  showMasterShapes?: boolean; // p:sld@showMasterSp: показывать декоративные элементы макета и мастера
 }
 
 // Типы для мастер-слайдов
@@ -224,6 +476,7 @@ export interface MasterSlide {
   elements: Element[];
   background: SlideBackground;
   layouts: SlideLayout[];
+  textStyles?: MasterTextStyle[];
 }
 
 export interface SlideLayout {
@@ -233,6 +486,8 @@ export interface SlideLayout {
   elements: Element[];
   background: SlideBackground;
   size: Size;
+  masterSlideId?: string;
+  showMasterShapes?: boolean; // p:sldLayout@showMasterSp: показывать элементы мастера
 }
 
 // Типы для цветовой информации
@@ -306,6 +561,7 @@ export interface MediaFile {
   size: number;
   mimeType: string;
   data?: ArrayBuffer;
+  svg?: string; // SVG-файл или метафайл EMF/WMF, преобразованный в SVG
 }
 
 // Типы для презентации
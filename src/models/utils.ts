@@ -16,6 +16,8 @@ import {
   ImageElement,
   GroupElement,
   LineElement,
+  TableElement,
+  ChartElement,
   Slide,
   Presentation
 } from './types';
@@ -100,6 +102,16 @@ export class ModelUtils {
     return element.type === 'line';
   }
 
+  // Проверка, является ли элемент таблицей
+  static isTableElement(element: Element): element is TableElement {
+    return element.type === 'table';
+  }
+
+  // Проверка, является ли элемент диаграммой
+  static isChartElement(element: Element): element is ChartElement {
+    return element.type === 'chart';
+  }
+
   // Получение всех элементов из слайда (включая вложенные)
   static getAllElements(slide: Slide): Element[] {
     const elements: Element[] = [];
@@ -0,0 +1,133 @@
+/**
+ * @file: GroupTransform.ts
+ * @description: Перевод дочерних элементов группы (p:grpSp) из системы координат группы (a:chOff, a:chExt) в координаты слайда
+ * @dependencies: models
+ * @created: 2026-10-18
+ */
+
+import { Element, Point, Size, normalizeDegrees, rotatePoint } from '../models'
+
+// Преобразование a:xfrm группы: рамка на родителе, система координат детей, поворот (в градусах) и отражения
+export interface GroupTransform {
+  offset: Point
+  extent: Size
+  childOffset: Point
+  childExtent: Size
+  rotation: number
+  flipH: boolean
+  flipV: boolean
+}
+
+// Пара чисел «x y» в данных контура SVG (M/L/C/Q/Z)
+const PATH_POINT = /(-?\d*\.?\d+(?:e[-+]?\d+)?)\s+(-?\d*\.?\d+(?:e[-+]?\d+)?)/gi
+
+export class GroupTransformer {
+  private transform: GroupTransform
+  private scaleX: number
+  private scaleY: number
+
+  constructor(transform: GroupTransform) {
+    this.transform = transform
+    // Пустая система координат детей (a:chExt = 0) не масштабируется
+    this.scaleX = transform.childExtent.width ? transform.extent.width / transform.childExtent.width : 1
+    this.scaleY = transform.childExtent.height ? transform.extent.height / transform.childExtent.height : 1
+  }
+
+  // Перевод элемента и всех его потомков: вложенные группы уже переведены в систему координат этой группы
+  apply(element: Element): void {
+    if (element.type === 'line') {
+      this.applyToLine(element)
+    } else {
+      this.applyToFrame(element)
+    }
+
+    switch (element.type) {
+      case 'shape':
+        if (element.paths) {
+          element.paths = element.paths.map(path => ({ ...path, data: this.scalePathData(path.data) }))
+        }
+        if (element.text) {
+          this.apply(element.text)
+        }
+        break
+      case 'image':
+        // Контур маски изображения масштабируется вместе с рамкой
+        if (element.paths) {
+          element.paths = element.paths.map(path => ({ ...path, data: this.scalePathData(path.data) }))
+        }
+        break
+      case 'table':
+        element.columns = element.columns.map(width => width * this.scaleX)
+        element.rows.forEach(row => { row.height *= this.scaleY })
+        break
+      case 'group':
+        element.children.forEach(child => this.apply(child))
+        break
+    }
+  }
+
+  // Точка системы координат детей в координатах родителя: масштаб, отражение в рамке группы, поворот вокруг ее центра
+  mapPoint(point: Point): Point {
+    const { offset, extent, childOffset, rotation, flipH, flipV } = this.transform
+    let x = offset.x + (point.x - childOffset.x) * this.scaleX
+    let y = offset.y + (point.y - childOffset.y) * this.scaleY
+
+    if (flipH) x = 2 * offset.x + extent.width - x
+    if (flipV) y = 2 * offset.y + extent.height - y
+
+    return rotatePoint({ x, y }, { x: offset.x + extent.width / 2, y: offset.y + extent.height / 2 }, rotation)
+  }
+
+  // Рамка элемента: центр переводится как точка, размер масштабируется, поворот складывается с поворотом группы.
+  // Отражение группы отражает и сам элемент, меняя направление его собственного поворота
+  private applyToFrame(element: Element): void {
+    const { rotation, flipH, flipV } = this.transform
+    const size = { width: element.size.width * this.scaleX, height: element.size.height * this.scaleY }
+    const center = this.mapPoint({
+      x: element.position.x + element.size.width / 2,
+      y: element.position.y + element.size.height / 2
+    })
+
+    element.position = { x: center.x - size.width / 2, y: center.y - size.height / 2 }
+    element.size = size
+    element.rotation = normalizeDegrees((flipH !== flipV ? -element.rotation : element.rotation) + rotation)
+    element.flipH = !!element.flipH !== flipH
+    element.flipV = !!element.flipV !== flipV
+  }
+
+  // Линия переводится по точкам; контур соединительной линии остается относительно новой левой верхней точки
+  private applyToLine(element: Extract<Element, { type: 'line' }>): void {
+    const origin = element.position
+    const points: Point[] = []
+    let path = element.path
+    if (path) {
+      path = path.replace(PATH_POINT, (_match, x: string, y: string) => {
+        const point = this.mapPoint({ x: origin.x + Number(x), y: origin.y + Number(y) })
+        points.push(point)
+        return `${point.x} ${point.y}`
+      })
+    }
+
+    element.startPoint = this.mapPoint(element.startPoint)
+    element.endPoint = this.mapPoint(element.endPoint)
+    points.push(element.startPoint, element.endPoint)
+
+    const minX = Math.min(...points.map(point => point.x))
+    const minY = Math.min(...points.map(point => point.y))
+    element.position = { x: minX, y: minY }
+    element.size = {
+      width: Math.max(...points.map(point => point.x)) - minX,
+      height: Math.max(...points.map(point => point.y)) - minY
+    }
+    if (path) {
+      const round = (value: number) => Math.round(value * 1000) / 1000
+      element.path = path.replace(PATH_POINT, (_match, x: string, y: string) => `${round(Number(x) - minX)} ${round(Number(y) - minY)}`)
+    }
+  }
+
+  // Контур фигуры в новой рамке: отражение и поворот группы переносятся на саму фигуру
+  private scalePathData(data: string): string {
+    const round = (value: number) => Math.round(value * 1000) / 1000
+    return data.replace(PATH_POINT, (_match, x: string, y: string) => `${round(Number(x) * this.scaleX)} ${round(Number(y) * this.scaleY)}`)
+  }
+}
@@ -0,0 +1,272 @@
+/**
+ * @file: GuideEvaluator.ts
+ * @description: Вычисление направляющих геометрии DrawingML (a:avLst, a:gdLst) для размера фигуры и построение команд контуров
+ * @dependencies: xml/presetShapeDefinitions, models
+ * @created: 2026-10-18
+ */
+
+import { PRESET_SHAPE_DEFINITIONS, PresetPathDefinition, PresetShapeDefinition } from './xml/presetShapeDefinitions'
+import { EMU_CONSTANTS, Point, Size } from '../models'
+
+export type Guides = { [name: string]: number }
+
+// Команда контура в пикселях относительно левого верхнего угла фигуры; дуги уже переведены в кубические кривые
+export type PathCommand =
+  | { type: 'M' | 'L'; points: [Point] }
+  | { type: 'C'; points: [Point, Point, Point] }
+  | { type: 'Q'; points: [Point, Point] }
+  | { type: 'Z'; points: [] }
+
+export interface EvaluatedPath {
+  commands: PathCommand[]
+  fill: boolean // fill="none" отключает заливку; lighten/darken заливаются как norm
+  stroke: boolean
+}
+
+// Углы DrawingML задаются в 60000-х долях градуса
+const ANGLE_TO_RADIANS = Math.PI / 180 / 60000
+
+// Данные SVG (M/L/C/Q/Z) для команд контура
+export function toPathData(commands: PathCommand[]): string {
+  const round = (value: number) => Math.round(value * 1000) / 1000
+  return commands
+    .map(command => [command.type, ...command.points.map(point => `${round(point.x)} ${round(point.y)}`)].join(' '))
+    .join(' ')
+}
+
+// Отражение команд контура внутри рамки фигуры (flipH / flipV в a:xfrm)
+export function flipCommands(commands: PathCommand[], size: Size, flipH: boolean, flipV: boolean): PathCommand[] {
+  if (!flipH && !flipV) return commands
+
+  const flip = (point: Point): Point => ({
+    x: flipH ? size.width - point.x : point.x,
+    y: flipV ? size.height - point.y : point.y
+  })
+  return commands.map(command => ({ ...command, points: command.points.map(flip) }) as PathCommand)
+}
+
+export class GuideEvaluator {
+  private size: Size
+  private guides: Guides
+  private warnings: string[] = []
+
+  // size — размер фигуры в пикселях; встроенные направляющие считаются в EMU, как в presetShapeDefinitions.xml
+  constructor(size: Size) {
+    this.size = size
+    this.guides = GuideEvaluator.createBuiltInGuides(size.width * EMU_CONSTANTS.EMU_PER_PIXEL, size.height * EMU_CONSTANTS.EMU_PER_PIXEL)
+  }
+
+  static hasPreset(prst: string | undefined): boolean {
+    return !!prst && PRESET_SHAPE_DEFINITIONS.hasOwnProperty(prst)
+  }
+
+  // Контуры предустановленной фигуры; adjustments — значения a:avLst фигуры поверх значений по умолчанию
+  static evaluatePreset(prst: string, size: Size, adjustments: Guides = {}): { paths: EvaluatedPath[]; warnings: string[] } {
+    const evaluator = new GuideEvaluator(size)
+    if (!GuideEvaluator.hasPreset(prst)) {
+      return { paths: [], warnings: [`Неизвестная предустановленная фигура: ${prst}`] }
+    }
+
+    const paths = evaluator.evaluateDefinition(PRESET_SHAPE_DEFINITIONS[prst], adjustments)
+    return { paths, warnings: evaluator.getWarnings() }
+  }
+
+  // Встроенные направляющие ECMA-376 (20.1.9.11): границы, центр, доли сторон и углы
+  private static createBuiltInGuides(w: number, h: number): Guides {
+    const ss = Math.min(w, h)
+    const guides: Guides = {
+      l: 0, t: 0, r: w, b: h, w, h,
+      hc: w / 2, vc: h / 2, ss, ls: Math.max(w, h),
+      cd2: 10800000, cd4: 5400000, cd8: 2700000,
+      '3cd4': 16200000, '3cd8': 8100000, '5cd8': 13500000, '7cd8': 18900000
+    }
+    for (const divisor of [2, 3, 4, 5, 6, 8, 10, 12, 16, 32]) {
+      guides[`wd${divisor}`] = w / divisor
+      guides[`hd${divisor}`] = h / divisor
+      guides[`ssd${divisor}`] = ss / divisor
+    }
+    return guides
+  }
+
+  getWarnings(): string[] {
+    return this.warnings
+  }
+
+  // Текущие значения направляющих
+  getGuides(): Guides {
+    return { ...this.guides }
+  }
+
+  // Корректировки, направляющие и контуры определения фигуры
+  evaluateDefinition(definition: PresetShapeDefinition, adjustments: Guides = {}): EvaluatedPath[] {
+    const defaults = definition.avLst || {}
+    for (const name of Object.keys(defaults)) {
+      this.guides[name] = adjustments.hasOwnProperty(name) ? adjustments[name] : defaults[name]
+    }
+    this.evaluateGuides(definition.gdLst || [])
+
+    return definition.pathLst
+      .map(path => this.evaluatePath(path))
+      .filter((path: EvaluatedPath | null): path is EvaluatedPath => path !== null)
+  }
+
+  // Список направляющих по порядку: каждая формула может ссылаться на предыдущие
+  evaluateGuides(gdLst: Array<[string, string]>): Guides {
+    for (const [name, formula] of gdLst) {
+      this.guides[name] = this.evaluateFormula(formula)
+    }
+    return this.getGuides()
+  }
+
+  // Формула направляющей: оператор и до трех аргументов (ECMA-376, 20.1.10.28 ST_GeomGuideFormula)
+  evaluateFormula(formula: string): number {
+    const [operator, ...args] = formula.trim().split(/\s+/)
+    const [x, y, z] = args.map(arg => this.getValue(arg))
+
+    switch (operator) {
+      case '*/': return z === 0 ? 0 : (x * y) / z
+      case '+-': return x + y - z
+      case '+/': return z === 0 ? 0 : (x + y) / z
+      case '?:': return x > 0 ? y : z
+      case 'abs': return Math.abs(x)
+      case 'at2': return Math.atan2(y, x) / ANGLE_TO_RADIANS
+      case 'cat2': return x * Math.cos(Math.atan2(z, y))
+      case 'cos': return x * Math.cos(y * ANGLE_TO_RADIANS)
+      case 'max': return Math.max(x, y)
+      case 'min': return Math.min(x, y)
+      case 'mod': return Math.sqrt(x * x + y * y + z * z)
+      case 'pin': return y < x ? x : y > z ? z : y
+      case 'sat2': return x * Math.sin(Math.atan2(z, y))
+      case 'sin': return x * Math.sin(y * ANGLE_TO_RADIANS)
+      case 'sqrt': return Math.sqrt(Math.max(0, x))
+      case 'tan': return x * Math.tan(y * ANGLE_TO_RADIANS)
+      case 'val': return x
+      default:
+        this.warnings.push(`Неизвестная формула направляющей: ${formula}`)
+        return 0
+    }
+  }
+
+  // Значение — число или имя направляющей
+  getValue(value: string | undefined): number {
+    if (value === undefined || value === '') return 0
+
+    const number = Number(value)
+    if (!isNaN(number)) return number
+
+    if (this.guides.hasOwnProperty(value)) return this.guides[value]
+
+    this.warnings.push(`Неизвестная направляющая геометрии: ${value}`)
+    return 0
+  }
+
+  // Команды контура в собственной системе координат w × h, масштабированной до размера фигуры.
+  // Без w/h координаты контура заданы в EMU фигуры
+  evaluatePath(path: PresetPathDefinition): EvaluatedPath | null {
+    const scaleX = path.w ? this.size.width / path.w : 1 / EMU_CONSTANTS.EMU_PER_PIXEL
+    const scaleY = path.h ? this.size.height / path.h : 1 / EMU_CONSTANTS.EMU_PER_PIXEL
+    const scale = (point: Point): Point => ({ x: point.x * scaleX, y: point.y * scaleY })
+
+    const commands: PathCommand[] = []
+    let current: Point = { x: 0, y: 0 }
+    let start: Point = { x: 0, y: 0 }
+
+    for (const command of path.commands) {
+      const [type, ...args] = command.split(' ')
+      const values = args.map(arg => this.getValue(arg))
+      const points: Point[] = []
+      for (let i = 0; i + 1 < values.length; i += 2) {
+        points.push({ x: values[i], y: values[i + 1] })
+      }
+
+      switch (type) {
+        case 'M':
+        case 'L':
+          if (points[0]) {
+            current = points[0]
+            if (type === 'M') start = current
+            commands.push({ type, points: [scale(current)] })
+          }
+          break
+        case 'C':
+          if (points.length >= 3) {
+            current = points[2]
+            commands.push({ type: 'C', points: [scale(points[0]), scale(points[1]), scale(points[2])] })
+          }
+          break
+        case 'Q':
+          if (points.length >= 2) {
+            current = points[1]
+            commands.push({ type: 'Q', points: [scale(points[0]), scale(points[1])] })
+          }
+          break
+        case 'A': {
+          const [radiusX, radiusY, startAngle, sweepAngle] = values
+          const curves = this.arcToCurves(current, radiusX, radiusY, startAngle * ANGLE_TO_RADIANS, sweepAngle * ANGLE_TO_RADIANS)
+          for (const curve of curves) {
+            commands.push({ type: 'C', points: [scale(curve[0]), scale(curve[1]), scale(curve[2])] })
+          }
+          if (curves.length > 0) {
+            current = curves[curves.length - 1][2]
+          }
+          break
+        }
+        case 'Z':
+          commands.push({ type: 'Z', points: [] })
+          current = start
+          break
+      }
+    }
+
+    if (commands.length === 0 || commands[0].type !== 'M') {
+      this.warnings.push('Контур a:path без начальной точки a:moveTo пропущен')
+      return null
+    }
+
+    return { commands, fill: path.fill !== 'none', stroke: path.stroke !== false }
+  }
+
+  // Дуга arcTo от текущей точки: эллипс radiusX × radiusY, начальный угол и угол поворота в радианах.
+  // Возвращает кубические кривые (не более 90° каждая) в координатах контура
+  private arcToCurves(current: Point, radiusX: number, radiusY: number, visualStart: number, visualSweep: number): Point[][] {
+    if (visualSweep === 0) return []
+
+    // Углы arcTo видимые, для точек эллипса нужен параметрический угол
+    const parametric = (angle: number) => Math.atan2(radiusX * Math.sin(angle), radiusY * Math.cos(angle))
+    const startAngle = parametric(visualStart)
+    let sweepAngle = parametric(visualStart + visualSweep) - startAngle
+    if (visualSweep > 0 && sweepAngle < 0) sweepAngle += 2 * Math.PI
+    if (visualSweep < 0 && sweepAngle > 0) sweepAngle -= 2 * Math.PI
+    sweepAngle += Math.sign(visualSweep) * 2 * Math.PI * Math.floor(Math.abs(visualSweep) / (2 * Math.PI))
+    if (Math.abs(sweepAngle) < 1e-9) return []
+
+    // Текущая точка лежит на эллипсе под начальным углом
+    const center = {
+      x: current.x - radiusX * Math.cos(startAngle),
+      y: current.y - radiusY * Math.sin(startAngle)
+    }
+    const pointAt = (angle: number) => ({
+      x: center.x + radiusX * Math.cos(angle),
+      y: center.y + radiusY * Math.sin(angle)
+    })
+
+    const count = Math.max(1, Math.ceil(Math.abs(sweepAngle) / (Math.PI / 2) - 1e-9))
+    const step = sweepAngle / count
+    const k = (4 / 3) * Math.tan(step / 4)
+    const curves: Point[][] = []
+
+    for (let i = 0; i < count; i++) {
+      const from = startAngle + step * i
+      const to = from + step
+      const p0 = pointAt(from)
+      const p3 = pointAt(to)
+      curves.push([
+        { x: p0.x - k * radiusX * Math.sin(from), y: p0.y + k * radiusY * Math.cos(from) },
+        { x: p3.x + k * radiusX * Math.sin(to), y: p3.y - k * radiusY * Math.cos(to) },
+        p3
+      ])
+    }
+
+    return curves
+  }
+}
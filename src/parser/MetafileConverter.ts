@@ -0,0 +1,700 @@
+/**
+ * @file: MetafileConverter.ts
+ * @description: Преобразование метафайлов EMF и WMF в SVG: векторные записи GDI (контуры, фигуры, перья, кисти, текст)
+ *   переносятся в элементы SVG, которые Figma импортирует через figma.createNodeFromSvg
+ * @dependencies: нет
+ * @created: 2026-10-18
+ */
+
+export type MetafileFormat = 'emf' | 'wmf'
+
+export interface MetafileConversionResult {
+  svg?: string // нет, если в метафайле не нашлось поддерживаемых векторных записей
+  skippedRecords: number // записи, которые не удалось перенести: растровые вставки, регионы, EMF+ без копии GDI
+}
+
+// Векторное содержимое медиа файла: SVG как есть или из метафайла
+export interface VectorMedia {
+  svg?: string
+  warnings: string[]
+}
+
+interface Point {
+  x: number
+  y: number
+}
+
+interface Pen {
+  color: string
+  width: number // в логических единицах, 0 — тонкая линия в 1 пиксель
+  none: boolean
+}
+
+interface Brush {
+  color: string
+  none: boolean
+}
+
+interface Font {
+  height: number // в логических единицах, отрицательная — высота символа, положительная — высота ячейки
+  weight: number
+  italic: boolean
+  family: string
+  escapement: number // поворот в десятых долях градуса против часовой стрелки
+}
+
+interface GdiObject {
+  pen?: Pen
+  brush?: Brush
+  font?: Font
+}
+
+// Матрица мирового преобразования EMF: x' = a·x + c·y + e, y' = b·x + d·y + f
+type WorldTransform = [number, number, number, number, number, number]
+
+interface DeviceContext {
+  pen: Pen
+  brush: Brush
+  font: Font
+  textColor: string
+  textAlign: number
+  fillRule: 'evenodd' | 'nonzero'
+  mapMode: number
+  windowOrg: Point
+  windowExt: Point
+  viewportOrg: Point
+  viewportExt: Point
+  world: WorldTransform
+}
+
+const EMF_SIGNATURE = 0x464d4520 // « EMF»
+const WMF_PLACEABLE_KEY = 0x9ac6cdd7
+// Режимы отображения, в которых окно масштабируется на область просмотра
+const MM_ISOTROPIC = 7
+const MM_ANISOTROPIC = 8
+// Выравнивание текста (SetTextAlign)
+const TA_RIGHT = 2
+const TA_CENTER = 6
+const TA_BOTTOM = 8
+const TA_BASELINE = 24
+// Коэффициент контрольных точек кривой Безье для четверти эллипса
+const KAPPA = 0.5522847498
+const IDENTITY: WorldTransform = [1, 0, 0, 1, 0, 0]
+
+// Стандартные объекты GDI (индекс | 0x80000000 в EMF)
+const STOCK_OBJECTS: { [index: number]: GdiObject } = {
+  0: { brush: { color: '#ffffff', none: false } },
+  1: { brush: { color: '#c0c0c0', none: false } },
+  2: { brush: { color: '#808080', none: false } },
+  3: { brush: { color: '#404040', none: false } },
+  4: { brush: { color: '#000000', none: false } },
+  5: { brush: { color: '#000000', none: true } },
+  6: { pen: { color: '#ffffff', width: 0, none: false } },
+  7: { pen: { color: '#000000', width: 0, none: false } },
+  8: { pen: { color: '#000000', width: 0, none: true } }
+}
+
+// Записи EMF без видимого результата в SVG: режимы фона и растра, палитры, отсечение, комментарии (EMF+)
+const EMF_IGNORED_RECORDS = [13, 16, 18, 20, 21, 25, 26, 28, 29, 30, 31, 32, 48, 49, 52, 57, 58, 65, 66, 67, 68, 70, 75, 98, 99, 100, 115]
+// Записи WMF без видимого результата в SVG
+const WMF_IGNORED_RECORDS = [0x0102, 0x0103, 0x0104, 0x0107, 0x0201, 0x020d, 0x020e, 0x0231, 0x0234, 0x0035, 0x0037, 0x0415, 0x0416, 0x012c, 0x0220, 0x0626]
+
+// Полотно GDI: состояние контекста устройства, таблица объектов и накопленные элементы SVG
+class MetafileCanvas {
+  state: DeviceContext = createDeviceContext()
+  objects: Array<GdiObject | undefined> = []
+  skippedRecords = 0
+  private stack: DeviceContext[] = []
+  private elements: string[] = []
+  private position: Point = { x: 0, y: 0 }
+  private path: string[] | null = null
+
+  // Логические координаты в координаты устройства: мировое преобразование, затем окно → область просмотра
+  toDevice(x: number, y: number): Point {
+    const [a, b, c, d, e, f] = this.state.world
+    const worldX = a * x + c * y + e
+    const worldY = b * x + d * y + f
+    const { scaleX, scaleY } = this.getViewportScale()
+    return {
+      x: (worldX - this.state.windowOrg.x) * scaleX + this.state.viewportOrg.x,
+      y: (worldY - this.state.windowOrg.y) * scaleY + this.state.viewportOrg.y
+    }
+  }
+
+  // Длина в логических единицах (толщина пера, размер шрифта) в единицах устройства
+  toDeviceLength(length: number): number {
+    const [a, b, c, d] = this.state.world
+    const { scaleX, scaleY } = this.getViewportScale()
+    return Math.abs(length) * Math.sqrt(Math.abs((a * d - b * c) * scaleX * scaleY))
+  }
+
+  save(): void {
+    this.stack.push({ ...this.state })
+  }
+
+  // Восстановление сохраненного состояния: отрицательный индекс считается от вершины стека
+  restore(index: number): void {
+    const depth = index < 0 ? this.stack.length + index : index - 1
+    if (depth < 0 || depth >= this.stack.length) return
+    this.state = this.stack[depth]
+    this.stack.length = depth
+  }
+
+  select(object: GdiObject | undefined): void {
+    if (!object) return
+    if (object.pen) this.state.pen = object.pen
+    if (object.brush) this.state.brush = object.brush
+    if (object.font) this.state.font = object.font
+  }
+
+  // Объект WMF занимает первый свободный слот таблицы
+  addObject(object: GdiObject): void {
+    let index = 0
+    while (this.objects[index]) index++
+    this.objects[index] = object
+  }
+
+  moveTo(x: number, y: number): void {
+    this.position = { x, y }
+    if (this.path) this.path.push(`M ${this.formatPoint(x, y)}`)
+  }
+
+  lineTo(points: Point[]): void {
+    this.figureFromPosition(points, 'L')
+  }
+
+  bezierTo(points: Point[]): void {
+    this.figureFromPosition(points, 'C')
+  }
+
+  polygon(polygons: Point[][]): void {
+    const data = polygons.filter(points => points.length > 1).map(points => `${this.formatFigure(points, 'L')} Z`)
+    if (data.length === 0) return
+    if (this.path) {
+      this.path.push(...data)
+    } else {
+      this.draw(data.join(' '), true, true)
+    }
+  }
+
+  polyline(polylines: Point[][], command: 'L' | 'C' = 'L'): void {
+    const data = polylines.filter(points => points.length > 1).map(points => this.formatFigure(points, command))
+    if (data.length === 0) return
+    if (this.path) {
+      this.path.push(...data)
+    } else {
+      this.draw(data.join(' '), false, true)
+    }
+  }
+
+  rectangle(left: number, top: number, right: number, bottom: number): void {
+    this.polygon([[{ x: left, y: top }, { x: right, y: top }, { x: right, y: bottom }, { x: left, y: bottom }]])
+  }
+
+  // Прямоугольник со скругленными углами; cornerWidth и cornerHeight — размеры эллипса угла
+  roundRectangle(left: number, top: number, right: number, bottom: number, cornerWidth: number, cornerHeight: number): void {
+    const rx = Math.min(Math.abs(cornerWidth) / 2, Math.abs(right - left) / 2)
+    const ry = Math.min(Math.abs(cornerHeight) / 2, Math.abs(bottom - top) / 2)
+    const kx = rx * KAPPA
+    const ky = ry * KAPPA
+    const data = [
+      `M ${this.formatPoint(left + rx, top)}`,
+      `L ${this.formatPoint(right - rx, top)}`,
+      `C ${this.formatPoints([{ x: right - rx + kx, y: top }, { x: right, y: top + ry - ky }, { x: right, y: top + ry }])}`,
+      `L ${this.formatPoint(right, bottom - ry)}`,
+      `C ${this.formatPoints([{ x: right, y: bottom - ry + ky }, { x: right - rx + kx, y: bottom }, { x: right - rx, y: bottom }])}`,
+      `L ${this.formatPoint(left + rx, bottom)}`,
+      `C ${this.formatPoints([{ x: left + rx - kx, y: bottom }, { x: left, y: bottom - ry + ky }, { x: left, y: bottom - ry }])}`,
+      `L ${this.formatPoint(left, top + ry)}`,
+      `C ${this.formatPoints([{ x: left, y: top + ry - ky }, { x: left + rx - kx, y: top }, { x: left + rx, y: top }])}`,
+      'Z'
+    ].join(' ')
+    this.figure(data)
+  }
+
+  // Эллипс из четырех кривых Безье: после мирового преобразования он может оказаться повернутым
+  ellipse(left: number, top: number, right: number, bottom: number): void {
+    const cx = (left + right) / 2
+    const cy = (top + bottom) / 2
+    const rx = Math.abs(right - left) / 2
+    const ry = Math.abs(bottom - top) / 2
+    const kx = rx * KAPPA
+    const ky = ry * KAPPA
+    const data = [
+      `M ${this.formatPoint(cx + rx, cy)}`,
+      `C ${this.formatPoints([{ x: cx + rx, y: cy + ky }, { x: cx + kx, y: cy + ry }, { x: cx, y: cy + ry }])}`,
+      `C ${this.formatPoints([{ x: cx - kx, y: cy + ry }, { x: cx - rx, y: cy + ky }, { x: cx - rx, y: cy }])}`,
+      `C ${this.formatPoints([{ x: cx - rx, y: cy - ky }, { x: cx - kx, y: cy - ry }, { x: cx, y: cy - ry }])}`,
+      `C ${this.formatPoints([{ x: cx + kx, y: cy - ry }, { x: cx + rx, y: cy - ky }, { x: cx + rx, y: cy }])}`,
+      'Z'
+    ].join(' ')
+    this.figure(data)
+  }
+
+  beginPath(): void {
+    this.path = []
+  }
+
+  closeFigure(): void {
+    if (this.path) this.path.push('Z')
+  }
+
+  abortPath(): void {
+    this.path = null
+  }
+
+  // Вывод накопленного контура (FillPath, StrokePath, StrokeAndFillPath)
+  drawPath(fill: boolean, stroke: boolean): void {
+    if (this.path && this.path.length > 0) {
+      this.draw(this.path.join(' '), fill, stroke)
+    }
+    this.path = null
+  }
+
+  // Текст в точке привязки с учетом выравнивания SetTextAlign и поворота шрифта
+  text(x: number, y: number, value: string): void {
+    if (!value.trim()) return
+
+    const { font, textAlign, textColor } = this.state
+    const point = this.toDevice(x, y)
+    // Положительная высота шрифта — высота ячейки, символы занимают около 80% ее высоты
+    const size = this.toDeviceLength(font.height > 0 ? font.height * 0.8 : font.height) || 12
+    const anchor = (textAlign & TA_CENTER) === TA_CENTER ? 'middle' : (textAlign & TA_RIGHT) ? 'end' : 'start'
+    const vertical = textAlign & TA_BASELINE
+    const baseline = vertical === TA_BASELINE ? point.y : vertical === TA_BOTTOM ? point.y - size * 0.2 : point.y + size * 0.8
+    const rotation = font.escapement ? ` transform="rotate(${round(-font.escapement / 10)} ${round(point.x)} ${round(point.y)})"` : ''
+
+    this.elements.push(
+      `<text x="${round(point.x)}" y="${round(baseline)}" font-family="${escapeXml(font.family)}" font-size="${round(size)}"` +
+      ` font-weight="${font.weight >= 600 ? 'bold' : 'normal'}" font-style="${font.italic ? 'italic' : 'normal'}"` +
+      ` fill="${textColor}" text-anchor="${anchor}" xml:space="preserve"${rotation}>${escapeXml(value)}</text>`
+    )
+  }
+
+  // Документ SVG в области viewBox (координаты устройства)
+  toSvg(viewBox: { x: number; y: number; width: number; height: number }): string | undefined {
+    if (this.elements.length === 0 || viewBox.width <= 0 || viewBox.height <= 0) return undefined
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${round(viewBox.width)}" height="${round(viewBox.height)}"` +
+      ` viewBox="${round(viewBox.x)} ${round(viewBox.y)} ${round(viewBox.width)} ${round(viewBox.height)}">` +
+      `${this.elements.join('')}</svg>`
+  }
+
+  private getViewportScale(): { scaleX: number; scaleY: number } {
+    const { mapMode, windowExt, viewportExt } = this.state
+    if ((mapMode !== MM_ISOTROPIC && mapMode !== MM_ANISOTROPIC) || !windowExt.x || !windowExt.y) {
+      return { scaleX: 1, scaleY: 1 }
+    }
+    const scaleX = viewportExt.x / windowExt.x
+    const scaleY = viewportExt.y / windowExt.y
+    if (mapMode === MM_ISOTROPIC) {
+      // Изотропный режим сохраняет пропорции по меньшему масштабу
+      const scale = Math.min(Math.abs(scaleX), Math.abs(scaleY))
+      return { scaleX: Math.sign(scaleX) * scale, scaleY: Math.sign(scaleY) * scale }
+    }
+    return { scaleX, scaleY }
+  }
+
+  // Отрезки или кривые от текущей позиции; вне контура сразу рисуются пером
+  private figureFromPosition(points: Point[], command: 'L' | 'C'): void {
+    if (points.length === 0) return
+    const data = `${command} ${this.formatPoints(points)}`
+    if (this.path) {
+      if (this.path.length === 0) this.path.push(`M ${this.formatPoint(this.position.x, this.position.y)}`)
+      this.path.push(data)
+    } else {
+      this.draw(`M ${this.formatPoint(this.position.x, this.position.y)} ${data}`, false, true)
+    }
+    this.position = points[points.length - 1]
+  }
+
+  private figure(data: string): void {
+    if (this.path) {
+      this.path.push(data)
+    } else {
+      this.draw(data, true, true)
+    }
+  }
+
+  private draw(data: string, fill: boolean, stroke: boolean): void {
+    const { pen, brush, fillRule } = this.state
+    const hasFill = fill && !brush.none
+    const hasStroke = stroke && !pen.none
+    if (!hasFill && !hasStroke) return
+
+    const strokeAttributes = hasStroke
+      ? ` stroke="${pen.color}" stroke-width="${round(Math.max(this.toDeviceLength(pen.width), 1))}" stroke-linejoin="round" stroke-linecap="round"`
+      : ''
+    this.elements.push(`<path d="${data}" fill="${hasFill ? brush.color : 'none'}" fill-rule="${fillRule}"${strokeAttributes}/>`)
+  }
+
+  private formatFigure(points: Point[], command: 'L' | 'C'): string {
+    return `M ${this.formatPoint(points[0].x, points[0].y)} ${command} ${this.formatPoints(points.slice(1))}`
+  }
+
+  private formatPoints(points: Point[]): string {
+    return points.map(point => this.formatPoint(point.x, point.y)).join(' ')
+  }
+
+  private formatPoint(x: number, y: number): string {
+    const point = this.toDevice(x, y)
+    return `${round(point.x)} ${round(point.y)}`
+  }
+}
+
+export class MetafileConverter {
+  // Преобразование метафайла в SVG; поврежденный или пустой файл дает результат без svg
+  convert(data: Uint8Array, format: MetafileFormat): MetafileConversionResult {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+    const canvas = new MetafileCanvas()
+    try {
+      const svg = format === 'emf' ? this.readEmf(view, canvas) : this.readWmf(view, canvas)
+      return { svg, skippedRecords: canvas.skippedRecords }
+    } catch (error) {
+      console.warn('Ошибка чтения метафайла:', error)
+      return { skippedRecords: canvas.skippedRecords }
+    }
+  }
+
+  // Чтение EMF: записи [тип u32, размер u32, данные]; область рисунка — rclBounds заголовка в единицах устройства
+  private readEmf(view: DataView, canvas: MetafileCanvas): string | undefined {
+    if (view.byteLength < 88 || view.getUint32(0, true) !== 1 || view.getUint32(40, true) !== EMF_SIGNATURE) {
+      return undefined
+    }
+    const left = view.getInt32(8, true)
+    const top = view.getInt32(12, true)
+    const bounds = { x: left, y: top, width: view.getInt32(16, true) - left + 1, height: view.getInt32(20, true) - top + 1 }
+
+    let offset = 0
+    while (offset + 8 <= view.byteLength) {
+      const type = view.getUint32(offset, true)
+      const size = view.getUint32(offset + 4, true)
+      if (size < 8 || offset + size > view.byteLength || type === 14) break
+
+      this.readEmfRecord(view, offset, type, canvas)
+      offset += size
+    }
+
+    return canvas.toSvg(bounds)
+  }
+
+  private readEmfRecord(view: DataView, offset: number, type: number, canvas: MetafileCanvas): void {
+    const p = offset + 8
+    const int = (at: number) => view.getInt32(at, true)
+    const uint = (at: number) => view.getUint32(at, true)
+    const state = canvas.state
+
+    switch (type) {
+      case 1: // EMR_HEADER
+        break
+      case 2: case 3: case 4: case 5: case 6: // POLYBEZIER, POLYGON, POLYLINE, POLYBEZIERTO, POLYLINETO
+        this.drawEmfPoints(canvas, type, readPoints(view, p + 20, uint(p + 16), 4))
+        break
+      case 85: case 86: case 87: case 88: case 89: // те же записи с 16-битными точками
+        this.drawEmfPoints(canvas, type - 83, readPoints(view, p + 20, uint(p + 16), 2))
+        break
+      case 7: case 8: case 90: case 91: { // POLYPOLYLINE, POLYPOLYGON (32 и 16 бит)
+        const count = uint(p + 16)
+        const counts = Array.from({ length: count }, (_, index) => uint(p + 24 + index * 4))
+        const groups = splitPoints(readPoints(view, p + 24 + count * 4, counts.reduce((sum, value) => sum + value, 0), type > 8 ? 2 : 4), counts)
+        if (type === 8 || type === 91) {
+          canvas.polygon(groups)
+        } else {
+          canvas.polyline(groups)
+        }
+        break
+      }
+      case 9: state.windowExt = { x: int(p), y: int(p + 4) }; break
+      case 10: state.windowOrg = { x: int(p), y: int(p + 4) }; break
+      case 11: state.viewportExt = { x: int(p), y: int(p + 4) }; break
+      case 12: state.viewportOrg = { x: int(p), y: int(p + 4) }; break
+      case 17: state.mapMode = uint(p); break
+      case 19: state.fillRule = uint(p) === 2 ? 'nonzero' : 'evenodd'; break
+      case 22: state.textAlign = uint(p); break
+      case 24: state.textColor = readColor(view, p); break
+      case 27: canvas.moveTo(int(p), int(p + 4)); break
+      case 54: canvas.lineTo([{ x: int(p), y: int(p + 4) }]); break
+      case 33: canvas.save(); break
+      case 34: canvas.restore(int(p)); break
+      case 35: state.world = readWorldTransform(view, p); break
+      case 36: { // MODIFYWORLDTRANSFORM: 1 — единичная, 2 — умножение слева, 3 — справа, 4 — замена
+        const transform = readWorldTransform(view, p)
+        const mode = uint(p + 24)
+        state.world = mode === 1 ? IDENTITY
+          : mode === 2 ? multiply(transform, state.world)
+          : mode === 3 ? multiply(state.world, transform)
+          : transform
+        break
+      }
+      case 37: { // SELECTOBJECT
+        const index = uint(p)
+        canvas.select(index & 0x80000000 ? STOCK_OBJECTS[index & 0x7fffffff] : canvas.objects[index])
+        break
+      }
+      case 38: // CREATEPEN
+        canvas.objects[uint(p)] = { pen: { color: readColor(view, p + 16), width: int(p + 8), none: (uint(p + 4) & 0x0f) === 5 } }
+        break
+      case 95: // EXTCREATEPEN: кисть BS_NULL тоже означает отсутствие линии
+        canvas.objects[uint(p)] = {
+          pen: { color: readColor(view, p + 32), width: uint(p + 24), none: (uint(p + 20) & 0x0f) === 5 || uint(p + 28) === 1 }
+        }
+        break
+      case 39: // CREATEBRUSHINDIRECT: штриховка передается сплошным цветом
+        canvas.objects[uint(p)] = { brush: { color: readColor(view, p + 8), none: uint(p + 4) === 1 } }
+        break
+      case 82: // EXTCREATEFONTINDIRECTW
+        canvas.objects[uint(p)] = {
+          font: {
+            height: int(p + 4),
+            escapement: int(p + 12),
+            weight: int(p + 20),
+            italic: view.getUint8(p + 24) !== 0,
+            family: readUtf16(view, p + 32, 32) || 'Arial'
+          }
+        }
+        break
+      case 40: canvas.objects[uint(p)] = undefined; break
+      case 42: canvas.ellipse(int(p), int(p + 4), int(p + 8), int(p + 12)); break
+      case 43: canvas.rectangle(int(p), int(p + 4), int(p + 8), int(p + 12)); break
+      case 44: canvas.roundRectangle(int(p), int(p + 4), int(p + 8), int(p + 12), int(p + 16), int(p + 20)); break
+      case 59: canvas.beginPath(); break
+      case 60: break // ENDPATH: контур выводится записью FILLPATH / STROKEPATH
+      case 61: canvas.closeFigure(); break
+      case 62: canvas.drawPath(true, false); break
+      case 63: canvas.drawPath(true, true); break
+      case 64: canvas.drawPath(false, true); break
+      case 68: canvas.abortPath(); break
+      case 84: { // EXTTEXTOUTW: строка UTF-16 по смещению от начала записи
+        const count = uint(p + 36)
+        const text = readUtf16(view, offset + uint(p + 40), count)
+        canvas.text(int(p + 28), int(p + 32), text)
+        break
+      }
+      default:
+        if (EMF_IGNORED_RECORDS.indexOf(type) === -1) canvas.skippedRecords++
+    }
+  }
+
+  private drawEmfPoints(canvas: MetafileCanvas, type: number, points: Point[]): void {
+    switch (type) {
+      case 2: canvas.polyline([points], 'C'); break
+      case 3: canvas.polygon([points]); break
+      case 4: canvas.polyline([points]); break
+      case 5: canvas.bezierTo(points); break
+      case 6: canvas.lineTo(points); break
+    }
+  }
+
+  // Чтение WMF: необязательный заголовок Aldus с рамкой рисунка, заголовок META, записи [размер в словах u32, функция u16, параметры]
+  private readWmf(view: DataView, canvas: MetafileCanvas): string | undefined {
+    let headerOffset = 0
+    if (view.byteLength >= 22 && view.getUint32(0, true) === WMF_PLACEABLE_KEY) {
+      const left = view.getInt16(6, true)
+      const top = view.getInt16(8, true)
+      this.setWmfWindow(canvas, { x: left, y: top }, { x: view.getInt16(10, true) - left, y: view.getInt16(12, true) - top })
+      headerOffset = 22
+    }
+    if (view.byteLength < headerOffset + 18) return undefined
+
+    let offset = headerOffset + view.getUint16(headerOffset + 2, true) * 2
+    while (offset + 6 <= view.byteLength) {
+      const size = view.getUint32(offset, true) * 2
+      const func = view.getUint16(offset + 4, true)
+      if (size < 6 || offset + size > view.byteLength || func === 0) break
+
+      this.readWmfRecord(view, offset + 6, func, canvas)
+      offset += size
+    }
+
+    const ext = canvas.state.viewportExt
+    return canvas.toSvg({ x: 0, y: 0, width: ext.x, height: ext.y })
+  }
+
+  private readWmfRecord(view: DataView, p: number, func: number, canvas: MetafileCanvas): void {
+    const short = (at: number) => view.getInt16(at, true)
+    const word = (at: number) => view.getUint16(at, true)
+    const state = canvas.state
+
+    switch (func) {
+      case 0x020b: this.setWmfWindow(canvas, { x: short(p + 2), y: short(p) }, state.windowExt); break
+      case 0x020c: this.setWmfWindow(canvas, state.windowOrg, { x: short(p + 2), y: short(p) }); break
+      case 0x0106: state.fillRule = word(p) === 2 ? 'nonzero' : 'evenodd'; break
+      case 0x012e: state.textAlign = word(p); break
+      case 0x0209: state.textColor = readColor(view, p); break
+      case 0x0214: canvas.moveTo(short(p + 2), short(p)); break
+      case 0x0213: canvas.lineTo([{ x: short(p + 2), y: short(p) }]); break
+      case 0x0324: canvas.polygon([readPoints(view, p + 2, word(p), 2)]); break
+      case 0x0325: canvas.polyline([readPoints(view, p + 2, word(p), 2)]); break
+      case 0x0538: { // POLYPOLYGON
+        const count = word(p)
+        const counts = Array.from({ length: count }, (_, index) => word(p + 2 + index * 2))
+        const points = readPoints(view, p + 2 + count * 2, counts.reduce((sum, value) => sum + value, 0), 2)
+        canvas.polygon(splitPoints(points, counts))
+        break
+      }
+      case 0x041b: canvas.rectangle(short(p + 6), short(p + 4), short(p + 2), short(p)); break
+      case 0x0418: canvas.ellipse(short(p + 6), short(p + 4), short(p + 2), short(p)); break
+      case 0x061c: canvas.roundRectangle(short(p + 10), short(p + 8), short(p + 6), short(p + 4), short(p + 2), short(p)); break
+      case 0x02fa: // CREATEPENINDIRECT
+        canvas.addObject({ pen: { color: readColor(view, p + 6), width: short(p + 2), none: (word(p) & 0x0f) === 5 } })
+        break
+      case 0x02fc: // CREATEBRUSHINDIRECT
+        canvas.addObject({ brush: { color: readColor(view, p + 2), none: word(p) === 1 } })
+        break
+      case 0x02fb: // CREATEFONTINDIRECT
+        canvas.addObject({
+          font: {
+            height: short(p),
+            escapement: short(p + 4),
+            weight: short(p + 8),
+            italic: view.getUint8(p + 10) !== 0,
+            family: readAnsi(view, p + 18, 32) || 'Arial'
+          }
+        })
+        break
+      case 0x00f7: case 0x0142: case 0x01f9: case 0x06ff: // палитры, кисти-узоры и регионы тоже занимают слоты таблицы
+        canvas.addObject({})
+        break
+      case 0x012d: canvas.select(canvas.objects[word(p)]); break
+      case 0x01f0: canvas.objects[word(p)] = undefined; break
+      case 0x001e: canvas.save(); break
+      case 0x0127: canvas.restore(short(p)); break
+      case 0x0521: { // TEXTOUT: строка выровнена до четного числа байтов, за ней y и x
+        const count = word(p)
+        const end = p + 2 + count + (count % 2)
+        canvas.text(short(end + 2), short(end), readAnsi(view, p + 2, count))
+        break
+      }
+      case 0x0a32: { // EXTTEXTOUT: прямоугольник отсечения присутствует при ETO_OPAQUE или ETO_CLIPPED
+        const count = word(p + 4)
+        const stringOffset = p + 8 + (word(p + 6) & 0x06 ? 8 : 0)
+        canvas.text(short(p + 2), short(p), readAnsi(view, stringOffset, count))
+        break
+      }
+      default:
+        if (WMF_IGNORED_RECORDS.indexOf(func) === -1) canvas.skippedRecords++
+    }
+  }
+
+  // Окно WMF отображается на область 0..|ext|; отрицательный размер окна отражает рисунок
+  private setWmfWindow(canvas: MetafileCanvas, org: Point, ext: Point): void {
+    canvas.state.mapMode = MM_ANISOTROPIC
+    canvas.state.windowOrg = org
+    canvas.state.windowExt = ext
+    canvas.state.viewportExt = { x: Math.abs(ext.x), y: Math.abs(ext.y) }
+  }
+}
+
+// SVG для медиа файла презентации: .svg декодируется как есть, .emf и .wmf преобразуются
+export function convertVectorMedia(path: string, data: Uint8Array): VectorMedia {
+  const extension = (path.split('.').pop() || '').toLowerCase()
+  if (extension === 'svg') {
+    return { svg: new TextDecoder('utf-8').decode(data), warnings: [] }
+  }
+  if (extension !== 'emf' && extension !== 'wmf') {
+    return { warnings: [] }
+  }
+
+  const result = new MetafileConverter().convert(data, extension)
+  if (!result.svg) {
+    return { warnings: [`Метафайл ${path} не удалось преобразовать в SVG`] }
+  }
+  return {
+    svg: result.svg,
+    warnings: result.skippedRecords > 0
+      ? [`Метафайл ${path}: пропущено неподдерживаемых записей — ${result.skippedRecords}`]
+      : []
+  }
+}
+
+function createDeviceContext(): DeviceContext {
+  return {
+    pen: { color: '#000000', width: 0, none: false },
+    brush: { color: '#ffffff', none: false },
+    font: { height: -12, weight: 400, italic: false, family: 'Arial', escapement: 0 },
+    textColor: '#000000',
+    textAlign: 0,
+    fillRule: 'evenodd',
+    mapMode: 1,
+    windowOrg: { x: 0, y: 0 },
+    windowExt: { x: 1, y: 1 },
+    viewportOrg: { x: 0, y: 0 },
+    viewportExt: { x: 1, y: 1 },
+    world: IDENTITY
+  }
+}
+
+// Точки (x, y) по 16 или 32 бита на координату
+function readPoints(view: DataView, offset: number, count: number, bytes: 2 | 4): Point[] {
+  const points: Point[] = []
+  for (let index = 0; index < count && offset + (index + 1) * bytes * 2 <= view.byteLength; index++) {
+    const at = offset + index * bytes * 2
+    points.push(bytes === 2
+      ? { x: view.getInt16(at, true), y: view.getInt16(at + 2, true) }
+      : { x: view.getInt32(at, true), y: view.getInt32(at + 4, true) })
+  }
+  return points
+}
+
+function splitPoints(points: Point[], counts: number[]): Point[][] {
+  let start = 0
+  return counts.map(count => {
+    const group = points.slice(start, start + count)
+    start += count
+    return group
+  })
+}
+
+// COLORREF: байты red, green, blue, reserved
+function readColor(view: DataView, offset: number): string {
+  const hex = (value: number) => (value < 16 ? '0' : '') + value.toString(16)
+  return `#${hex(view.getUint8(offset))}${hex(view.getUint8(offset + 1))}${hex(view.getUint8(offset + 2))}`
+}
+
+function readWorldTransform(view: DataView, offset: number): WorldTransform {
+  const float = (index: number) => view.getFloat32(offset + index * 4, true)
+  return [float(0), float(1), float(2), float(3), float(4), float(5)]
+}
+
+// Произведение преобразований: сначала first, затем second
+function multiply(first: WorldTransform, second: WorldTransform): WorldTransform {
+  const [a1, b1, c1, d1, e1, f1] = first
+  const [a2, b2, c2, d2, e2, f2] = second
+  return [
+    a1 * a2 + b1 * c2,
+    a1 * b2 + b1 * d2,
+    c1 * a2 + d1 * c2,
+    c1 * b2 + d1 * d2,
+    e1 * a2 + f1 * c2 + e2,
+    e1 * b2 + f1 * d2 + f2
+  ]
+}
+
+// Строка UTF-16LE до первого нулевого символа
+function readUtf16(view: DataView, offset: number, length: number): string {
+  let value = ''
+  for (let index = 0; index < length && offset + index * 2 + 1 < view.byteLength; index++) {
+    const code = view.getUint16(offset + index * 2, true)
+    if (code === 0) break
+    value += String.fromCharCode(code)
+  }
+  return value
+}
+
+// Однобайтовая строка WMF (кодовая страница Windows-1252 без учета набора символов шрифта)
+function readAnsi(view: DataView, offset: number, length: number): string {
+  let value = ''
+  for (let index = 0; index < length && offset + index < view.byteLength; index++) {
+    const code = view.getUint8(offset + index)
+    if (code === 0) break
+    value += String.fromCharCode(code)
+  }
+  return value
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
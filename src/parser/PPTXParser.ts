@@ -1,17 +1,21 @@
 /**
  * @file: PPTXParser.ts
  * @description: Основной класс для парсинга PPTX файлов
- * @dependencies: types.ts, utils.ts, JSZip
+ * @dependencies: types.ts, utils.ts, MetafileConverter.ts, JSZip
  * @created: 2024-12-19
  */
 
 import JSZip from 'jszip'
-import { PPTXFile, ParseResult, ParserState, Slide, MasterSlide, Theme, MediaFile } from './types'
-import { parseXML, emuToPixels, generateId, logParseStep, logParseError, createParseError } from './utils'
-import { ModelFactories, ModelUtils, Presentation as DomainPresentation } from '../models'
-import { PresentationParser, SlideParser, XMLUtils, ThemeParser } from './xml'
+import { PPTXFile, ParseResult, ParserState, Slide, MasterSlide, Layout, Theme, MediaFile, ThemeColorPalette } from './types'
+import { emuToPixels, generateId, logParseStep, logParseError, createParseError } from './utils'
+import { ModelFactories, ModelUtils, Presentation as DomainPresentation, ColorScheme, FontScheme, SlideBackground, Element } from '../models'
+import { PresentationParser, SlideParser, XMLUtils, ThemeParser, ChartParser, XMLParser, GeometryParser, TableStyleParser } from './xml'
+import type { SlideParseContext, TableStyles } from './xml'
 import { ThemeCache } from '../models/ThemeCache'
 import { ElementMapper } from '../mapper/ElementMapper'
+import { RelationshipResolver } from './RelationshipResolver'
+import { PlaceholderResolver } from './PlaceholderResolver'
+import { convertVectorMedia } from './MetafileConverter'
 
 export class PPTXParser {
   private state: ParserState = {
@@ -23,6 +27,15 @@ export class PPTXParser {
   }
 
   private zip: JSZip | null = null
+  private relationships: RelationshipResolver = new RelationshipResolver()
+  private themeCache: ThemeCache = new ThemeCache()
+  private colorScheme: ColorScheme | null = null
+  private fontScheme: FontScheme | null = null
+  private colorTheme: ThemeColorPalette | undefined
+  private tableStyles: TableStyles = {}
+  private masters: MasterSlide[] = []
+  // Разобранные корни p:sldLayout и p:sldMaster по пути части (для наследования плейсхолдеров)
+  private templates: Map<string, any> = new Map()
   private onProgress?: (state: ParserState) => void
 
   constructor(onProgress?: (state: ParserState) => void) {
@@ -49,10 +62,14 @@ export class PPTXParser {
       
       // Парсинг основных файлов
       const presentation = await this.parsePresentation()
-      const slides = await this.parseSlides()
+      await this.loadThemeColors()
+      await this.loadTableStyles()
+      // Мастер-слайды разбираются до слайдов: слайды наследуют от них фон
       const masters = await this.parseMasterSlides()
+      const slides = await this.parseSlides()
       const themes = await this.parseThemes()
       const media = await this.parseMediaFiles()
+      this.checkSvgSources(slides, masters, media)
 
       // Создание результата
       const result: PPTXFile = {
@@ -62,7 +79,8 @@ export class PPTXParser {
         masters,
         themes,
         media,
-        presentation
+        presentation,
+        colorTheme: this.colorTheme
       }
 
       const processingTime = Date.now() - startTime
@@ -111,6 +129,7 @@ export class PPTXParser {
     try {
       this.zip = new JSZip()
       await this.zip.loadAsync(fileData)
+      this.relationships = await RelationshipResolver.fromZip(this.zip)
       
       logParseStep('ZIP archive loaded', { fileCount: Object.keys(this.zip.files).length })
     } catch (error) {
@@ -190,17 +209,18 @@ export class PPTXParser {
 
   // Парсинг мастер-слайдов
   private async parseMasterSlides(): Promise<MasterSlide[]> {
-    this.updateState({ currentStep: 'Парсинг мастер-слайдов...', progress: 60 })
+    this.updateState({ currentStep: 'Парсинг мастер-слайдов...', progress: 30 })
     
     try {
       const masters: MasterSlide[] = []
       const masterFiles = this.getMasterSlideFiles()
+      this.masters = masters
 
       for (let i = 0; i < masterFiles.length; i++) {
         const masterFile = masterFiles[i]
         
         try {
-          const master = await this.parseMasterSlide(masterFile)
+          const master = await this.parseMasterSlide(masterFile, i + 1)
           masters.push(master)
         } catch (error) {
           this.state.warnings.push(`Ошибка парсинга мастер-слайда ${i + 1}: ${error.message}`)
@@ -227,7 +247,7 @@ export class PPTXParser {
         const themeFile = themeFiles[i]
         
         try {
-          const theme = await this.parseTheme(themeFile)
+          const theme = await this.parseTheme(themeFile, i + 1)
           themes.push(theme)
         } catch (error) {
           this.state.warnings.push(`Ошибка парсинга темы ${i + 1}: ${error.message}`)
@@ -267,6 +287,30 @@ export class PPTXParser {
     }
   }
 
+  // SVG из asvg:svgBlip, которого нет среди медиафайлов: изображение остается растровым, ссылка на SVG убирается
+  private checkSvgSources(slides: Slide[], masters: MasterSlide[], media: MediaFile[]): void {
+    const check = (elements: Element[]) => elements.forEach(element => {
+      if (element.type === 'group') {
+        check(element.children)
+        return
+      }
+      if (element.type !== 'image' || !element.svgSrc) return
+
+      const svgSrc = element.svgSrc
+      const name = svgSrc.split('/').pop()
+      if (!media.some(file => file.src === svgSrc || file.name === name)) {
+        this.state.warnings.push(`Изображение ${element.name || element.src}: SVG ${svgSrc} не найден среди медиафайлов, использовано растровое изображение`)
+        delete element.svgSrc
+      }
+    })
+
+    slides.forEach(slide => check(slide.elements))
+    masters.forEach(master => {
+      check(master.elements)
+      master.layouts.forEach(layout => check(layout.elements))
+    })
+  }
+
   // Вспомогательные методы
   private getSlideFiles(): JSZip.JSZipObject[] {
     if (!this.zip) return []
@@ -304,16 +348,22 @@ export class PPTXParser {
   private async parseSlide(slideFile: JSZip.JSZipObject, slideNumber: number): Promise<Slide> {
     try {
       const xmlContent = await slideFile.async('string')
+      const context = await this.loadSlideContext(slideFile.name, slideNumber)
       const slideParser = new SlideParser()
-      const slideData = slideParser.parse(xmlContent, slideNumber)
+      const slideData = slideParser.parse(xmlContent, slideNumber, context)
+      const layoutId = slideData.layoutId
+      const masterSlideId = layoutId ? this.relationships.forPart(layoutId).getByType('slideMaster')[0]?.target : undefined
 
       return {
         id: slideData.id,
         name: slideData.name,
         number: slideData.number,
         elements: slideData.elements,
-        background: slideData.background,
-        layout: slideData.layout
+        background: this.resolveBackground(slideData.background, layoutId, masterSlideId),
+        layout: slideData.layout,
+        layoutId,
+        masterSlideId,
+        showMasterShapes: slideData.showMasterShapes
       }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error'
@@ -321,25 +371,191 @@ export class PPTXParser {
     }
   }
 
-  private async parseMasterSlide(masterFile: JSZip.JSZipObject): Promise<MasterSlide> {
-    const xmlContent = await masterFile.async('string')
-    const masterData = parseXML(xmlContent)
+  // Загрузка цветовой схемы и схемы шрифтов основной темы для разрешения a:schemeClr и +mj-lt в слайдах
+  private async loadThemeColors(): Promise<void> {
+    if (!this.zip) return
+
+    // Тема берется у первого мастер-слайда презентации
+    const master = this.relationships.forPart('ppt/presentation.xml').getByType('slideMaster')[0]
+    const themePath = master ? this.relationships.forPart(master.target).getByType('theme')[0]?.target : undefined
+    const themeFile = (themePath && this.zip.file(themePath)) || this.zip.file('ppt/theme/theme1.xml') || this.getThemeFiles()[0]
+    if (!themeFile) return
+
+    try {
+      const result = new ThemeParser().parseTheme(await themeFile.async('string'), 1)
+      this.themeCache.set(result.theme.id, result.theme, result.colorScheme, result.fontScheme)
+      this.colorScheme = result.colorScheme
+      this.fontScheme = result.fontScheme
+      this.colorTheme = this.createColorPalette(result.theme.name, result.colorScheme)
+      this.state.warnings.push(...result.warnings)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      this.state.warnings.push(`Ошибка загрузки цветовой схемы темы: ${errorMessage}`)
+    }
+  }
+
+  // Загрузка стилей таблиц (ppt/tableStyles.xml): таблицы ссылаются на них по GUID в a:tableStyleId
+  private async loadTableStyles(): Promise<void> {
+    this.tableStyles = {}
+    if (!this.zip) return
+
+    const stylesPath = this.relationships.forPart('ppt/presentation.xml').getByType('tableStyles')[0]?.target
+    const stylesFile = (stylesPath && this.zip.file(stylesPath)) || this.zip.file('ppt/tableStyles.xml')
+    if (!stylesFile) return
+
+    try {
+      this.tableStyles = new TableStyleParser().parse(await stylesFile.async('string'))
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      this.state.warnings.push(`Ошибка загрузки стилей таблиц: ${errorMessage}`)
+    }
+  }
+
+  // Подготовка связанных частей слайда: связи и диаграммы
+  private async loadSlideContext(slidePath: string, slideNumber: number): Promise<SlideParseContext> {
+    const relationships = this.relationships.forPart(slidePath)
+    const context: SlideParseContext = {
+      relationships,
+      charts: {},
+      themeCache: this.themeCache,
+      colorScheme: this.colorScheme || undefined,
+      fontScheme: this.fontScheme || undefined,
+      tableStyles: this.tableStyles
+    }
+    if (!this.zip) return context
+
+    // Плейсхолдеры слайда наследуют свойства от макета и его мастер-слайда
+    const layoutPath = relationships.getByType('slideLayout')[0]?.target
+    const masterPath = layoutPath ? this.relationships.forPart(layoutPath).getByType('slideMaster')[0]?.target : undefined
+    context.placeholders = new PlaceholderResolver(
+      await this.loadTemplateRoot(layoutPath),
+      await this.loadTemplateRoot(masterPath)
+    )
+    context.masterTextStyles = this.masters.find(master => master.id === masterPath)?.textStyles
+
+    for (const relationship of relationships.getByType('chart')) {
+      const chartFile = this.zip.file(relationship.target)
+      if (!chartFile) {
+        this.state.warnings.push(`Слайд ${slideNumber}: часть диаграммы ${relationship.target} не найдена`)
+        continue
+      }
+
+      try {
+        const chartData = new ChartParser().parse(await chartFile.async('string'))
+        context.charts![relationship.id] = chartData
+        this.state.warnings.push(...chartData.warnings.map(warning => `Слайд ${slideNumber}: ${warning}`))
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+        this.state.warnings.push(`Слайд ${slideNumber}: ошибка парсинга диаграммы ${relationship.target}: ${errorMessage}`)
+      }
+    }
+
+    return context
+  }
+
+  // Корень части макета или мастер-слайда (p:sldLayout, p:sldMaster) с кэшированием
+  private async loadTemplateRoot(partPath: string | undefined): Promise<any> {
+    if (!partPath || !this.zip) return undefined
+    if (this.templates.has(partPath)) return this.templates.get(partPath)
+
+    const file = this.zip.file(partPath)
+    let root: any
+    if (file) {
+      const data = new XMLParser({ parseAttributeValue: false }).parse(GeometryParser.markPathOrder(await file.async('string')))
+      root = data['p:sldLayout'] || data['p:sldMaster']
+    } else {
+      this.state.warnings.push(`Часть ${partPath} не найдена`)
+    }
+
+    this.templates.set(partPath, root)
+    return root
+  }
+
+  // Парсинг мастер-слайда вместе с его макетами (связи slideLayout в .rels мастера)
+  private async parseMasterSlide(masterFile: JSZip.JSZipObject, masterNumber: number): Promise<MasterSlide> {
+    const master = await this.parseTemplatePart(masterFile.name, masterNumber)
+    const layouts: Layout[] = []
+    const layoutRelationships = this.relationships.forPart(masterFile.name).getByType('slideLayout')
+
+    for (let i = 0; i < layoutRelationships.length; i++) {
+      const layoutPath = layoutRelationships[i].target
+      try {
+        // Стили текста задаются только мастером
+        const { textStyles, ...layout } = await this.parseTemplatePart(layoutPath, i + 1)
+        layouts.push({ ...layout, masterSlideId: masterFile.name })
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+        this.state.warnings.push(`Ошибка парсинга макета ${layoutPath}: ${errorMessage}`)
+      }
+    }
 
     return {
-      id: generateId(),
-      name: 'Master Slide',
-      elements: [], // Будет реализовано позже
-      layouts: [] // Будет реализовано позже
+      id: master.id,
+      name: master.name,
+      number: masterNumber,
+      elements: master.elements,
+      background: master.background,
+      layouts,
+      textStyles: master.textStyles
+    }
+  }
+
+  // Парсинг части макета или мастер-слайда: фон и декоративные элементы
+  private async parseTemplatePart(partPath: string, number: number): Promise<Layout & Pick<MasterSlide, 'textStyles'>> {
+    const file = this.zip?.file(partPath)
+    if (!file) {
+      throw new Error(`${partPath} not found`)
+    }
+
+    const templateData = new SlideParser().parseTemplate(await file.async('string'), number, {
+      relationships: this.relationships.forPart(partPath),
+      themeCache: this.themeCache,
+      colorScheme: this.colorScheme || undefined,
+      fontScheme: this.fontScheme || undefined,
+      tableStyles: this.tableStyles
+    })
+
+    return {
+      id: partPath,
+      name: templateData.name,
+      number,
+      elements: templateData.elements,
+      background: templateData.background,
+      showMasterShapes: templateData.showMasterShapes,
+      textStyles: templateData.textStyles || []
     }
   }
 
-  private async parseTheme(themeFile: JSZip.JSZipObject): Promise<Theme> {
-    const xmlContent = await themeFile.async('string')
-    const themeData = parseXML(xmlContent)
+  // Фон наследуется по цепочке слайд → макет → мастер-слайд
+  private resolveBackground(background: SlideBackground | undefined, layoutId?: string, masterSlideId?: string): SlideBackground | undefined {
+    if (background && background.type !== 'none') return background
+
+    const master = this.masters.find(candidate => candidate.id === masterSlideId)
+    const layout = master?.layouts.find(candidate => candidate.id === layoutId)
+    const inherited = [layout?.background, master?.background].find(candidate => candidate && candidate.type !== 'none')
+
+    return inherited || background
+  }
+
+  // Базовые цвета схемы без модификаторов
+  private createColorPalette(name: string, colorScheme: ColorScheme): ThemeColorPalette {
+    const colors: ThemeColorPalette['colors'] = {}
+    for (const key of Object.keys(colorScheme.colors)) {
+      const { r, g, b, a } = this.themeCache.resolveColor(colorScheme, key)
+      colors[key] = { r, g, b, a }
+    }
+
+    return { name, colors }
+  }
+
+  // ThemeParser не зависит от DOMParser, которого нет в Web Worker
+  private async parseTheme(themeFile: JSZip.JSZipObject, themeNumber: number): Promise<Theme> {
+    const result = new ThemeParser().parseTheme(await themeFile.async('string'), themeNumber)
+    const fonts = result.fontScheme.fonts
 
     return {
       id: generateId(),
-      name: 'Theme',
+      name: result.theme.name,
       colors: {
         primary: [],
         accent: [],
@@ -347,22 +563,27 @@ export class PPTXParser {
         text: []
       },
       fonts: {
-        major: { name: 'Arial' },
-        minor: { name: 'Arial' }
+        major: { name: fonts.majorFont.latin.typeface || 'Arial' },
+        minor: { name: fonts.minorFont.latin.typeface || 'Arial' }
       }
     }
   }
 
   private async parseMediaFile(mediaFile: JSZip.JSZipObject): Promise<MediaFile> {
     const fileData = await mediaFile.async('uint8array')
-    
+    // SVG передается как есть, метафайлы EMF/WMF преобразуются в SVG для векторного импорта
+    const vector = convertVectorMedia(mediaFile.name, fileData)
+    this.state.warnings.push(...vector.warnings)
+
     return {
       id: generateId(),
       name: mediaFile.name.split('/').pop() || 'unknown',
       type: this.getMediaType(mediaFile.name),
       src: mediaFile.name,
       size: fileData.length,
-      mimeType: this.getMimeType(mediaFile.name)
+      mimeType: this.getMimeType(mediaFile.name),
+      data: fileData,
+      svg: vector.svg
     }
   }
 
@@ -383,7 +604,7 @@ export class PPTXParser {
   private getMediaType(fileName: string): 'image' | 'video' | 'audio' {
     const ext = fileName.split('.').pop()?.toLowerCase()
     
-    if (['jpg', 'jpeg', 'png', 'gif', 'bmp', 'svg'].includes(ext || '')) {
+    if (['jpg', 'jpeg', 'png', 'gif', 'bmp', 'svg', 'emf', 'wmf'].includes(ext || '')) {
       return 'image'
     }
     
@@ -404,6 +625,8 @@ export class PPTXParser {
       'gif': 'image/gif',
       'bmp': 'image/bmp',
       'svg': 'image/svg+xml',
+      'emf': 'image/x-emf',
+      'wmf': 'image/x-wmf',
       'mp4': 'video/mp4',
       'avi': 'video/x-msvideo',
       'mov': 'video/quicktime',
@@ -424,13 +647,19 @@ export class PPTXParser {
     return { ...this.state }
   }
 
+  // Связи частей загруженной презентации
+  getRelationships(): RelationshipResolver {
+    return this.relationships
+  }
+
   /**
    * Маппинг слайда в доменные модели
    */
-  async mapSlide(slideXml: string, slideIndex: number, slideId: string, scale: number = 1.0) {
+  async mapSlide(slideXml: string, slideIndex: number, slideId: string, scale: number = 1.0, slidePath?: string) {
     try {
       const elementMapper = new ElementMapper();
-      const mappingResult = await elementMapper.mapSlide(slideXml, slideIndex, slideId, scale);
+      const slideRelationships = slidePath ? this.relationships.forPart(slidePath) : undefined;
+      const mappingResult = await elementMapper.mapSlide(slideXml, slideIndex, slideId, scale, slideRelationships);
       
       return {
         success: true,
@@ -0,0 +1,147 @@
+/**
+ * @file: PlaceholderResolver.ts
+ * @description: Поиск плейсхолдеров макета и мастер-слайда, от которых наследуются плейсхолдеры слайда
+ * @dependencies: xml/XMLParser, models
+ * @created: 2026-10-18
+ */
+
+import { XMLParser } from './xml/XMLParser'
+import type { MasterTextStyleCategory, PlaceholderInfo, PlaceholderType } from '../models'
+
+// Плейсхолдер макета или мастера вместе с исходным узлом p:sp
+export interface TemplatePlaceholder extends PlaceholderInfo {
+  shape: any
+}
+
+// Узлы p:nv*Pr, внутри которых лежит p:nvPr/p:ph
+const NON_VISUAL_PROPERTIES = ['p:nvSpPr', 'p:nvPicPr', 'p:nvGraphicFramePr', 'p:nvGrpSpPr', 'p:nvCxnSpPr']
+
+// Типы, которые на мастере представлены общим плейсхолдером
+const MASTER_PLACEHOLDER_TYPES: { [key: string]: PlaceholderType } = {
+  ctrTitle: 'title',
+  subTitle: 'body',
+  obj: 'body',
+  pic: 'body',
+  chart: 'body',
+  tbl: 'body',
+  dgm: 'body',
+  media: 'body',
+  clipArt: 'body'
+}
+
+export class PlaceholderResolver {
+  private layoutPlaceholders: TemplatePlaceholder[]
+  private masterPlaceholders: TemplatePlaceholder[]
+  private textStyles: any
+
+  constructor(layout?: any, master?: any) {
+    this.layoutPlaceholders = PlaceholderResolver.collect(layout)
+    this.masterPlaceholders = PlaceholderResolver.collect(master)
+    this.textStyles = XMLParser.getChild(master, 'p:txStyles')
+  }
+
+  // Плейсхолдер элемента дерева фигур (p:ph), если он есть
+  static getPlaceholder(node: any): PlaceholderInfo | undefined {
+    for (const key of NON_VISUAL_PROPERTIES) {
+      const nvPr = XMLParser.getChild(XMLParser.getChild(node, key), 'p:nvPr')
+      const ph = XMLParser.getChild(nvPr, 'p:ph')
+      if (ph === undefined) continue
+
+      // Тип по умолчанию по спецификации — obj
+      const type = (XMLParser.getAttribute(ph, 'type') || 'obj') as PlaceholderType
+      const idx = XMLParser.getAttribute(ph, 'idx')
+      return idx !== undefined ? { type, index: parseInt(idx, 10) } : { type }
+    }
+
+    return undefined
+  }
+
+  // Категория стилей текста p:txStyles мастера для типа плейсхолдера
+  static getTextStyleCategory(placeholder: PlaceholderInfo): MasterTextStyleCategory {
+    switch (placeholder.type) {
+      case 'title':
+      case 'ctrTitle':
+        return 'title'
+      case 'body':
+      case 'obj':
+      case 'subTitle':
+        return 'body'
+      default:
+        return 'other'
+    }
+  }
+
+  // Плейсхолдеры корня части (p:sldLayout или p:sldMaster)
+  static collect(root: any): TemplatePlaceholder[] {
+    const cSld = XMLParser.getChild(root, 'p:cSld')
+    const spTree = XMLParser.getChild(cSld, 'p:spTree')
+    const placeholders: TemplatePlaceholder[] = []
+
+    for (const shape of XMLParser.getChildren(spTree, 'p:sp')) {
+      const placeholder = this.getPlaceholder(shape)
+      if (placeholder) {
+        placeholders.push({ ...placeholder, shape })
+      }
+    }
+
+    return placeholders
+  }
+
+  // Цепочка фигур-источников для плейсхолдера слайда: сначала макет, затем мастер
+  getInheritedShapes(placeholder: PlaceholderInfo): any[] {
+    const shapes: any[] = []
+
+    const layoutPlaceholder = this.findLayoutPlaceholder(placeholder)
+    if (layoutPlaceholder) {
+      shapes.push(layoutPlaceholder.shape)
+    }
+
+    // Мастер сопоставляется по типу плейсхолдера макета, если он найден
+    const masterPlaceholder = this.findMasterPlaceholder(layoutPlaceholder || placeholder)
+    if (masterPlaceholder) {
+      shapes.push(masterPlaceholder.shape)
+    }
+
+    return shapes
+  }
+
+  // Списки стилей текста (a:lstStyle и p:txStyles) от низшего приоритета к высшему
+  getListStyles(placeholder: PlaceholderInfo): any[] {
+    const listStyles: any[] = []
+    const category = PlaceholderResolver.getTextStyleCategory(placeholder)
+    const masterStyle = XMLParser.getChild(this.textStyles, `p:${category}Style`)
+    if (masterStyle) {
+      listStyles.push(masterStyle)
+    }
+
+    for (const shape of this.getInheritedShapes(placeholder).reverse()) {
+      const lstStyle = XMLParser.getChild(XMLParser.getChild(shape, 'p:txBody'), 'a:lstStyle')
+      if (lstStyle) {
+        listStyles.push(lstStyle)
+      }
+    }
+
+    return listStyles
+  }
+
+  // Макет: сначала по idx, затем по типу
+  private findLayoutPlaceholder(placeholder: PlaceholderInfo): TemplatePlaceholder | undefined {
+    if (placeholder.index !== undefined) {
+      const byIndex = this.layoutPlaceholders.find(candidate => candidate.index === placeholder.index)
+      if (byIndex) return byIndex
+    }
+
+    return this.layoutPlaceholders.find(candidate => this.isSameType(candidate.type, placeholder.type))
+  }
+
+  // Мастер: по типу с приведением к общим плейсхолдерам title/body
+  private findMasterPlaceholder(placeholder: PlaceholderInfo): TemplatePlaceholder | undefined {
+    const type = MASTER_PLACEHOLDER_TYPES[placeholder.type] || placeholder.type
+    return this.masterPlaceholders.find(candidate => (MASTER_PLACEHOLDER_TYPES[candidate.type] || candidate.type) === type)
+  }
+
+  private isSameType(a: PlaceholderType, b: PlaceholderType): boolean {
+    const normalize = (type: PlaceholderType) => type === 'ctrTitle' ? 'title' : type
+    return normalize(a) === normalize(b)
+  }
+}
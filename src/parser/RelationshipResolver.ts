@@ -0,0 +1,143 @@
+/**
+ * @file: RelationshipResolver.ts
+ * @description: Загрузка всех частей _rels/*.rels и разрешение r:id в пути частей архива или внешние URL
+ * @dependencies: JSZip, xml/XMLParser, utils.ts
+ * @created: 2026-10-18
+ */
+
+import JSZip from 'jszip'
+import { XMLParser } from './xml/XMLParser'
+import { resolvePartPath } from './utils'
+
+export type RelationshipType =
+  | 'image'
+  | 'media'
+  | 'hyperlink'
+  | 'slide'
+  | 'slideLayout'
+  | 'slideMaster'
+  | 'theme'
+  | 'chart'
+  | 'tableStyles'
+  | 'notesSlide'
+  | 'other'
+
+export interface Relationship {
+  id: string
+  type: RelationshipType
+  rawType: string
+  target: string // путь части в архиве или внешний URL
+  external: boolean
+}
+
+// Связи одной части (слайда, макета, мастера, диаграммы)
+export interface PartRelationships {
+  partPath: string
+  get(relId: string): Relationship | undefined
+  getTarget(relId: string): string | undefined
+  getByType(type: RelationshipType): Relationship[]
+}
+
+// Последний сегмент URI типа связи → тип связи модели
+const RELATIONSHIP_TYPES: { [key: string]: RelationshipType } = {
+  image: 'image',
+  video: 'media',
+  audio: 'media',
+  media: 'media',
+  hyperlink: 'hyperlink',
+  slide: 'slide',
+  slideLayout: 'slideLayout',
+  slideMaster: 'slideMaster',
+  theme: 'theme',
+  chart: 'chart',
+  tableStyles: 'tableStyles',
+  notesSlide: 'notesSlide'
+}
+
+export class RelationshipResolver {
+  private parts: Map<string, Relationship[]> = new Map()
+  private xmlParser: XMLParser
+
+  constructor() {
+    this.xmlParser = new XMLParser({ parseAttributeValue: false })
+  }
+
+  // Загрузка всех .rels из архива
+  static async fromZip(zip: JSZip): Promise<RelationshipResolver> {
+    const resolver = new RelationshipResolver()
+    const relsFiles = Object.values(zip.files).filter(file => !file.dir && file.name.endsWith('.rels'))
+
+    for (const relsFile of relsFiles) {
+      resolver.addRelsPart(relsFile.name, await relsFile.async('string'))
+    }
+
+    return resolver
+  }
+
+  // Путь .rels для части: ppt/slides/slide1.xml → ppt/slides/_rels/slide1.xml.rels
+  static getRelsPath(partPath: string): string {
+    const separator = partPath.lastIndexOf('/')
+    const baseDir = separator >= 0 ? partPath.substring(0, separator + 1) : ''
+    return `${baseDir}_rels/${partPath.substring(separator + 1)}.rels`
+  }
+
+  // Регистрация содержимого одного .rels
+  addRelsPart(relsPath: string, xmlContent: string): void {
+    const partPath = this.getSourcePartPath(relsPath)
+    const baseDir = partPath.substring(0, partPath.lastIndexOf('/') + 1)
+    const data = this.xmlParser.parse(xmlContent)
+    const relationships: Relationship[] = []
+
+    for (const relationship of XMLParser.getChildren(data['Relationships'], 'Relationship')) {
+      const id = XMLParser.getAttribute(relationship, 'Id')
+      const target = XMLParser.getAttribute(relationship, 'Target')
+      if (!id || !target) continue
+
+      const rawType = XMLParser.getAttribute(relationship, 'Type') || ''
+      const external = XMLParser.getAttribute(relationship, 'TargetMode') === 'External'
+
+      relationships.push({
+        id,
+        type: RELATIONSHIP_TYPES[rawType.substring(rawType.lastIndexOf('/') + 1)] || 'other',
+        rawType,
+        target: external ? target : resolvePartPath(baseDir, target),
+        external
+      })
+    }
+
+    this.parts.set(partPath, relationships)
+  }
+
+  // Все связи части
+  getRelationships(partPath: string): Relationship[] {
+    return this.parts.get(partPath) || []
+  }
+
+  // Связь части по r:id
+  getRelationship(partPath: string, relId: string): Relationship | undefined {
+    return this.getRelationships(partPath).find(relationship => relationship.id === relId)
+  }
+
+  // Цель связи части по r:id
+  resolveTarget(partPath: string, relId: string): string | undefined {
+    return this.getRelationship(partPath, relId)?.target
+  }
+
+  // Представление связей одной части для парсеров
+  forPart(partPath: string): PartRelationships {
+    return {
+      partPath,
+      get: relId => this.getRelationship(partPath, relId),
+      getTarget: relId => this.resolveTarget(partPath, relId),
+      getByType: type => this.getRelationships(partPath).filter(relationship => relationship.type === type)
+    }
+  }
+
+  // Часть-источник для .rels: ppt/slides/_rels/slide1.xml.rels → ppt/slides/slide1.xml, _rels/.rels → ''
+  private getSourcePartPath(relsPath: string): string {
+    const fileName = relsPath.substring(relsPath.lastIndexOf('/') + 1).replace(/\.rels$/, '')
+    const relsDir = relsPath.substring(0, relsPath.lastIndexOf('/'))
+    const baseDir = relsDir.replace(/_rels$/, '')
+    return `${baseDir}${fileName}`
+  }
+}
@@ -1,10 +1,12 @@
 /**
  * @file: types.ts
  * @description: Типы для PPTX данных и парсера
- * @dependencies: Нет
+ * @dependencies: models/types.ts
  * @created: 2024-12-19
  */
 
+import type { Color as ModelColor, Element, MasterTextStyle, SlideBackground } from '../models/types'
+
 // Базовые типы PPTX
 export interface PPTXFile {
   fileName: string
@@ -14,6 +16,13 @@ export interface PPTXFile {
   themes: Theme[]
   media: MediaFile[]
   presentation: PresentationInfo
+  colorTheme?: ThemeColorPalette
+}
+
+// Цвета схемы основной темы для публикации в виде стилей Figma
+export interface ThemeColorPalette {
+  name: string // имя темы (a:theme@name)
+  colors: { [key: string]: ModelColor } // dk1, lt1, dk2, lt2, accent1-6, hlink, folHlink
 }
 
 export interface PresentationInfo {
@@ -26,29 +35,37 @@ export interface PresentationInfo {
   themeCount: number
 }
 
-// Слайды
+// Слайды (элементы и фон — доменные модели, которые строит SlideParser)
 export interface Slide {
   id: string
   name: string
   number: number
-  elements: SlideElement[]
-  background?: Background
-  masterSlideId?: string
+  elements: Element[]
+  background?: SlideBackground
+  masterSlideId?: string // путь части мастер-слайда
+  layoutId?: string // путь части макета
+  showMasterShapes?: boolean
   layout?: string
 }
 
 export interface MasterSlide {
-  id: string
+  id: string // путь части мастер-слайда
   name: string
-  elements: SlideElement[]
-  background?: Background
+  number: number
+  elements: Element[] // декоративные элементы без плейсхолдеров
+  background?: SlideBackground
   layouts: Layout[]
+  textStyles: MasterTextStyle[] // стили текста p:txStyles
 }
 
 export interface Layout {
-  id: string
+  id: string // путь части макета
   name: string
-  elements: SlideElement[]
+  number: number
+  elements: Element[]
+  background?: SlideBackground
+  masterSlideId?: string
+  showMasterShapes?: boolean
 }
 
 // Элементы слайда
@@ -191,6 +208,8 @@ export interface MediaFile {
   src: string
   size: number
   mimeType: string
+  data?: Uint8Array
+  svg?: string // SVG-файл или метафайл EMF/WMF, преобразованный в SVG
 }
 
 // Единицы измерения
@@ -148,6 +148,24 @@ export function isValidPPTXFile(fileName: string): boolean {
   return getFileExtension(fileName) === 'pptx'
 }
 
+// Разрешение относительного пути из .rels относительно папки части (например, ppt/slides/)
+export function resolvePartPath(baseDir: string, target: string): string {
+  if (target.startsWith('/')) {
+    return target.slice(1)
+  }
+
+  const segments = baseDir.split('/').filter(Boolean)
+  for (const segment of target.split('/')) {
+    if (segment === '..') {
+      segments.pop()
+    } else if (segment !== '.' && segment !== '') {
+      segments.push(segment)
+    }
+  }
+
+  return segments.join('/')
+}
+
 // Генерация ID
 export function generateId(): string {
   return Math.random().toString(36).substr(2, 9)
@@ -0,0 +1,143 @@
+/**
+ * @file: AutoNumber.ts
+ * @description: Номера абзацев по схемам автонумерации a:buAutoNum (ECMA-376, 20.1.10.61 ST_TextAutonumberScheme)
+ * @dependencies: нет
+ * @created: 2026-10-18
+ */
+
+// Схема, для которой нет отдельного правила, нумеруется как arabicPeriod
+export const DEFAULT_AUTONUMBER_SCHEME = 'arabicPeriod'
+
+const ROMAN_NUMERALS: Array<[number, string]> = [
+  [1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'],
+  [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i']
+]
+
+// Алфавиты схем arabic1Minus (AraAlpha), arabic2Minus (AraAbjad) и hebrew2Minus
+const ARABIC_ALPHA = 'أبتثجحخدذرزسشصضطظعغفقكلمنهوي'
+const ARABIC_ABJAD = 'أبجدهوزحطيكلمنسعفصقرشتثخذضظغ'
+const HEBREW_ALPHA = 'אבגדהוזחטיכלמנסעפצקרשת'
+const CJK_DIGITS = '一二三四五六七八九'
+
+// Номер абзаца в системе счисления схемы
+const NUMBERINGS: { [numbering: string]: (number: number) => string } = {
+  alphaLc: number => toLetters(number, 'abcdefghijklmnopqrstuvwxyz'),
+  alphaUc: number => toLetters(number, 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'),
+  arabic: number => String(number),
+  arabicDb: number => toDigits(number, 0xFF10),
+  romanLc: number => toRoman(number),
+  romanUc: number => toRoman(number).toUpperCase(),
+  circleNumWdWhite: number => number >= 1 && number <= 20 ? String.fromCharCode(0x2460 + number - 1) : String(number),
+  circleNumWdBlack: number => {
+    if (number >= 1 && number <= 10) return String.fromCharCode(0x2776 + number - 1)
+    if (number >= 11 && number <= 20) return String.fromCharCode(0x24EB + number - 11)
+    return String(number)
+  },
+  arabic1: number => toLetters(number, ARABIC_ALPHA),
+  arabic2: number => toLetters(number, ARABIC_ABJAD),
+  hebrew2: number => toLetters(number, HEBREW_ALPHA),
+  thaiNum: number => toDigits(number, 0x0E50),
+  hindiNum: number => toDigits(number, 0x0966),
+  ea1: number => toCjkNumber(number)
+}
+
+// Обрамление номера
+const DECORATIONS: { [decoration: string]: (value: string) => string } = {
+  ParenBoth: value => `(${value})`,
+  ParenR: value => `${value})`,
+  Period: value => `${value}.`,
+  DbPeriod: value => `${value}．`, // полноширинная точка восточноазиатских схем
+  Plain: value => value,
+  Minus: value => `${value} -` // знак минус после номера; в тексте справа налево он оказывается слева
+}
+
+// Схемы ST_TextAutonumberScheme: нумерация и обрамление. Буквы тайского алфавита и деванагари
+// заменяются латинскими с тем же обрамлением
+const SCHEMES: { [scheme: string]: [string, string] } = {
+  alphaLcParenBoth: ['alphaLc', 'ParenBoth'],
+  alphaUcParenBoth: ['alphaUc', 'ParenBoth'],
+  alphaLcParenR: ['alphaLc', 'ParenR'],
+  alphaUcParenR: ['alphaUc', 'ParenR'],
+  alphaLcPeriod: ['alphaLc', 'Period'],
+  alphaUcPeriod: ['alphaUc', 'Period'],
+  arabicParenBoth: ['arabic', 'ParenBoth'],
+  arabicParenR: ['arabic', 'ParenR'],
+  arabicPeriod: ['arabic', 'Period'],
+  arabicPlain: ['arabic', 'Plain'],
+  romanLcParenBoth: ['romanLc', 'ParenBoth'],
+  romanUcParenBoth: ['romanUc', 'ParenBoth'],
+  romanLcParenR: ['romanLc', 'ParenR'],
+  romanUcParenR: ['romanUc', 'ParenR'],
+  romanLcPeriod: ['romanLc', 'Period'],
+  romanUcPeriod: ['romanUc', 'Period'],
+  circleNumDbPlain: ['circleNumWdWhite', 'Plain'],
+  circleNumWdBlackPlain: ['circleNumWdBlack', 'Plain'],
+  circleNumWdWhitePlain: ['circleNumWdWhite', 'Plain'],
+  arabicDbPeriod: ['arabicDb', 'DbPeriod'],
+  arabicDbPlain: ['arabicDb', 'Plain'],
+  ea1ChsPeriod: ['ea1', 'Period'],
+  ea1ChsPlain: ['ea1', 'Plain'],
+  ea1ChtPeriod: ['ea1', 'Period'],
+  ea1ChtPlain: ['ea1', 'Plain'],
+  ea1JpnChsDbPeriod: ['ea1', 'DbPeriod'],
+  ea1JpnKorPlain: ['ea1', 'Plain'],
+  ea1JpnKorPeriod: ['ea1', 'Period'],
+  arabic1Minus: ['arabic1', 'Minus'],
+  arabic2Minus: ['arabic2', 'Minus'],
+  hebrew2Minus: ['hebrew2', 'Minus'],
+  thaiAlphaPeriod: ['alphaLc', 'Period'],
+  thaiAlphaParenR: ['alphaLc', 'ParenR'],
+  thaiAlphaParenBoth: ['alphaLc', 'ParenBoth'],
+  thaiNumPeriod: ['thaiNum', 'Period'],
+  thaiNumParenR: ['thaiNum', 'ParenR'],
+  thaiNumParenBoth: ['thaiNum', 'ParenBoth'],
+  hindiAlphaPeriod: ['alphaLc', 'Period'],
+  hindiNumPeriod: ['hindiNum', 'Period'],
+  hindiNumParenR: ['hindiNum', 'ParenR'],
+  hindiAlpha1Period: ['alphaLc', 'Period']
+}
+
+// Есть ли у схемы правило нумерации; остальные схемы нумеруются как DEFAULT_AUTONUMBER_SCHEME
+export function isSupportedAutoNumberScheme(scheme: string): boolean {
+  return Object.prototype.hasOwnProperty.call(SCHEMES, scheme)
+}
+
+// Текст номера для схемы и порядкового номера абзаца
+export function formatAutoNumber(scheme: string, number: number): string {
+  const [numbering, decoration] = SCHEMES[isSupportedAutoNumberScheme(scheme) ? scheme : DEFAULT_AUTONUMBER_SCHEME]
+  return DECORATIONS[decoration](NUMBERINGS[numbering](number))
+}
+
+// Буквенная нумерация PowerPoint: a … z, затем aa … zz, aaa … (и так же в других алфавитах)
+function toLetters(number: number, alphabet: string): string {
+  if (number < 1) return String(number)
+  const letter = alphabet.charAt((number - 1) % alphabet.length)
+  return new Array(Math.floor((number - 1) / alphabet.length) + 2).join(letter)
+}
+
+function toRoman(number: number): string {
+  if (number < 1 || number > 3999) return String(number)
+  let rest = number
+  let result = ''
+  for (const [value, numeral] of ROMAN_NUMERALS) {
+    while (rest >= value) {
+      result += numeral
+      rest -= value
+    }
+  }
+  return result
+}
+
+// Цифры национальной системы: полноширинные, тайские, деванагари; zero — код символа нуля
+function toDigits(number: number, zero: number): string {
+  return String(number).replace(/[0-9]/g, digit => String.fromCharCode(zero + Number(digit)))
+}
+
+// Китайские цифры схем ea1*: 一 … 九十九; больше 99 — арабские цифры
+function toCjkNumber(number: number): string {
+  if (number < 1 || number > 99) return String(number)
+  const tens = Math.floor(number / 10)
+  const units = number % 10
+  const tensText = tens === 0 ? '' : `${tens > 1 ? CJK_DIGITS.charAt(tens - 1) : ''}十`
+  return tensText + (units ? CJK_DIGITS.charAt(units - 1) : '')
+}
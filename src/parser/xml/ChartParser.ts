@@ -0,0 +1,240 @@
+/**
+ * @file: ChartParser.ts
+ * @description: Парсер для chart*.xml файлов (DrawingML Charts)
+ * @dependencies: XMLParser, models
+ * @created: 2026-10-18
+ */
+
+import { XMLParser } from './XMLParser'
+import { ModelFactories, ChartElement, ChartSeries, ChartLegend } from '../../models'
+
+export interface ChartData {
+  chartType: ChartElement['chartType']
+  barDirection: ChartElement['barDirection']
+  grouping: ChartElement['grouping']
+  title?: string
+  categories: string[]
+  series: ChartSeries[]
+  legend?: ChartLegend
+  warnings: string[]
+}
+
+// Соответствие элементов plotArea типам диаграмм доменной модели
+const PLOT_TYPES: { [key: string]: ChartElement['chartType'] } = {
+  'c:barChart': 'bar',
+  'c:bar3DChart': 'bar',
+  'c:lineChart': 'line',
+  'c:line3DChart': 'line',
+  'c:areaChart': 'area',
+  'c:area3DChart': 'area',
+  'c:pieChart': 'pie',
+  'c:pie3DChart': 'pie',
+  'c:ofPieChart': 'pie',
+  'c:doughnutChart': 'doughnut',
+  'c:scatterChart': 'scatter'
+}
+
+// Типы, которые не рендерятся векторами и уходят в кэшированное изображение
+const UNSUPPORTED_PLOT_TYPES = [
+  'c:radarChart',
+  'c:bubbleChart',
+  'c:stockChart',
+  'c:surfaceChart',
+  'c:surface3DChart'
+]
+
+export class ChartParser {
+  private xmlParser: XMLParser
+
+  constructor() {
+    // Значения c:v должны оставаться строками: категории вида "2024" не должны превращаться в числа
+    this.xmlParser = new XMLParser({ parseAttributeValue: false, parseTagValue: false })
+  }
+
+  // Парсинг chart*.xml
+  parse(xmlContent: string): ChartData {
+    const data = this.xmlParser.parse(xmlContent)
+    const chartSpace = data['c:chartSpace']
+
+    if (!chartSpace) {
+      throw new Error('Invalid chart.xml structure: missing c:chartSpace element')
+    }
+
+    const chart = XMLParser.getChild(chartSpace, 'c:chart') || {}
+    const plotArea = XMLParser.getChild(chart, 'c:plotArea') || {}
+    const warnings: string[] = []
+
+    const plotTypes = Object.keys(plotArea).filter(key => key in PLOT_TYPES || UNSUPPORTED_PLOT_TYPES.includes(key))
+    if (plotTypes.length === 0) {
+      return this.createUnsupported(chart, warnings)
+    }
+    if (plotTypes.length > 1) {
+      warnings.push(`Комбинированная диаграмма: используется только ${plotTypes[0]}`)
+    }
+
+    const plotKey = plotTypes[0]
+    const chartType = PLOT_TYPES[plotKey] || 'unsupported'
+    // Берём первый экземпляр типа, если один тип встречается несколько раз (вторичная ось)
+    const plot = XMLParser.getChildren(plotArea, plotKey)[0] || {}
+
+    if (chartType === 'unsupported') {
+      warnings.push(`Тип диаграммы ${plotKey} не поддерживается`)
+      return this.createUnsupported(chart, warnings)
+    }
+
+    const rawSeries = XMLParser.getChildren(plot, 'c:ser')
+    const series = rawSeries.map((ser: any, index: number) => this.parseSeries(ser, index, chartType))
+    const categories = rawSeries.length > 0 ? this.parseCategories(rawSeries[0], chartType) : []
+
+    return {
+      chartType,
+      barDirection: XMLParser.getAttribute(XMLParser.getChild(plot, 'c:barDir'), 'val') === 'bar' ? 'bar' : 'column',
+      grouping: this.parseGrouping(plot),
+      title: this.parseTitle(chart),
+      categories,
+      series,
+      legend: this.parseLegend(chart),
+      warnings
+    }
+  }
+
+  // Данные для диаграммы, которая будет заменена изображением
+  private createUnsupported(chart: any, warnings: string[]): ChartData {
+    return {
+      chartType: 'unsupported',
+      barDirection: 'column',
+      grouping: 'standard',
+      title: this.parseTitle(chart),
+      categories: [],
+      series: [],
+      warnings
+    }
+  }
+
+  // Парсинг серии (c:ser)
+  private parseSeries(ser: any, index: number, chartType: ChartElement['chartType']): ChartSeries {
+    const name = this.parseSeriesName(ser) || `Series ${index + 1}`
+    // У точечных диаграмм значения лежат в c:yVal вместо c:val
+    const valueNode = chartType === 'scatter' ? XMLParser.getChild(ser, 'c:yVal') : XMLParser.getChild(ser, 'c:val')
+    const values = this.parseNumberCache(valueNode)
+
+    const spPr = XMLParser.getChild(ser, 'c:spPr')
+    // Для линий цвет серии задаётся обводкой, для остальных типов — заливкой
+    const solidFill = chartType === 'line'
+      ? XMLParser.getChild(XMLParser.getChild(spPr, 'a:ln'), 'a:solidFill')
+      : XMLParser.getChild(spPr, 'a:solidFill')
+    const color = solidFill ? XMLParser.getColor(solidFill) : undefined
+
+    return ModelFactories.createChartSeries(name, values, color ? { color } : {})
+  }
+
+  // Название серии из c:tx (ссылка на ячейку с кэшем или литерал)
+  private parseSeriesName(ser: any): string | undefined {
+    const tx = XMLParser.getChild(ser, 'c:tx')
+    if (!tx) return undefined
+
+    const literal = XMLParser.getChild(tx, 'c:v')
+    if (literal !== undefined) {
+      return XMLParser.getTextContent(literal)
+    }
+
+    const cached = this.parseStringCache(tx)
+    return cached[0]
+  }
+
+  // Категории из c:cat (или c:xVal для точечных диаграмм)
+  private parseCategories(ser: any, chartType: ChartElement['chartType']): string[] {
+    const cat = chartType === 'scatter' ? XMLParser.getChild(ser, 'c:xVal') : XMLParser.getChild(ser, 'c:cat')
+    if (!cat) return []
+
+    if (XMLParser.hasElement(cat, 'c:numRef') || XMLParser.hasElement(cat, 'c:numLit')) {
+      return this.parseNumberCache(cat).map(value => String(value))
+    }
+
+    return this.parseStringCache(cat)
+  }
+
+  // Строковый кэш: c:strRef/c:strCache, c:strLit или нижний уровень c:multiLvlStrRef
+  private parseStringCache(node: any): string[] {
+    const strRef = XMLParser.getChild(node, 'c:strRef')
+    const multiLvl = XMLParser.getChild(node, 'c:multiLvlStrRef')
+    let cache = XMLParser.getChild(strRef, 'c:strCache') || XMLParser.getChild(node, 'c:strLit')
+
+    if (!cache && multiLvl) {
+      const multiCache = XMLParser.getChild(multiLvl, 'c:multiLvlStrCache')
+      cache = XMLParser.getChildren(multiCache, 'c:lvl')[0]
+    }
+
+    return this.readPoints(cache).map(value => value ?? '')
+  }
+
+  // Числовой кэш: c:numRef/c:numCache или c:numLit
+  private parseNumberCache(node: any): number[] {
+    const numRef = XMLParser.getChild(node, 'c:numRef')
+    const cache = XMLParser.getChild(numRef, 'c:numCache') || XMLParser.getChild(node, 'c:numLit')
+
+    return this.readPoints(cache).map(value => {
+      const number = value === undefined ? NaN : parseFloat(value)
+      return isNaN(number) ? 0 : number
+    })
+  }
+
+  // Чтение точек c:pt по индексам с учётом пропусков до c:ptCount
+  private readPoints(cache: any): Array<string | undefined> {
+    if (!cache) return []
+
+    const points = XMLParser.getChildren(cache, 'c:pt')
+    const count = XMLParser.getNumberAttribute(XMLParser.getChild(cache, 'c:ptCount'), 'val', points.length)
+    const result: Array<string | undefined> = new Array(count).fill(undefined)
+
+    for (const point of points) {
+      const index = XMLParser.getNumberAttribute(point, 'idx', -1)
+      if (index >= 0 && index < count) {
+        result[index] = XMLParser.getTextContent(XMLParser.getChild(point, 'c:v'))
+      }
+    }
+
+    return result
+  }
+
+  // Группировка серий (c:grouping)
+  private parseGrouping(plot: any): ChartElement['grouping'] {
+    const grouping = XMLParser.getAttribute(XMLParser.getChild(plot, 'c:grouping'), 'val')
+    switch (grouping) {
+      case 'stacked': return 'stacked'
+      case 'percentStacked': return 'percentStacked'
+      case 'clustered': return 'clustered'
+      default: return 'standard'
+    }
+  }
+
+  // Заголовок диаграммы из c:title/c:tx/c:rich
+  private parseTitle(chart: any): string | undefined {
+    const autoTitleDeleted = XMLParser.getAttribute(XMLParser.getChild(chart, 'c:autoTitleDeleted'), 'val')
+    const title = XMLParser.getChild(chart, 'c:title')
+    if (!title || autoTitleDeleted === '1') return undefined
+
+    const rich = XMLParser.getChild(XMLParser.getChild(title, 'c:tx'), 'c:rich')
+    const text = XMLParser.getChildren(rich, 'a:p')
+      .map((paragraph: any) => XMLParser.getChildren(paragraph, 'a:r')
+        .map((run: any) => XMLParser.getTextContent(XMLParser.getChild(run, 'a:t')))
+        .join(''))
+      .join('\n')
+
+    return text || undefined
+  }
+
+  // Легенда (c:legend/c:legendPos)
+  private parseLegend(chart: any): ChartLegend | undefined {
+    const legend = XMLParser.getChild(chart, 'c:legend')
+    if (legend === undefined) return undefined
+
+    const position = XMLParser.getAttribute(XMLParser.getChild(legend, 'c:legendPos'), 'val')
+    switch (position) {
+      case 't': return { position: 'top' }
+      case 'l': return { position: 'left' }
+      case 'b': return { position: 'bottom' }
+      default: return { position: 'right' }
+    }
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * @file: GeometryParser.ts
+ * @description: Парсер геометрии фигур: пользовательской (a:custGeom) и предустановленной (a:prstGeom) в контуры SVG
+ * @dependencies: XMLParser, GuideEvaluator, models
+ * @created: 2026-10-18
+ */
+
+import { XMLParser } from './XMLParser'
+import { PresetPathDefinition } from './presetShapeDefinitions'
+import { EvaluatedPath, GuideEvaluator, Guides, flipCommands, toPathData } from '../GuideEvaluator'
+import { ShapePath, Size } from '../../models'
+
+// Команды контура a:path и их буквы в PresetPathDefinition.commands
+const PATH_COMMANDS: { [name: string]: string } = {
+  'a:moveTo': 'M',
+  'a:lnTo': 'L',
+  'a:cubicBezTo': 'C',
+  'a:quadBezTo': 'Q',
+  'a:arcTo': 'A',
+  'a:close': 'Z'
+}
+
+export class GeometryParser {
+  private warnings: string[] = []
+
+  // Нумерация команд контуров в исходном XML до разбора, чтобы восстановить их порядок
+  static markPathOrder(xmlContent: string): string {
+    return XMLParser.markOrder(xmlContent, Object.keys(PATH_COMMANDS))
+  }
+
+  // Есть ли определение предустановленной фигуры
+  static hasPreset(prst: string | undefined): boolean {
+    return GuideEvaluator.hasPreset(prst)
+  }
+
+  // Предупреждения последнего разбора (неизвестные направляющие, пустые контуры)
+  getWarnings(): string[] {
+    return this.warnings
+  }
+
+  // Контуры a:custGeom в пикселях относительно левого верхнего угла фигуры размера size.
+  // Формулы a:avLst и a:gdLst вычисляются по порядку, точки контуров могут ссылаться на них
+  parseCustomGeometry(custGeom: any, size: Size): ShapePath[] {
+    const evaluator = new GuideEvaluator(size)
+    evaluator.evaluateGuides([
+      ...this.readGuideList(XMLParser.getChild(custGeom, 'a:avLst')),
+      ...this.readGuideList(XMLParser.getChild(custGeom, 'a:gdLst'))
+    ])
+
+    const pathLst = XMLParser.getChild(custGeom, 'a:pathLst')
+    const paths = XMLParser.getChildren(pathLst, 'a:path').map((path: any) => evaluator.evaluatePath(this.readPath(path)))
+    this.warnings = evaluator.getWarnings()
+
+    return this.toShapePaths(paths)
+  }
+
+  // Контуры a:prstGeom по определению предустановленной фигуры с корректировками из a:avLst,
+  // с отражением внутри рамки фигуры. Для неизвестной фигуры возвращает пустой список
+  parsePresetGeometry(prstGeom: any, size: Size, flipH = false, flipV = false): ShapePath[] {
+    const prst = XMLParser.getAttribute(prstGeom, 'prst') || ''
+    const { paths, warnings } = GuideEvaluator.evaluatePreset(prst, size, this.readAdjustments(prstGeom, size))
+    this.warnings = warnings
+
+    return this.toShapePaths(paths.map(path => ({ ...path, commands: flipCommands(path.commands, size, flipH, flipV) })))
+  }
+
+  // Значения корректировок a:avLst фигуры (обычно fmla="val N")
+  private readAdjustments(prstGeom: any, size: Size): Guides {
+    const evaluator = new GuideEvaluator(size)
+    const adjustments: Guides = {}
+
+    for (const [name, formula] of this.readGuideList(XMLParser.getChild(prstGeom, 'a:avLst'))) {
+      adjustments[name] = evaluator.evaluateFormula(formula)
+    }
+
+    return adjustments
+  }
+
+  // Пары имя — формула из a:gd
+  private readGuideList(list: any): Array<[string, string]> {
+    return XMLParser.getChildren(list, 'a:gd')
+      .map((gd: any): [string, string] => [XMLParser.getAttribute(gd, 'name') || '', XMLParser.getAttribute(gd, 'fmla') || ''])
+      .filter(([name, formula]) => name !== '' && formula !== '')
+  }
+
+  // Контур a:path в виде команд PresetPathDefinition
+  private readPath(path: any): PresetPathDefinition {
+    const fill = XMLParser.getAttribute(path, 'fill')
+    const commands = this.getOrderedCommands(path).map(({ name, node }) => {
+      if (name === 'a:arcTo') {
+        return ['A', ...['wR', 'hR', 'stAng', 'swAng'].map(attribute => XMLParser.getAttribute(node, attribute) || '0')].join(' ')
+      }
+      const points = XMLParser.getChildren(node, 'a:pt')
+        .map((pt: any) => `${XMLParser.getAttribute(pt, 'x') || '0'} ${XMLParser.getAttribute(pt, 'y') || '0'}`)
+      return [PATH_COMMANDS[name], ...points].join(' ')
+    })
+
+    return {
+      w: XMLParser.getNumberAttribute(path, 'w', 0) || undefined,
+      h: XMLParser.getNumberAttribute(path, 'h', 0) || undefined,
+      fill: fill === 'none' ? 'none' : undefined,
+      stroke: XMLParser.getBooleanAttribute(path, 'stroke', true),
+      commands
+    }
+  }
+
+  // Команды контура в порядке следования в документе
+  private getOrderedCommands(path: any): Array<{ name: string; node: any }> {
+    return XMLParser.getOrderedChildren(path, Object.keys(PATH_COMMANDS))
+  }
+
+  private toShapePaths(paths: Array<EvaluatedPath | null>): ShapePath[] {
+    return paths
+      .filter((path: EvaluatedPath | null): path is EvaluatedPath => path !== null)
+      .map(path => ({ data: toPathData(path.commands), fill: path.fill, stroke: path.stroke }))
+  }
+}
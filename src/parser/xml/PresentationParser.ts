@@ -25,30 +25,31 @@ export class PresentationParser {
   private xmlParser: XMLParser
 
   constructor() {
-    this.xmlParser = new XMLParser()
+    this.xmlParser = new XMLParser({ parseAttributeValue: false })
   }
 
   // Парсинг presentation.xml
   parse(xmlContent: string): PresentationInfo {
     try {
       const data = this.xmlParser.parse(xmlContent)
-      const presentation = data.presentation
+      // fast-xml-parser сохраняет префиксы пространств имен
+      const presentation = data['p:presentation']
 
       if (!presentation) {
         throw new Error('Invalid presentation.xml structure: missing presentation element')
       }
 
       // Парсинг размера слайдов
-      const slideSize = this.parseSlideSize(presentation.sldSz)
+      const slideSize = this.parseSlideSize(XMLParser.getChild(presentation, 'p:sldSz'))
 
       // Парсинг списка слайдов
-      const slideIds = this.parseSlideIds(presentation.sldIdLst)
+      const slideIds = this.parseSlideIds(XMLParser.getChild(presentation, 'p:sldIdLst'))
 
       // Парсинг списка мастер-слайдов
-      const masterIds = this.parseMasterIds(presentation.sldMasterIdLst)
+      const masterIds = this.parseMasterIds(XMLParser.getChild(presentation, 'p:sldMasterIdLst'))
 
       // Парсинг списка тем
-      const themeIds = this.parseThemeIds(presentation.themeIdLst)
+      const themeIds = this.parseThemeIds(XMLParser.getChild(presentation, 'p:themeIdLst'))
 
       return {
         slideCount: slideIds.length,
@@ -83,11 +84,11 @@ export class PresentationParser {
 
   // Парсинг списка ID слайдов
   private parseSlideIds(sldIdLst: any): string[] {
-    if (!sldIdLst || !sldIdLst.sldId) {
+    if (!XMLParser.hasElement(sldIdLst, 'p:sldId')) {
       return []
     }
 
-    const slideIds = XMLParser.getChildren(sldIdLst, 'sldId')
+    const slideIds = XMLParser.getChildren(sldIdLst, 'p:sldId')
     return slideIds.map((slideId: any) => {
       const id = XMLParser.getAttribute(slideId, 'id')
       const rid = XMLParser.getAttribute(slideId, 'r:id')
@@ -97,11 +98,11 @@ export class PresentationParser {
 
   // Парсинг списка ID мастер-слайдов
   private parseMasterIds(sldMasterIdLst: any): string[] {
-    if (!sldMasterIdLst || !sldMasterIdLst.sldMasterId) {
+    if (!XMLParser.hasElement(sldMasterIdLst, 'p:sldMasterId')) {
       return []
     }
 
-    const masterIds = XMLParser.getChildren(sldMasterIdLst, 'sldMasterId')
+    const masterIds = XMLParser.getChildren(sldMasterIdLst, 'p:sldMasterId')
     return masterIds.map((masterId: any) => {
       const id = XMLParser.getAttribute(masterId, 'id')
       const rid = XMLParser.getAttribute(masterId, 'r:id')
@@ -111,11 +112,11 @@ export class PresentationParser {
 
   // Парсинг списка ID тем
   private parseThemeIds(themeIdLst: any): string[] {
-    if (!themeIdLst || !themeIdLst.themeId) {
+    if (!XMLParser.hasElement(themeIdLst, 'p:themeId')) {
       return []
     }
 
-    const themeIds = XMLParser.getChildren(themeIdLst, 'themeId')
+    const themeIds = XMLParser.getChildren(themeIdLst, 'p:themeId')
     return themeIds.map((themeId: any) => {
       const id = XMLParser.getAttribute(themeId, 'id')
       const rid = XMLParser.getAttribute(themeId, 'r:id')
@@ -188,15 +189,15 @@ export class PresentationParser {
 
   // Валидация структуры presentation.xml
   validateStructure(data: any): boolean {
-    if (!data || !data.presentation) {
-      console.error('Invalid presentation.xml: missing presentation element')
+    if (!data || !data['p:presentation']) {
+      console.error('Invalid presentation.xml: missing p:presentation element')
       return false
     }
 
-    const presentation = data.presentation
+    const presentation = data['p:presentation']
 
     // Проверяем обязательные элементы
-    const requiredElements = ['sldIdLst']
+    const requiredElements = ['p:sldIdLst']
     for (const element of requiredElements) {
       if (!XMLParser.hasElement(presentation, element)) {
         console.warn(`Missing required element in presentation.xml: ${element}`)
@@ -210,16 +211,17 @@ export class PresentationParser {
   logStructure(data: any): void {
     console.log('=== Presentation.xml Structure ===')
     
-    if (data && data.presentation) {
-      const presentation = data.presentation
+    if (data && data['p:presentation']) {
+      const presentation = data['p:presentation']
+      const sldIdLst = XMLParser.getChild(presentation, 'p:sldIdLst')
       
-      console.log('Slide Size:', this.parseSlideSize(presentation.sldSz))
-      console.log('Slide Count:', this.parseSlideIds(presentation.sldIdLst).length)
-      console.log('Master Count:', this.parseMasterIds(presentation.sldMasterIdLst).length)
-      console.log('Theme Count:', this.parseThemeIds(presentation.themeIdLst).length)
+      console.log('Slide Size:', this.parseSlideSize(XMLParser.getChild(presentation, 'p:sldSz')))
+      console.log('Slide Count:', this.parseSlideIds(sldIdLst).length)
+      console.log('Master Count:', this.parseMasterIds(XMLParser.getChild(presentation, 'p:sldMasterIdLst')).length)
+      console.log('Theme Count:', this.parseThemeIds(XMLParser.getChild(presentation, 'p:themeIdLst')).length)
       
-      if (presentation.sldIdLst && presentation.sldIdLst.sldId) {
-        console.log('Slide IDs:', this.parseSlideIds(presentation.sldIdLst))
+      if (XMLParser.hasElement(sldIdLst, 'p:sldId')) {
+        console.log('Slide IDs:', this.parseSlideIds(sldIdLst))
       }
     }
     
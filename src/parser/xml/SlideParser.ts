@@ -7,7 +7,14 @@
 
 import { XMLParser } from './XMLParser'
 import { TextParser } from './TextParser'
-import { ModelFactories, Element, TextElement, ShapeElement, ImageElement, GroupElement, LineElement } from '../../models'
+import { GeometryParser } from './GeometryParser'
+import { ChartData } from './ChartParser'
+import { TableStyleParser, TableStyles, TableStyleDefinition, TableStylePartName, TABLE_STYLE_PARTS } from './TableStyleParser'
+import { ModelFactories, EMU_CONSTANTS, Element, TextElement, ShapeElement, ImageElement, GroupElement, LineElement, TableElement, TableRow, TableCell, TableCellBorders, StrokeStyle, ChartElement, Color, ColorScheme, FontScheme, FillStyle, GradientStop, MasterTextStyle, PlaceholderInfo, Point, Size, LineEnd, LineEndType, LineEndSize, ConnectionSite, Orientation, TextInsets, TextDirection, ImagePlacement, ImageInsets, ImageTile, ImageAdjustments } from '../../models'
+import { ThemeCache } from '../../models/ThemeCache'
+import { PlaceholderResolver } from '../PlaceholderResolver'
+import { GroupTransformer } from '../GroupTransform'
+import type { PartRelationships } from '../RelationshipResolver'
 
 export interface SlideData {
   id: string
@@ -18,22 +25,62 @@ export interface SlideData {
   layout: any
   masterSlideId?: string
   layoutId?: string
+  showMasterShapes?: boolean
+  textStyles?: MasterTextStyle[] // только для мастер-слайда
 }
 
+// Внешние части слайда, которые нужно подготовить заранее (по r:id из .rels)
+export interface SlideParseContext {
+  relationships?: PartRelationships // разрешение r:id в пути частей архива и внешние URL
+  charts?: { [relId: string]: ChartData }
+  themeCache?: ThemeCache // разрешение a:schemeClr по цветовой схеме темы
+  colorScheme?: ColorScheme
+  fontScheme?: FontScheme // разрешение ссылок на шрифты темы (+mj-lt, +mn-lt)
+  placeholders?: PlaceholderResolver // наследование плейсхолдеров от макета и мастера
+  masterTextStyles?: MasterTextStyle[] // стили текста мастера для привязки runs плейсхолдеров
+  tableStyles?: TableStyles // стили таблиц ppt/tableStyles.xml по GUID
+}
+
+// Оформление ячейки по стилю таблицы: заливка, границы и свойства текста (a:defRPr)
+interface TableCellStyle {
+  fill?: FillStyle
+  borders: TableCellBorders
+  textProperties?: any
+}
+
+// Узлы заливки в spPr
+const FILL_ELEMENTS = ['a:noFill', 'a:solidFill', 'a:gradFill', 'a:blipFill', 'a:pattFill', 'a:grpFill']
+// Элементы дерева фигур p:spTree
+const SHAPE_TREE_ELEMENTS = ['p:sp', 'p:cxnSp', 'p:grpSp', 'p:pic', 'p:graphicFrame', 'mc:AlternateContent']
+// Толщина линий a:lnStyleLst темы Office по умолчанию (EMU) для ссылок p:style/a:lnRef
+const THEME_LINE_WIDTHS = [6350, 12700, 19050]
+// Типы наконечников линий (ST_LineEndType)
+const LINE_END_TYPES: LineEndType[] = ['triangle', 'stealth', 'diamond', 'oval', 'arrow']
+// Варианты авто-подгонки текста в a:bodyPr
+const AUTOFIT_ELEMENTS = ['a:noAutofit', 'a:normAutofit', 'a:spAutoFit']
+// Поля текстового блока по умолчанию (EMU)
+const DEFAULT_TEXT_INSETS = { horizontal: 91440, vertical: 45720 }
+// Цвет текста в a:tcTxStyle стиля таблицы
+const TABLE_TEXT_COLOR_ELEMENTS = ['a:schemeClr', 'a:srgbClr', 'a:sysClr']
+
 export class SlideParser {
   private xmlParser: XMLParser
   private textParser: TextParser
+  private context: SlideParseContext = {}
+  private skipPlaceholders = false
 
   constructor() {
-    this.xmlParser = new XMLParser()
+    this.xmlParser = new XMLParser({ parseAttributeValue: false })
     this.textParser = new TextParser()
   }
 
   // Парсинг slide*.xml
-  parse(xmlContent: string, slideNumber: number): SlideData {
+  parse(xmlContent: string, slideNumber: number, context: SlideParseContext = {}): SlideData {
+    this.prepare(context, false)
+
     try {
-      const data = this.xmlParser.parse(xmlContent)
-      const slide = data['p:sld']?.['p:sld']
+      const data = this.xmlParser.parse(SlideParser.markOrder(xmlContent))
+      const slide = data['p:sld']
 
       if (!slide) {
         throw new Error('Invalid slide.xml structure: missing p:sld element')
@@ -58,7 +105,9 @@ export class SlideParser {
         number: slideNumber,
         elements,
         background,
-        layout
+        layout,
+        layoutId: layout?.id,
+        showMasterShapes: XMLParser.getBooleanAttribute(slide, 'showMasterSp', true)
       }
     } catch (error) {
       console.error('Error parsing slide.xml:', error)
@@ -66,126 +115,294 @@ export class SlideParser {
     }
   }
 
+  // Парсинг slideLayout*.xml и slideMaster*.xml: фон и декоративные элементы без плейсхолдеров
+  parseTemplate(xmlContent: string, number: number, context: SlideParseContext = {}): SlideData {
+    this.prepare(context, true)
+
+    try {
+      const data = this.xmlParser.parse(SlideParser.markOrder(xmlContent))
+      const isLayout = !!data['p:sldLayout']
+      const template = data['p:sldLayout'] || data['p:sldMaster']
+
+      if (!template) {
+        throw new Error('Invalid template structure: missing p:sldLayout or p:sldMaster element')
+      }
+
+      const cSld = XMLParser.getChild(template, 'p:cSld')
+      const kind = isLayout ? 'Layout' : 'Master'
+      const id = `${kind.toLowerCase()}-${number}`
+
+      return {
+        id,
+        name: XMLParser.getAttribute(cSld, 'name') || `${kind} ${number}`,
+        number,
+        elements: this.parseElements(template),
+        background: this.parseBackground(template),
+        layout: null,
+        showMasterShapes: XMLParser.getBooleanAttribute(template, 'showMasterSp', true),
+        textStyles: isLayout
+          ? undefined
+          : this.textParser.parseMasterTextStyles(XMLParser.getChild(template, 'p:txStyles'), this.context.relationships?.partPath || id)
+      }
+    } catch (error) {
+      console.error('Error parsing template:', error)
+      throw new Error(`Failed to parse template: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  // Нумерация узлов, порядок которых теряет fast-xml-parser: команды контуров, элементы дерева фигур и содержимое абзацев
+  private static markOrder(xmlContent: string): string {
+    return TextParser.markRunOrder(XMLParser.markOrder(GeometryParser.markPathOrder(xmlContent), SHAPE_TREE_ELEMENTS))
+  }
+
+  // Подготовка парсера к разбору очередной части
+  private prepare(context: SlideParseContext, skipPlaceholders: boolean): void {
+    this.context = context
+    this.skipPlaceholders = skipPlaceholders
+    this.textParser.setRelationships(context.relationships)
+    this.textParser.setColorResolver(fillNode => this.parseColor(fillNode))
+    this.textParser.setFontScheme(context.fontScheme)
+  }
+
   // Парсинг элементов слайда
   private parseElements(slide: any): Element[] {
     const elements: Element[] = []
     
     // Парсинг spTree (Shape Tree)
-    const spTree = XMLParser.getChild(slide, 'p:spTree')
+    const cSld = XMLParser.getChild(slide, 'p:cSld') || slide
+    const spTree = XMLParser.getChild(cSld, 'p:spTree')
     if (spTree) {
       const shapeElements = this.parseShapeTree(spTree)
       elements.push(...shapeElements)
     }
 
-    // Парсинг графических элементов
-    const graphicFrame = XMLParser.getChild(slide, 'p:graphicFrame')
-    if (graphicFrame) {
-      const graphicElements = this.parseGraphicFrame(graphicFrame)
-      elements.push(...graphicElements)
-    }
-
     return elements
   }
 
-  // Парсинг дерева фигур
+  // Парсинг дерева фигур в порядке документа: он задает порядок элементов по оси Z
   private parseShapeTree(spTree: any): Element[] {
     const elements: Element[] = []
-    
-    // Парсинг фигур (sp)
-    const shapes = XMLParser.getChildren(spTree, 'p:sp')
-    for (const shape of shapes) {
-      const element = this.parseShape(shape)
-      if (element) {
-        elements.push(element)
-      }
-    }
-
-    // Парсинг групп (grpSp)
-    const groups = XMLParser.getChildren(spTree, 'p:grpSp')
-    for (const group of groups) {
-      const element = this.parseGroup(group)
-      if (element) {
-        elements.push(element)
-      }
-    }
 
-    // Парсинг изображений (pic)
-    const pictures = XMLParser.getChildren(spTree, 'p:pic')
-    for (const picture of pictures) {
-      const element = this.parsePicture(picture)
-      if (element) {
-        elements.push(element)
+    for (const { name, node } of XMLParser.getOrderedChildren(spTree, SHAPE_TREE_ELEMENTS)) {
+      switch (name) {
+        case 'p:sp':
+          elements.push(...this.toList(this.parseShape(node)))
+          break
+        case 'p:cxnSp':
+          elements.push(...this.toList(this.parseConnector(node)))
+          break
+        case 'p:grpSp':
+          elements.push(...this.toList(this.parseGroup(node)))
+          break
+        case 'p:pic':
+          elements.push(...this.toList(this.parsePicture(node)))
+          break
+        // Таблицы и диаграммы
+        case 'p:graphicFrame':
+          elements.push(...this.parseGraphicFrame(node))
+          break
+        // Альтернативное содержимое (новые типы диаграмм с кэшированным изображением)
+        case 'mc:AlternateContent':
+          elements.push(...this.parseAlternateContent(node))
+          break
       }
     }
 
     return elements
   }
 
+  private toList(element: Element | null): Element[] {
+    return element ? [element] : []
+  }
+
   // Парсинг фигуры
   private parseShape(sp: any): Element | null {
     try {
-      // Получение позиции и размера
-      const spPr = XMLParser.getChild(sp, 'p:spPr')
-      if (!spPr) return null
+      const placeholder = PlaceholderResolver.getPlaceholder(sp)
+      // Плейсхолдеры макетов и мастеров — заготовки для слайдов, а не декоративные элементы
+      if (placeholder && this.skipPlaceholders) return null
 
-      const xfrm = XMLParser.getChild(spPr, 'a:xfrm')
-      const position = xfrm ? XMLParser.getPosition(xfrm) : ModelFactories.createPoint(0, 0)
-      const size = xfrm ? XMLParser.getSize(xfrm) : ModelFactories.createSize(100, 100)
+      // Плейсхолдер дополняется свойствами фигур макета и мастера
+      const shapes = [sp, ...this.getInheritedShapes(placeholder)]
+      const spPr = XMLParser.getChild(sp, 'p:spPr') || {}
 
-      // Проверка наличия текста
-      const txBody = XMLParser.getChild(sp, 'p:txBody')
-      if (txBody) {
-        // Если есть текст, создаем текстовый элемент
-        return this.parseTextShape(sp, position, size)
-      }
+      // Получение позиции и размера
+      const xfrm = this.findInherited(shapes, shapePr => XMLParser.getChild(shapePr, 'a:xfrm'))
+      const { position, size, rotation, flipH, flipV } = this.parseTransform(xfrm)
 
-      // Получение типа фигуры
-      const prstGeom = XMLParser.getChild(spPr, 'a:prstGeom')
-      const shapeType = this.getShapeType(prstGeom)
+      // Получение типа фигуры: пользовательская геометрия (a:custGeom) или предустановленная (a:prstGeom)
+      const geometrySource = this.findInherited(shapes, shapePr =>
+        XMLParser.hasElement(shapePr, 'a:custGeom') || XMLParser.hasElement(shapePr, 'a:prstGeom') ? shapePr : undefined
+      )
+      const { shapeType, paths } = this.parseGeometry(geometrySource, size)
 
       // Получение стилей
-      const fill = this.parseFill(spPr)
-      const stroke = this.parseStroke(spPr)
+      const fillSource = this.findInherited(shapes, shapePr => this.hasFill(shapePr) ? shapePr : undefined)
+      const lineSource = this.findInherited(shapes, shapePr => XMLParser.hasElement(shapePr, 'a:ln') ? shapePr : undefined)
+      // Без собственных заливки и линии действуют ссылки на стили темы p:style
+      const fill = fillSource ? this.parseFill(fillSource) : this.parseStyleFill(sp)
+      const stroke = this.parseStyledStroke(sp, lineSource || spPr)
+
+      // PowerPoint записывает p:txBody почти в каждую фигуру: текст ложится поверх геометрии
+      const txBody = XMLParser.getChild(sp, 'p:txBody')
+      const text = txBody
+        ? this.withName(this.parseTextShape(sp, position, size, shapes, placeholder, { rotation, flipH, flipV }), sp, 'p:nvSpPr')
+        : null
+
+      // Надпись без заливки и обводки остается текстовым элементом
+      if (txBody && fill.type === 'none' && stroke.type === 'none') {
+        return text
+      }
 
       // Создание элемента фигуры
-      return ModelFactories.createShapeElement(position, size, shapeType, {
+      return this.withName(ModelFactories.createShapeElement(position, size, shapeType, {
         fill,
-        stroke
-      })
+        stroke,
+        placeholder,
+        paths,
+        rotation,
+        flipH,
+        flipV,
+        text: text && this.hasText(text) ? text : undefined
+      }), sp, 'p:nvSpPr')
     } catch (error) {
       console.error('Error parsing shape:', error)
       return null
     }
   }
 
+  // Парсинг соединительной линии (p:cxnSp): прямой, ломаной (bentConnector) или изогнутой (curvedConnector)
+  private parseConnector(cxnSp: any): LineElement | null {
+    try {
+      const nvCxnSpPr = XMLParser.getChild(cxnSp, 'p:nvCxnSpPr')
+      const cNvPr = XMLParser.getChild(nvCxnSpPr, 'p:cNvPr')
+      const cNvCxnSpPr = XMLParser.getChild(nvCxnSpPr, 'p:cNvCxnSpPr')
+      const spPr = XMLParser.getChild(cxnSp, 'p:spPr') || {}
+      const xfrm = XMLParser.getChild(spPr, 'a:xfrm')
+      const { position, size, rotation, flipH, flipV } = this.parseTransform(xfrm)
+
+      // Линия идет из левого верхнего угла рамки в правый нижний; отражения меняют концы местами
+      const startPoint = ModelFactories.createPoint(position.x + (flipH ? size.width : 0), position.y + (flipV ? size.height : 0))
+      const endPoint = ModelFactories.createPoint(position.x + (flipH ? 0 : size.width), position.y + (flipV ? 0 : size.height))
+
+      const stroke = this.parseStyledStroke(cxnSp, spPr)
+
+      const line = ModelFactories.createLineElement(startPoint, endPoint, {
+        name: XMLParser.getAttribute(cNvPr, 'name') || 'Connector',
+        stroke,
+        arrowStart: !!stroke.headEnd,
+        arrowEnd: !!stroke.tailEnd,
+        path: this.parseConnectorPath(XMLParser.getChild(spPr, 'a:prstGeom'), size, flipH, flipV),
+        startConnection: this.parseConnectionSite(XMLParser.getChild(cNvCxnSpPr, 'a:stCxn')),
+        endConnection: this.parseConnectionSite(XMLParser.getChild(cNvCxnSpPr, 'a:endCxn'))
+      })
+
+      // Линия рисуется по точкам, поэтому поворот вокруг центра рамки переносится на точки и контур
+      if (rotation) {
+        new GroupTransformer({ offset: position, extent: size, childOffset: position, childExtent: size, rotation, flipH: false, flipV: false }).apply(line)
+      }
+      return line
+    } catch (error) {
+      console.error('Error parsing connector:', error)
+      return null
+    }
+  }
+
+  // Контур ломаной или изогнутой линии по формулам предустановленной фигуры; прямой линии контур не нужен
+  private parseConnectorPath(prstGeom: any, size: Size, flipH: boolean, flipV: boolean): string | undefined {
+    const prst = XMLParser.getAttribute(prstGeom, 'prst')
+    if (!prst || !/^(bent|curved)Connector[2-5]$/.test(prst)) return undefined
+
+    const geometryParser = new GeometryParser()
+    const paths = geometryParser.parsePresetGeometry(prstGeom, size, flipH, flipV)
+    geometryParser.getWarnings().forEach(warning => console.warn(warning))
+    return paths.length > 0 ? paths.map(path => path.data).join(' ') : undefined
+  }
+
+  // Заливка из ссылки на стиль темы фигуры (p:style/a:fillRef)
+  private parseStyleFill(shape: any): FillStyle {
+    return this.parseFillReference(XMLParser.getChild(XMLParser.getChild(shape, 'p:style'), 'a:fillRef'))
+  }
+
+  // Ссылка на стиль заливки темы (a:fillRef): idx 0 — без заливки, иначе цвет ссылки
+  private parseFillReference(fillRef: any): FillStyle {
+    const color = XMLParser.getNumberAttribute(fillRef, 'idx', 0) > 0 ? this.parseColor(fillRef) : undefined
+    return color
+      ? ModelFactories.createFillStyle({ type: 'solid', color })
+      : ModelFactories.createFillStyle({ type: 'none' })
+  }
+
+  // Обводка фигуры или соединительной линии: a:ln, недостающие цвет и толщина берутся из ссылки на стиль темы (p:style/a:lnRef)
+  private parseStyledStroke(shape: any, spPr: any): StrokeStyle {
+    const ln = XMLParser.getChild(spPr, 'a:ln')
+    const lnRef = XMLParser.getChild(XMLParser.getChild(shape, 'p:style'), 'a:lnRef')
+    const styleIndex = XMLParser.getNumberAttribute(lnRef, 'idx', 0)
+
+    if (styleIndex === 0 || XMLParser.hasElement(ln, 'a:noFill')) {
+      return ln ? this.parseLine(ln) : ModelFactories.createStrokeStyle({ type: 'none' })
+    }
+
+    const stroke = this.parseLine(ln || {})
+    if (!XMLParser.hasElement(ln, 'a:solidFill')) {
+      stroke.color = this.parseColor(lnRef) || stroke.color
+    }
+    if (!XMLParser.getAttribute(ln, 'w')) {
+      stroke.width = THEME_LINE_WIDTHS[Math.min(styleIndex, THEME_LINE_WIDTHS.length) - 1] / EMU_CONSTANTS.EMU_PER_PIXEL
+    }
+    return stroke
+  }
+
+  // Присоединение конца линии к фигуре: a:stCxn / a:endCxn (id фигуры и номер точки соединения)
+  private parseConnectionSite(connection: any): ConnectionSite | undefined {
+    const shapeId = XMLParser.getAttribute(connection, 'id')
+    if (!shapeId) return undefined
+    return { shapeId, index: XMLParser.getNumberAttribute(connection, 'idx', 0) }
+  }
+
   // Парсинг фигуры с текстом
-  private parseTextShape(sp: any, position: any, size: any): TextElement | null {
+  private parseTextShape(
+    sp: any,
+    position: Point,
+    size: Size,
+    shapes: any[] = [sp],
+    placeholder?: PlaceholderInfo,
+    orientation?: Orientation
+  ): TextElement | null {
     try {
       const txBody = XMLParser.getChild(sp, 'p:txBody')
       if (!txBody) return null
 
-      // Конвертация txBody в XML строку для TextParser
-      const txBodyXml = this.convertToXmlString(txBody, 'a:txBody')
+      // Стили уровней текста из p:txStyles мастера и a:lstStyle макета
+      const listStyles = placeholder && this.context.placeholders
+        ? this.context.placeholders.getListStyles(placeholder)
+        : []
+      const category = placeholder ? PlaceholderResolver.getTextStyleCategory(placeholder) : undefined
+      const masterStyles = (this.context.masterTextStyles || []).filter(style => style.category === category)
       
       // Парсинг текста с помощью TextParser
-      const textResult = this.textParser.parseTextBody(txBodyXml)
+      const textResult = this.textParser.parseTextBodyNode(txBody, listStyles, masterStyles)
       
       if (!textResult.success || textResult.paragraphs.length === 0) {
         console.warn('Failed to parse text body or no paragraphs found')
         return null
       }
 
-      // Получение свойств текстового блока
-      const bodyPr = XMLParser.getChild(txBody, 'a:bodyPr')
-      const autoFit = bodyPr ? this.parseAutoFit(bodyPr) : false
-      const wordWrap = bodyPr ? this.parseWordWrap(bodyPr) : true
-      const verticalAlignment = bodyPr ? this.parseVerticalAlignment(bodyPr) : 'top'
+      // Получение свойств текстового блока с учетом a:bodyPr макета и мастера
+      const bodyPr = this.mergeBodyProperties(shapes)
+      const autoFit = this.parseAutoFit(shapes)
 
       // Создание текстового элемента
       return ModelFactories.createTextElement(position, size, textResult.paragraphs, {
-        autoFit,
-        wordWrap,
-        verticalAlignment
+        ...autoFit,
+        wordWrap: this.parseWordWrap(bodyPr),
+        verticalAlignment: this.parseVerticalAlignment(bodyPr),
+        insets: this.parseTextInsets(bodyPr),
+        textDirection: this.parseTextDirection(bodyPr),
+        textRotation: XMLParser.getRotation(bodyPr),
+        columns: XMLParser.getNumberAttribute(bodyPr, 'numCol', 1),
+        columnSpacing: XMLParser.getEMUAttribute(bodyPr, 'spcCol', 0),
+        placeholder,
+        ...orientation
       })
 
     } catch (error) {
@@ -194,53 +411,127 @@ export class SlideParser {
     }
   }
 
-  // Конвертация объекта в XML строку
-  private convertToXmlString(obj: any, rootTag: string): string {
-    // Более правильная конвертация для txBody
-    if (!obj) return `<${rootTag}></${rootTag}>`
-    
-    // Если объект уже является строкой XML, возвращаем как есть
-    if (typeof obj === 'string' && obj.trim().startsWith('<')) {
-      return obj
+  // Геометрия фигуры: контуры a:custGeom или предустановленной фигуры a:prstGeom с корректировками.
+  // Прямоугольник и эллипс остаются нативными фигурами Figma, фигура без контуров — прямоугольником
+  private parseGeometry(spPr: any, size: Size): Pick<ShapeElement, 'shapeType' | 'paths'> {
+    const custGeom = XMLParser.getChild(spPr, 'a:custGeom')
+    const prstGeom = XMLParser.getChild(spPr, 'a:prstGeom')
+    const prst = XMLParser.getAttribute(prstGeom, 'prst')
+
+    if (!custGeom && (!prst || prst === 'rect' || prst === 'ellipse' || !GeometryParser.hasPreset(prst))) {
+      if (prst && !GeometryParser.hasPreset(prst)) {
+        console.warn(`Неизвестная предустановленная фигура ${prst}, используется прямоугольник`)
+      }
+      return { shapeType: this.getShapeType(prstGeom), paths: undefined }
     }
-    
-    // Простая конвертация в XML формат
-    const xmlContent = this.objectToXml(obj)
-    return `<${rootTag}>${xmlContent}</${rootTag}>`
+
+    const geometryParser = new GeometryParser()
+    const paths = custGeom
+      ? geometryParser.parseCustomGeometry(custGeom, size)
+      : geometryParser.parsePresetGeometry(prstGeom, size)
+    geometryParser.getWarnings().forEach(warning => console.warn(warning))
+
+    if (paths.length === 0) return { shapeType: 'rectangle', paths: undefined }
+    return { shapeType: custGeom ? 'freeform' : this.getShapeType(prstGeom), paths }
+  }
+
+  // Фигуры макета и мастера, от которых наследуется плейсхолдер
+  private getInheritedShapes(placeholder?: PlaceholderInfo): any[] {
+    if (!placeholder || !this.context.placeholders) return []
+    return this.context.placeholders.getInheritedShapes(placeholder)
   }
 
-  // Конвертация объекта в XML
-  private objectToXml(obj: any): string {
-    if (typeof obj === 'string') {
-      return obj
+  // Первое заданное значение из p:spPr по цепочке слайд → макет → мастер
+  private findInherited(shapes: any[], select: (spPr: any) => any): any {
+    for (const shape of shapes) {
+      const spPr = XMLParser.getChild(shape, 'p:spPr')
+      const value = spPr && typeof spPr === 'object' ? select(spPr) : undefined
+      if (value !== undefined) return value
     }
-    
-    if (typeof obj === 'number' || typeof obj === 'boolean') {
-      return obj.toString()
+    return undefined
+  }
+
+  // Текстовый блок содержит хотя бы один непустой run
+  private hasText(text: TextElement): boolean {
+    return text.paragraphs.some(paragraph => paragraph.runs.some(run => run.text.length > 0))
+  }
+
+  // Проверка явно заданной заливки в spPr
+  private hasFill(spPr: any): boolean {
+    return FILL_ELEMENTS.some(element => XMLParser.hasElement(spPr, element))
+  }
+
+  // Слияние атрибутов a:bodyPr: собственные перекрывают унаследованные
+  private mergeBodyProperties(shapes: any[]): any {
+    const merged: any = {}
+    for (const shape of [...shapes].reverse()) {
+      const bodyPr = XMLParser.getChild(XMLParser.getChild(shape, 'p:txBody'), 'a:bodyPr')
+      if (bodyPr && typeof bodyPr === 'object') {
+        Object.assign(merged, bodyPr)
+      }
     }
-    
-    if (Array.isArray(obj)) {
-      return obj.map(item => this.objectToXml(item)).join('')
+    return merged
+  }
+
+  // Позиция и размер из a:xfrm (a:off и a:ext), поворот и отражения
+  private parseTransform(xfrm: any): { position: Point; size: Size } & Orientation {
+    if (!xfrm) {
+      return { position: ModelFactories.createPoint(0, 0), size: ModelFactories.createSize(100, 100), rotation: 0, flipH: false, flipV: false }
     }
-    
-    if (typeof obj === 'object' && obj !== null) {
-      let result = ''
-      for (const [key, value] of Object.entries(obj)) {
-        if (value !== undefined && value !== null) {
-          result += `<${key}>${this.objectToXml(value)}</${key}>`
-        }
+
+    return {
+      position: XMLParser.getPosition(XMLParser.getChild(xfrm, 'a:off')),
+      size: XMLParser.getSize(XMLParser.getChild(xfrm, 'a:ext')),
+      rotation: XMLParser.getRotation(xfrm),
+      flipH: XMLParser.getBooleanAttribute(xfrm, 'flipH', false),
+      flipV: XMLParser.getBooleanAttribute(xfrm, 'flipV', false)
+    }
+  }
+
+  // Авто-подгонка текста: a:noAutofit, a:normAutofit и a:spAutoFit взаимоисключающие,
+  // поэтому берется ближайший a:bodyPr фигуры, макета или мастера, где задан любой из них
+  private parseAutoFit(shapes: any[]): Pick<TextElement, 'autoFit' | 'autoFitType' | 'fontScale' | 'lineSpacingReduction'> {
+    const bodyPr = shapes
+      .map(shape => XMLParser.getChild(XMLParser.getChild(shape, 'p:txBody'), 'a:bodyPr'))
+      .find(shapeBodyPr => AUTOFIT_ELEMENTS.some(element => XMLParser.hasElement(shapeBodyPr, element)))
+
+    if (XMLParser.hasElement(bodyPr, 'a:spAutoFit')) {
+      return { autoFit: true, autoFitType: 'shape' }
+    }
+    if (XMLParser.hasElement(bodyPr, 'a:normAutofit')) {
+      // fontScale и lnSpcReduction задаются в тысячных долях процента
+      const normAutofit = XMLParser.getChild(bodyPr, 'a:normAutofit')
+      return {
+        autoFit: true,
+        autoFitType: 'normal',
+        fontScale: XMLParser.getNumberAttribute(normAutofit, 'fontScale', 100000) / 100000,
+        lineSpacingReduction: XMLParser.getNumberAttribute(normAutofit, 'lnSpcReduction', 0) / 100000
       }
-      return result
     }
-    
-    return ''
+    return { autoFit: false, autoFitType: 'none' }
   }
 
-  // Парсинг авто-подгонки текста
-  private parseAutoFit(bodyPr: any): boolean {
-    const normAutofit = XMLParser.getChild(bodyPr, 'a:normAutofit')
-    const spAutofit = XMLParser.getChild(bodyPr, 'a:spAutofit')
-    return !!(normAutofit || spAutofit)
+  // Поля текстового блока; по умолчанию 0,1" слева и справа и 0,05" сверху и снизу
+  private parseTextInsets(bodyPr: any): TextInsets {
+    return {
+      left: XMLParser.getEMUAttribute(bodyPr, 'lIns', DEFAULT_TEXT_INSETS.horizontal),
+      top: XMLParser.getEMUAttribute(bodyPr, 'tIns', DEFAULT_TEXT_INSETS.vertical),
+      right: XMLParser.getEMUAttribute(bodyPr, 'rIns', DEFAULT_TEXT_INSETS.horizontal),
+      bottom: XMLParser.getEMUAttribute(bodyPr, 'bIns', DEFAULT_TEXT_INSETS.vertical)
+    }
+  }
+
+  // Направление текста a:bodyPr/@vert
+  private parseTextDirection(bodyPr: any): TextDirection {
+    switch (XMLParser.getAttribute(bodyPr, 'vert')) {
+      case 'vert':
+      case 'eaVert':
+      case 'mongolianVert': return 'vertical'
+      case 'vert270': return 'vertical270'
+      case 'wordArtVert':
+      case 'wordArtVertRtl': return 'stacked'
+      default: return 'horizontal'
+    }
   }
 
   // Парсинг переноса слов
@@ -259,56 +550,248 @@ export class SlideParser {
     }
   }
 
-  // Парсинг группы
-  private parseGroup(grpSp: any): Element | null {
+  // Парсинг группы: дочерние элементы лежат прямо в p:grpSp в системе координат группы (a:chOff, a:chExt)
+  // и переводятся в координаты слайда с учетом поворота и отражений группы
+  private parseGroup(grpSp: any): GroupElement | null {
     try {
-      // Получение позиции и размера группы
       const grpSpPr = XMLParser.getChild(grpSp, 'p:grpSpPr')
-      const xfrm = grpSpPr ? XMLParser.getChild(grpSpPr, 'a:xfrm') : null
-      const position = xfrm ? XMLParser.getPosition(xfrm) : ModelFactories.createPoint(0, 0)
-      const size = xfrm ? XMLParser.getSize(xfrm) : ModelFactories.createSize(100, 100)
-
-      // Парсинг дочерних элементов группы
-      const children: Element[] = []
-      const spTree = XMLParser.getChild(grpSp, 'p:spTree')
-      if (spTree) {
-        const childElements = this.parseShapeTree(spTree)
-        children.push(...childElements)
-      }
-
-      // Создание элемента группы
-      return ModelFactories.createGroupElement(position, size, children)
+      const xfrm = XMLParser.getChild(grpSpPr, 'a:xfrm')
+      const { position, size, rotation, flipH, flipV } = this.parseTransform(xfrm)
+      const cNvPr = XMLParser.getChild(XMLParser.getChild(grpSp, 'p:nvGrpSpPr'), 'p:cNvPr')
+
+      const transformer = new GroupTransformer({
+        offset: position,
+        extent: size,
+        childOffset: XMLParser.hasElement(xfrm, 'a:chOff') ? XMLParser.getPosition(XMLParser.getChild(xfrm, 'a:chOff')) : position,
+        childExtent: XMLParser.hasElement(xfrm, 'a:chExt') ? XMLParser.getSize(XMLParser.getChild(xfrm, 'a:chExt')) : size,
+        rotation,
+        flipH,
+        flipV
+      })
+      const children = this.parseShapeTree(grpSp)
+      children.forEach(child => transformer.apply(child))
+
+      // Поворот и отражения группы уже перенесены на дочерние элементы и хранятся для справки
+      return ModelFactories.createGroupElement(position, size, children, {
+        name: XMLParser.getAttribute(cNvPr, 'name') || 'Group',
+        rotation,
+        flipH,
+        flipV
+      })
     } catch (error) {
       console.error('Error parsing group:', error)
       return null
     }
   }
 
+  // Имя элемента из p:cNvPr (nvSpPr, nvPicPr и т.п.), чтобы слои в Figma назывались как в PowerPoint
+  private withName<T extends Element>(element: T | null, node: any, nvTag: string): T | null {
+    const name = XMLParser.getAttribute(XMLParser.getChild(XMLParser.getChild(node, nvTag), 'p:cNvPr'), 'name')
+    if (element && name) {
+      element.name = name
+    }
+    return element
+  }
+
   // Парсинг изображения
   private parsePicture(pic: any): Element | null {
     try {
-      // Получение позиции и размера
-      const spPr = XMLParser.getChild(pic, 'p:spPr')
-      const xfrm = spPr ? XMLParser.getChild(spPr, 'a:xfrm') : null
-      const position = xfrm ? XMLParser.getPosition(xfrm) : ModelFactories.createPoint(0, 0)
-      const size = xfrm ? XMLParser.getSize(xfrm) : ModelFactories.createSize(100, 100)
-
-      // Получение источника изображения
-      const blipFill = XMLParser.getChild(spPr, 'a:blipFill')
-      const blip = blipFill ? XMLParser.getChild(blipFill, 'a:blip') : null
-      const src = blip ? (XMLParser.getAttribute(blip, 'r:embed') || '') : ''
+      const placeholder = PlaceholderResolver.getPlaceholder(pic)
+      if (placeholder && this.skipPlaceholders) return null
+
+      // Получение позиции и размера (картинка в плейсхолдере может не задавать a:xfrm)
+      const shapes = [pic, ...this.getInheritedShapes(placeholder)]
+      const xfrm = this.findInherited(shapes, spPr => XMLParser.getChild(spPr, 'a:xfrm'))
+      const { position, size, rotation, flipH, flipV } = this.parseTransform(xfrm)
+
+      // Форма обрезки: a:prstGeom или a:custGeom в p:spPr картинки
+      const geometrySource = this.findInherited(shapes, spPr =>
+        XMLParser.hasElement(spPr, 'a:custGeom') || XMLParser.hasElement(spPr, 'a:prstGeom') ? spPr : undefined
+      )
+      const { shapeType, paths } = this.parseGeometry(geometrySource, size)
+
+      // Получение источника изображения (p:pic/p:blipFill/a:blip@r:embed)
+      const src = this.resolveBlipSource(pic) || ''
+      const svgSrc = this.resolveSvgBlipSource(pic)
+      const blipFill = XMLParser.getChild(pic, 'p:blipFill')
+      const placement = this.parseImagePlacement(blipFill)
+      const adjustments = this.parseImageAdjustments(XMLParser.getChild(blipFill, 'a:blip'))
 
       // Создание элемента изображения
-      return ModelFactories.createImageElement(position, size, src)
+      const image = ModelFactories.createImageElement(position, size, src, { placeholder, rotation, flipH, flipV, ...placement, ...adjustments })
+      if (svgSrc) {
+        image.svgSrc = svgSrc
+      }
+      if (paths || shapeType === 'ellipse') {
+        image.shapeType = shapeType
+        image.paths = paths
+      }
+      return this.withName(image, pic, 'p:nvPicPr')
     } catch (error) {
       console.error('Error parsing picture:', error)
       return null
     }
   }
 
+  // Парсинг mc:AlternateContent: mc:Choice с запасным изображением из mc:Fallback
+  private parseAlternateContent(alternate: any): Element[] {
+    const choice = XMLParser.getChildren(alternate, 'mc:Choice')[0]
+    const fallback = XMLParser.getChild(alternate, 'mc:Fallback')
+    const fallbackPicture = XMLParser.getChildren(fallback, 'p:pic')[0]
+    const fallbackImageSrc = fallbackPicture ? this.resolveBlipSource(fallbackPicture) : undefined
+
+    const graphicFrame = XMLParser.getChildren(choice, 'p:graphicFrame')[0]
+    if (graphicFrame) {
+      const elements = this.parseGraphicFrame(graphicFrame, fallbackImageSrc)
+      if (elements.length > 0) {
+        return elements
+      }
+    }
+
+    return fallback ? this.parseShapeTree(fallback) : []
+  }
+
+  // Путь изображения p:pic/p:blipFill/a:blip по r:embed
+  private resolveBlipSource(pic: any): string | undefined {
+    const blipFill = XMLParser.getChild(pic, 'p:blipFill')
+    const blip = XMLParser.getChild(blipFill, 'a:blip')
+    const relId = XMLParser.getAttribute(blip, 'r:embed')
+    if (!relId) return undefined
+
+    return this.resolveRelationship(relId)
+  }
+
+  // Путь SVG из расширения a:blip/a:extLst/a:ext/asvg:svgBlip (a:blip тогда ссылается на запасной PNG)
+  private resolveSvgBlipSource(pic: any): string | undefined {
+    const blip = XMLParser.getChild(XMLParser.getChild(pic, 'p:blipFill'), 'a:blip')
+    for (const ext of XMLParser.getChildren(XMLParser.getChild(blip, 'a:extLst'), 'a:ext')) {
+      // Префикс пространства имен задается документом, поэтому ищем по локальному имени
+      const key = ext && typeof ext === 'object' ? Object.keys(ext).find(name => name.endsWith(':svgBlip')) : undefined
+      const relId = key ? XMLParser.getAttribute(ext[key], 'r:embed') : undefined
+      if (relId) return this.resolveRelationship(relId)
+    }
+    return undefined
+  }
+
+  // Размещение изображения в a:blipFill: a:srcRect, a:stretch/a:fillRect или a:tile
+  private parseImagePlacement(blipFill: any): ImagePlacement {
+    const placement: ImagePlacement = {}
+    const srcRect = XMLParser.getChild(blipFill, 'a:srcRect')
+    if (srcRect !== undefined) {
+      placement.crop = this.parseImageInsets(srcRect)
+    }
+
+    const tile = XMLParser.getChild(blipFill, 'a:tile')
+    if (tile !== undefined) {
+      placement.tile = {
+        offsetX: XMLParser.getEMUAttribute(tile, 'tx', 0),
+        offsetY: XMLParser.getEMUAttribute(tile, 'ty', 0),
+        // Масштаб задается в тысячных долях процента
+        scaleX: XMLParser.getNumberAttribute(tile, 'sx', 100000) / 100000,
+        scaleY: XMLParser.getNumberAttribute(tile, 'sy', 100000) / 100000,
+        flip: (XMLParser.getAttribute(tile, 'flip') || 'none') as ImageTile['flip'],
+        alignment: XMLParser.getAttribute(tile, 'algn') || 'tl'
+      }
+      return placement
+    }
+
+    const fillRect = XMLParser.getChild(XMLParser.getChild(blipFill, 'a:stretch'), 'a:fillRect')
+    if (fillRect !== undefined) {
+      placement.fillRect = this.parseImageInsets(fillRect)
+    }
+    return placement
+  }
+
+  // Эффекты a:blip: a:lum, a:hsl, a:alphaModFix, a:grayscl, a:biLevel, a:duotone, a:clrChange.
+  // Коррекции a14:imgProps не читаются: PowerPoint сохраняет в a:blip уже обработанное изображение
+  private parseImageAdjustments(blip: any): ImageAdjustments {
+    const adjustments: ImageAdjustments = {}
+    if (!blip || typeof blip !== 'object') return adjustments
+
+    // Яркость, контраст и насыщенность задаются в тысячных долях процента
+    const lum = XMLParser.getChild(blip, 'a:lum')
+    if (lum !== undefined) {
+      adjustments.brightness = XMLParser.getNumberAttribute(lum, 'bright', 0) / 1000
+      adjustments.contrast = XMLParser.getNumberAttribute(lum, 'contrast', 0) / 1000
+    }
+    const hsl = XMLParser.getChild(blip, 'a:hsl')
+    if (hsl !== undefined) {
+      adjustments.saturation = XMLParser.getNumberAttribute(hsl, 'sat', 0) / 1000
+    }
+
+    const alphaModFix = XMLParser.getChild(blip, 'a:alphaModFix')
+    if (alphaModFix !== undefined) {
+      adjustments.alpha = XMLParser.getNumberAttribute(alphaModFix, 'amt', 100000) / 100000
+    }
+    if (XMLParser.hasElement(blip, 'a:grayscl')) {
+      adjustments.grayscale = true
+    }
+    const biLevel = XMLParser.getChild(blip, 'a:biLevel')
+    if (biLevel !== undefined) {
+      adjustments.biLevelThreshold = XMLParser.getNumberAttribute(biLevel, 'thresh', 50000) / 100000
+    }
+
+    const duotone = this.parseBlipColors(XMLParser.getChild(blip, 'a:duotone'))
+    if (duotone.length === 2) {
+      adjustments.duotone = [duotone[0], duotone[1]]
+    }
+
+    const clrChange = XMLParser.getChild(blip, 'a:clrChange')
+    const [from] = this.parseBlipColors(XMLParser.getChild(clrChange, 'a:clrFrom'))
+    const [to] = this.parseBlipColors(XMLParser.getChild(clrChange, 'a:clrTo'))
+    if (from && to) {
+      adjustments.colorChange = { from, to }
+    }
+
+    return adjustments
+  }
+
+  // Цвета эффекта в порядке документа; a:prstClr в эффектах PowerPoint — black или white
+  private parseBlipColors(node: any): Color[] {
+    if (!node || typeof node !== 'object') return []
+
+    const colors: Color[] = []
+    for (const key of Object.keys(node)) {
+      for (const colorNode of XMLParser.getChildren(node, key)) {
+        if (key === 'a:prstClr') {
+          const value = XMLParser.getAttribute(colorNode, 'val') === 'white' ? 1 : 0
+          colors.push(ModelFactories.createRGBColor(value, value, value))
+        } else if (key === 'a:srgbClr' || key === 'a:schemeClr' || key === 'a:sysClr') {
+          const color = this.parseColor({ [key]: colorNode })
+          if (color) colors.push(color)
+        }
+      }
+    }
+    return colors
+  }
+
+  // Отступы a:srcRect и a:fillRect (l, t, r, b в тысячных долях процента)
+  private parseImageInsets(rect: any): ImageInsets {
+    return {
+      left: XMLParser.getNumberAttribute(rect, 'l', 0) / 100000,
+      top: XMLParser.getNumberAttribute(rect, 't', 0) / 100000,
+      right: XMLParser.getNumberAttribute(rect, 'r', 0) / 100000,
+      bottom: XMLParser.getNumberAttribute(rect, 'b', 0) / 100000
+    }
+  }
+
+  // Разрешение r:id в путь части архива; без таблицы связей остается исходный r:id
+  private resolveRelationship(relId: string): string {
+    const target = this.context.relationships?.getTarget(relId)
+    if (!target) {
+      console.warn(`Relationship ${relId} not found`)
+    }
+    return target || relId
+  }
+
   // Парсинг графического фрейма
-  private parseGraphicFrame(graphicFrame: any): Element[] {
+  private parseGraphicFrame(graphicFrame: any, fallbackImageSrc?: string): Element[] {
     const elements: Element[] = []
+
+    // У графического фрейма собственный p:xfrm вместо spPr/a:xfrm
+    const { position, size } = this.parseTransform(XMLParser.getChild(graphicFrame, 'p:xfrm'))
+    const cNvPr = XMLParser.getChild(XMLParser.getChild(graphicFrame, 'p:nvGraphicFramePr'), 'p:cNvPr')
+    const name = XMLParser.getAttribute(cNvPr, 'name')
     
     // Парсинг графических данных
     const graphic = XMLParser.getChild(graphicFrame, 'a:graphic')
@@ -318,16 +801,16 @@ export class SlideParser {
         // Парсинг таблиц
         const table = XMLParser.getChild(graphicData, 'a:tbl')
         if (table) {
-          const tableElement = this.parseTable(table)
+          const tableElement = this.parseTable(table, position, size, name)
           if (tableElement) {
             elements.push(tableElement)
           }
         }
 
-        // Парсинг диаграмм
-        const chart = XMLParser.getChild(graphicData, 'c:chart')
+        // Парсинг диаграмм (c:chart и диаграммы Office 2016 cx:chart)
+        const chart = XMLParser.getChild(graphicData, 'c:chart') || XMLParser.getChild(graphicData, 'cx:chart')
         if (chart) {
-          const chartElement = this.parseChart(chart)
+          const chartElement = this.parseChart(chart, position, size, name, fallbackImageSrc)
           if (chartElement) {
             elements.push(chartElement)
           }
@@ -338,18 +821,242 @@ export class SlideParser {
     return elements
   }
 
-  // Парсинг таблицы (заглушка)
-  private parseTable(table: any): Element | null {
-    // TODO: Реализовать парсинг таблиц
-    console.log('Table parsing not implemented yet')
-    return null
+  // Парсинг таблицы (a:tbl)
+  private parseTable(table: any, position: { x: number; y: number }, size: { width: number; height: number }, name?: string): TableElement | null {
+    try {
+      const tblGrid = XMLParser.getChild(table, 'a:tblGrid')
+      const columns = XMLParser.getChildren(tblGrid, 'a:gridCol')
+        .map((gridCol: any) => XMLParser.getEMUAttribute(gridCol, 'w', 0))
+
+      const tblPr = XMLParser.getChild(table, 'a:tblPr')
+      const styleId = XMLParser.getTextContent(XMLParser.getChild(tblPr, 'a:tableStyleId')) || undefined
+      const style = styleId ? this.resolveTableStyle(styleId) : undefined
+
+      const rowNodes = XMLParser.getChildren(table, 'a:tr')
+      const grid = { rows: rowNodes.length, columns: columns.length }
+      const rows: TableRow[] = rowNodes.map((tr: any, rowIndex: number) => {
+        const cells = XMLParser.getChildren(tr, 'a:tc').map((tc: any, columnIndex: number) =>
+          this.parseTableCell(tc, style && this.getTableCellStyle(style, tblPr, tc, rowIndex, columnIndex, grid))
+        )
+        return ModelFactories.createTableRow(XMLParser.getEMUAttribute(tr, 'h', 0), cells)
+      })
+
+      if (columns.length === 0 || rows.length === 0) {
+        console.warn('Table without grid columns or rows skipped')
+        return null
+      }
+
+      return ModelFactories.createTableElement(position, size, columns, rows, {
+        name: name || 'Table',
+        styleId
+      })
+    } catch (error) {
+      console.error('Error parsing table:', error)
+      return null
+    }
+  }
+
+  // Парсинг ячейки таблицы (a:tc): собственные свойства a:tcPr и a:rPr перекрывают стиль таблицы
+  private parseTableCell(tc: any, style?: TableCellStyle): TableCell {
+    const txBody = XMLParser.getChild(tc, 'a:txBody')
+    const textStyles = style?.textProperties ? [this.createTableTextStyle(style.textProperties)] : []
+    const paragraphs = txBody ? this.textParser.parseTextBodyNode(txBody, textStyles).paragraphs : []
+    const tcPr = XMLParser.getChild(tc, 'a:tcPr') || {}
+    const hasFill = FILL_ELEMENTS.some(name => XMLParser.hasElement(tcPr, name))
+
+    return ModelFactories.createTableCell(paragraphs, {
+      fill: hasFill || !style?.fill ? this.parseFill(tcPr) : style.fill,
+      borders: { ...style?.borders, ...this.parseCellBorders(tcPr) },
+      margins: {
+        left: XMLParser.getEMUAttribute(tcPr, 'marL', 91440),
+        right: XMLParser.getEMUAttribute(tcPr, 'marR', 91440),
+        top: XMLParser.getEMUAttribute(tcPr, 'marT', 45720),
+        bottom: XMLParser.getEMUAttribute(tcPr, 'marB', 45720)
+      },
+      verticalAlignment: this.parseVerticalAlignment(tcPr),
+      gridSpan: XMLParser.getNumberAttribute(tc, 'gridSpan', 1),
+      rowSpan: XMLParser.getNumberAttribute(tc, 'rowSpan', 1),
+      hMerge: XMLParser.getBooleanAttribute(tc, 'hMerge', false),
+      vMerge: XMLParser.getBooleanAttribute(tc, 'vMerge', false)
+    })
   }
 
-  // Парсинг диаграммы (заглушка)
-  private parseChart(chart: any): Element | null {
-    // TODO: Реализовать парсинг диаграмм
-    console.log('Chart parsing not implemented yet')
-    return null
+  // Стиль таблицы по GUID: из tableStyles.xml презентации или встроенный стиль PowerPoint
+  private resolveTableStyle(styleId: string): TableStyleDefinition | undefined {
+    return this.context.tableStyles?.[styleId.toUpperCase()] || TableStyleParser.getBuiltInStyle(styleId)
+  }
+
+  // Оформление ячейки по частям стиля, включенным флагами a:tblPr (firstRow, bandRow и т.д.).
+  // Части применяются по возрастанию приоритета; внешние стороны области части берут a:left/a:top..., внутренние — a:insideV/a:insideH
+  private getTableCellStyle(
+    style: TableStyleDefinition,
+    tblPr: any,
+    tc: any,
+    row: number,
+    column: number,
+    grid: { rows: number; columns: number }
+  ): TableCellStyle {
+    const flag = (name: string) => XMLParser.getBooleanAttribute(tblPr, name, false)
+    const lastRow = grid.rows - 1
+    const lastColumn = grid.columns - 1
+    const rowEnd = Math.min(row + XMLParser.getNumberAttribute(tc, 'rowSpan', 1) - 1, lastRow)
+    const columnEnd = Math.min(column + XMLParser.getNumberAttribute(tc, 'gridSpan', 1) - 1, lastColumn)
+
+    // Полосы чередуются со строки (столбца) после заголовка и не заходят в итоговую строку (столбец)
+    const bodyRow = !(flag('firstRow') && row === 0) && !(flag('lastRow') && row === lastRow)
+    const bodyColumn = !(flag('firstCol') && column === 0) && !(flag('lastCol') && column === lastColumn)
+    const rowBand = (row - (flag('firstRow') ? 1 : 0)) % 2 === 0 ? 'band1H' : 'band2H'
+    const columnBand = (column - (flag('firstCol') ? 1 : 0)) % 2 === 0 ? 'band1V' : 'band2V'
+
+    // Область части: [первая строка, последняя строка, первый столбец, последний столбец]
+    const regions: { [part in TableStylePartName]?: [number, number, number, number] } = {
+      wholeTbl: [0, lastRow, 0, lastColumn]
+    }
+    if (flag('bandCol') && bodyColumn) regions[columnBand] = [0, lastRow, column, column]
+    if (flag('bandRow') && bodyRow) regions[rowBand] = [row, row, 0, lastColumn]
+    if (flag('lastCol') && columnEnd === lastColumn) regions.lastCol = [0, lastRow, lastColumn, lastColumn]
+    if (flag('firstCol') && column === 0) regions.firstCol = [0, lastRow, 0, 0]
+    if (flag('lastRow') && rowEnd === lastRow) regions.lastRow = [lastRow, lastRow, 0, lastColumn]
+    if (flag('firstRow') && row === 0) regions.firstRow = [0, 0, 0, lastColumn]
+
+    const cellStyle: TableCellStyle = { borders: {} }
+    for (const part of TABLE_STYLE_PARTS) {
+      const region = regions[part]
+      const node = style.parts[part]
+      if (!region || !node) continue
+
+      const tcStyle = XMLParser.getChild(node, 'a:tcStyle')
+      cellStyle.fill = this.parseTableStyleFill(tcStyle) || cellStyle.fill
+
+      const tcBdr = XMLParser.getChild(tcStyle, 'a:tcBdr')
+      const [top, bottom, left, right] = region
+      const sides: Array<[keyof TableCellBorders, string]> = [
+        ['left', column === left ? 'a:left' : 'a:insideV'],
+        ['right', columnEnd === right ? 'a:right' : 'a:insideV'],
+        ['top', row === top ? 'a:top' : 'a:insideH'],
+        ['bottom', rowEnd === bottom ? 'a:bottom' : 'a:insideH']
+      ]
+      for (const [side, tag] of sides) {
+        const border = this.parseTableStyleBorder(XMLParser.getChild(tcBdr, tag))
+        if (border) {
+          cellStyle.borders[side] = border
+        }
+      }
+
+      const textProperties = this.parseTableTextProperties(XMLParser.getChild(node, 'a:tcTxStyle'))
+      if (textProperties) {
+        cellStyle.textProperties = { ...cellStyle.textProperties, ...textProperties }
+      }
+    }
+
+    return cellStyle
+  }
+
+  // Заливка части стиля таблицы: a:fill или ссылка на стиль заливки темы a:fillRef
+  private parseTableStyleFill(tcStyle: any): FillStyle | undefined {
+    if (XMLParser.hasElement(tcStyle, 'a:fill')) {
+      return this.parseFill(tcStyle)
+    }
+    const fillRef = XMLParser.getChild(tcStyle, 'a:fillRef')
+    return fillRef ? this.parseFillReference(fillRef) : undefined
+  }
+
+  // Сторона границы в a:tcBdr стиля таблицы: a:ln или ссылка на стиль линии темы a:lnRef
+  private parseTableStyleBorder(side: any): StrokeStyle | undefined {
+    const ln = XMLParser.getChild(side, 'a:ln')
+    if (ln && typeof ln === 'object') {
+      return this.parseLine(ln)
+    }
+
+    const lnRef = XMLParser.getChild(side, 'a:lnRef')
+    if (!lnRef) return undefined
+
+    const styleIndex = XMLParser.getNumberAttribute(lnRef, 'idx', 0)
+    if (styleIndex === 0) {
+      return ModelFactories.createStrokeStyle({ type: 'none' })
+    }
+    return ModelFactories.createStrokeStyle({
+      type: 'solid',
+      color: this.parseColor(lnRef) || ModelFactories.createRGBColor(0, 0, 0),
+      width: THEME_LINE_WIDTHS[Math.min(styleIndex, THEME_LINE_WIDTHS.length) - 1] / EMU_CONSTANTS.EMU_PER_PIXEL
+    })
+  }
+
+  // Свойства текста части стиля (a:tcTxStyle) в виде a:defRPr: полужирный, курсив и цвет
+  private parseTableTextProperties(tcTxStyle: any): any {
+    if (!tcTxStyle || typeof tcTxStyle !== 'object') return undefined
+
+    const properties: any = {}
+    for (const attribute of ['b', 'i']) {
+      const value = XMLParser.getAttribute(tcTxStyle, attribute)
+      if (value === 'on' || value === 'off') {
+        properties[`@${attribute}`] = value === 'on' ? '1' : '0'
+      }
+    }
+
+    const colorName = TABLE_TEXT_COLOR_ELEMENTS.find(name => XMLParser.hasElement(tcTxStyle, name))
+    if (colorName) {
+      properties['a:solidFill'] = { [colorName]: XMLParser.getChild(tcTxStyle, colorName) }
+    }
+
+    return Object.keys(properties).length > 0 ? properties : undefined
+  }
+
+  // Стиль уровней списка со свойствами текста стиля таблицы: он наследуется всеми абзацами ячейки
+  private createTableTextStyle(textProperties: any): any {
+    const listStyle: any = {}
+    for (let level = 1; level <= 9; level++) {
+      listStyle[`a:lvl${level}pPr`] = { 'a:defRPr': textProperties }
+    }
+    return listStyle
+  }
+
+  // Парсинг границ ячейки (a:lnL, a:lnR, a:lnT, a:lnB)
+  private parseCellBorders(tcPr: any): TableCellBorders {
+    const borders: TableCellBorders = {}
+    const sides: { [key: string]: keyof TableCellBorders } = {
+      'a:lnL': 'left',
+      'a:lnR': 'right',
+      'a:lnT': 'top',
+      'a:lnB': 'bottom'
+    }
+
+    for (const [tag, side] of Object.entries(sides)) {
+      const ln = XMLParser.getChild(tcPr, tag)
+      if (ln) {
+        borders[side] = this.parseLine(ln)
+      }
+    }
+
+    return borders
+  }
+
+  // Парсинг диаграммы по подготовленным данным части chart*.xml
+  private parseChart(
+    chart: any,
+    position: { x: number; y: number },
+    size: { width: number; height: number },
+    name?: string,
+    fallbackImageSrc?: string
+  ): ChartElement | null {
+    const relId = XMLParser.getAttribute(chart, 'r:id')
+    const chartData = relId ? this.context.charts?.[relId] : undefined
+
+    if (!chartData && !fallbackImageSrc) {
+      console.warn(`Chart part for ${relId || 'unknown relationship'} not found`)
+      return null
+    }
+
+    return ModelFactories.createChartElement(position, size, chartData?.chartType || 'unsupported', {
+      name: name || 'Chart',
+      barDirection: chartData?.barDirection || 'column',
+      grouping: chartData?.grouping || 'clustered',
+      title: chartData?.title,
+      categories: chartData?.categories || [],
+      series: chartData?.series || [],
+      legend: chartData?.legend,
+      fallbackImageSrc
+    })
   }
 
   // Получение типа фигуры
@@ -364,28 +1071,33 @@ export class SlideParser {
       case 'ellipse':
         return 'ellipse'
       case 'triangle':
+      case 'rtTriangle':
         return 'triangle'
       case 'line':
+      case 'lineInv':
         return 'line'
-      case 'arrow':
-        return 'arrow'
-      case 'star':
-        return 'star'
-      default:
-        return 'rectangle'
     }
+
+    if (/^star\d+$/.test(prst || '')) return 'star'
+    if (/Arrow$/.test(prst || '')) return 'arrow'
+    // Остальные предустановленные фигуры отрисовываются по контурам
+    return GeometryParser.hasPreset(prst) ? 'freeform' : 'rectangle'
   }
 
   // Парсинг заливки
   private parseFill(spPr: any): any {
-    const fill = XMLParser.getChild(spPr, 'a:fill')
+    const fill = XMLParser.getChild(spPr, 'a:fill') || spPr
     if (!fill) {
       return ModelFactories.createFillStyle({ type: 'none' })
     }
 
+    const solidFill = fill['a:solidFill'] || fill.solidFill
+    const gradFill = fill['a:gradFill'] || fill.gradFill
+    const blipFill = fill['a:blipFill'] || fill.blipFill
+
     // Сплошная заливка
-    if (fill.solidFill) {
-      const color = XMLParser.getColor(fill.solidFill)
+    if (solidFill) {
+      const color = this.parseColor(solidFill)
       return ModelFactories.createFillStyle({
         type: 'solid',
         color
@@ -393,47 +1105,84 @@ export class SlideParser {
     }
 
     // Градиентная заливка
-    if (fill.gradFill) {
+    if (gradFill) {
       return ModelFactories.createFillStyle({
-        type: 'gradient'
-        // TODO: Реализовать парсинг градиентов
+        type: 'gradient',
+        ...this.parseGradient(gradFill)
       })
     }
 
     // Заливка изображением
-    if (fill.blipFill) {
-      const blip = XMLParser.getChild(fill.blipFill, 'a:blip')
-      const src = blip ? XMLParser.getAttribute(blip, 'r:embed') : ''
+    if (blipFill) {
+      const blip = XMLParser.getChild(blipFill, 'a:blip')
+      const relId = blip ? XMLParser.getAttribute(blip, 'r:embed') : undefined
       return ModelFactories.createFillStyle({
         type: 'image',
-        imageUrl: src
+        imageUrl: relId ? this.resolveRelationship(relId) : '',
+        imagePlacement: this.parseImagePlacement(blipFill),
+        imageAdjustments: this.parseImageAdjustments(blip)
       })
     }
 
     return ModelFactories.createFillStyle({ type: 'none' })
   }
 
-  // Парсинг обводки
-  private parseStroke(spPr: any): any {
-    const ln = XMLParser.getChild(spPr, 'a:ln')
-    if (!ln) {
+  // Парсинг свойств линии (a:ln и границы ячеек таблицы)
+  private parseLine(ln: any): StrokeStyle {
+    if (XMLParser.hasElement(ln, 'a:noFill')) {
       return ModelFactories.createStrokeStyle({ type: 'none' })
     }
 
     const width = XMLParser.getLineWidth(ln)
-    const color = XMLParser.getColor(ln)
-    const lineType = XMLParser.getLineType(ln)
+    const color = this.parseColor(XMLParser.getChild(ln, 'a:solidFill'))
+    const prstDash = XMLParser.getChild(ln, 'a:prstDash')
+    const dashPattern = XMLParser.getDashPattern(ln)
+    const lineType = prstDash ? XMLParser.getLineType(prstDash) : dashPattern ? 'dashed' : 'solid'
 
     return ModelFactories.createStrokeStyle({
-      type: lineType,
+      type: lineType === 'none' ? 'solid' : lineType,
       color: color || ModelFactories.createRGBColor(0, 0, 0),
-      width
+      width: width || 1,
+      cap: this.parseLineCap(ln),
+      join: this.parseLineJoin(ln),
+      dashPattern,
+      headEnd: this.parseLineEnd(XMLParser.getChild(ln, 'a:headEnd')),
+      tailEnd: this.parseLineEnd(XMLParser.getChild(ln, 'a:tailEnd'))
     })
   }
 
+  // Концы штрихов: rnd, sq, flat (по умолчанию в PowerPoint — flat)
+  private parseLineCap(ln: any): StrokeStyle['cap'] {
+    switch (XMLParser.getAttribute(ln, 'cap')) {
+      case 'rnd': return 'round'
+      case 'sq': return 'square'
+      default: return 'butt'
+    }
+  }
+
+  // Соединение сегментов: a:round, a:bevel или a:miter
+  private parseLineJoin(ln: any): StrokeStyle['join'] {
+    if (XMLParser.hasElement(ln, 'a:bevel')) return 'bevel'
+    if (XMLParser.hasElement(ln, 'a:miter')) return 'miter'
+    return 'round'
+  }
+
+  // Наконечник a:headEnd / a:tailEnd; без типа или с type="none" не задается
+  private parseLineEnd(end: any): LineEnd | undefined {
+    const type = XMLParser.getAttribute(end, 'type') as LineEndType | undefined
+    if (!type || type === 'none' || LINE_END_TYPES.indexOf(type) === -1) return undefined
+
+    const size = (attribute: string): LineEndSize => {
+      const value = XMLParser.getAttribute(end, attribute)
+      return value === 'sm' || value === 'lg' ? value : 'med'
+    }
+    return { type, width: size('w'), length: size('len') }
+  }
+
   // Парсинг фона слайда
   private parseBackground(slide: any): any {
-    const bg = XMLParser.getChild(slide, 'p:bg')
+    const cSld = XMLParser.getChild(slide, 'p:cSld') || slide
+    const bg = XMLParser.getChild(cSld, 'p:bg')
     if (!bg) {
       return ModelFactories.createSlideBackground()
     }
@@ -443,14 +1192,14 @@ export class SlideParser {
       return ModelFactories.createSlideBackground()
     }
 
-    const fill = XMLParser.getChild(bgPr, 'a:fill')
-    if (!fill) {
-      return ModelFactories.createSlideBackground()
-    }
+    // Заливка фона лежит прямо в p:bgPr
+    const solidFill = XMLParser.getChild(bgPr, 'a:solidFill')
+    const gradFill = XMLParser.getChild(bgPr, 'a:gradFill')
+    const blipFill = XMLParser.getChild(bgPr, 'a:blipFill')
 
     // Сплошной фон
-    if (fill.solidFill) {
-      const color = XMLParser.getColor(fill.solidFill)
+    if (solidFill) {
+      const color = this.parseColor(solidFill)
       return ModelFactories.createSlideBackground({
         type: 'solid',
         color
@@ -458,35 +1207,105 @@ export class SlideParser {
     }
 
     // Градиентный фон
-    if (fill.gradFill) {
+    if (gradFill) {
+      return ModelFactories.createSlideBackground({
+        type: 'gradient',
+        ...this.parseGradient(gradFill)
+      })
+    }
+
+    // Фоновое изображение
+    if (blipFill) {
+      const blip = XMLParser.getChild(blipFill, 'a:blip')
+      const relId = XMLParser.getAttribute(blip, 'r:embed')
       return ModelFactories.createSlideBackground({
-        type: 'gradient'
-        // TODO: Реализовать парсинг градиентов
+        type: 'image',
+        imageUrl: relId ? this.resolveRelationship(relId) : '',
+        imagePlacement: this.parseImagePlacement(blipFill),
+        imageAdjustments: this.parseImageAdjustments(blip)
       })
     }
 
     return ModelFactories.createSlideBackground()
   }
 
+  // Парсинг градиента (a:gradFill): остановки a:gsLst, направление a:lin или форма a:path
+  private parseGradient(gradFill: any): Partial<FillStyle> {
+    const gsLst = XMLParser.getChild(gradFill, 'a:gsLst')
+    const gradientStops: GradientStop[] = XMLParser.getChildren(gsLst, 'a:gs')
+      .map((gs: any) => ({
+        // pos задается в тысячных долях процента
+        position: XMLParser.getNumberAttribute(gs, 'pos', 0) / 1000,
+        color: this.parseColor(gs) || ModelFactories.createRGBColor(0, 0, 0)
+      }))
+      .sort((a: GradientStop, b: GradientStop) => a.position - b.position)
+
+    const path = XMLParser.getChild(gradFill, 'a:path')
+    if (path !== undefined) {
+      // fillToRect задает отступы фокуса от краев в тысячных долях процента
+      const fillToRect = XMLParser.getChild(path, 'a:fillToRect')
+      const left = XMLParser.getNumberAttribute(fillToRect, 'l', 0) / 100000
+      const top = XMLParser.getNumberAttribute(fillToRect, 't', 0) / 100000
+      const right = XMLParser.getNumberAttribute(fillToRect, 'r', 0) / 100000
+      const bottom = XMLParser.getNumberAttribute(fillToRect, 'b', 0) / 100000
+      const pathType = XMLParser.getAttribute(path, 'path')
+
+      return {
+        gradientStops,
+        gradientType: pathType === 'circle' ? 'radial' : pathType === 'rect' ? 'rectangular' : 'path',
+        gradientCenter: ModelFactories.createPoint((left + 1 - right) / 2, (top + 1 - bottom) / 2)
+      }
+    }
+
+    // Угол a:lin задается в 60000-х долях градуса по часовой стрелке
+    const lin = XMLParser.getChild(gradFill, 'a:lin')
+    return {
+      gradientStops,
+      gradientType: 'linear',
+      gradientAngle: XMLParser.getNumberAttribute(lin, 'ang', 0) / 60000
+    }
+  }
+
+  // Парсинг цвета заливки с разрешением цветов темы через ThemeCache
+  private parseColor(fillNode: any): Color | undefined {
+    if (!fillNode || typeof fillNode !== 'object') return undefined
+
+    const schemeClr = XMLParser.getChild(fillNode, 'a:schemeClr')
+    const colorNode = schemeClr || XMLParser.getChild(fillNode, 'a:srgbClr') || XMLParser.getChild(fillNode, 'a:sysClr')
+    const modifiers = XMLParser.getColorModifiers(colorNode)
+    const { themeCache, colorScheme } = this.context
+
+    if (schemeClr && themeCache && colorScheme) {
+      const schemeKey = XMLParser.getAttribute(schemeClr, 'val')
+      if (schemeKey) {
+        return themeCache.resolveColor(colorScheme, schemeKey, modifiers)
+      }
+    }
+
+    const color = XMLParser.getColor(fillNode)
+    if (color && modifiers.alpha !== undefined) {
+      return { ...color, a: modifiers.alpha }
+    }
+    return color
+  }
+
   // Парсинг макета
   private parseLayout(slide: any): any {
-    const layout = XMLParser.getChild(slide, 'p:sldLayoutId')
+    // Макет слайда задается связью slideLayout в .rels, а не элементом slide.xml
+    const layout = this.context.relationships?.getByType('slideLayout')[0]
     if (!layout) {
       return null
     }
 
-    const id = XMLParser.getAttribute(layout, 'id')
-    const rid = XMLParser.getAttribute(layout, 'r:id')
-
     return {
-      id,
-      rid
+      id: layout.target,
+      rid: layout.id
     }
   }
 
   // Валидация структуры slide.xml
   validateStructure(data: any): boolean {
-    if (!data || !data['p:sld'] || !data['p:sld']['p:sld']) {
+    if (!data || !data['p:sld']) {
       console.error('Invalid slide.xml: missing p:sld element')
       return false
     }
@@ -498,13 +1317,13 @@ export class SlideParser {
   logStructure(data: any): void {
     console.log('=== Slide.xml Structure ===')
     
-    if (data && data['p:sld'] && data['p:sld']['p:sld']) {
-      const slide = data['p:sld']['p:sld']
+    if (data && data['p:sld']) {
+      const slide = data['p:sld']
       
       console.log('Slide ID:', XMLParser.getAttribute(slide, 'id'))
       console.log('Slide Name:', XMLParser.getAttribute(slide, 'name'))
       
-      const spTree = XMLParser.getChild(slide, 'p:spTree')
+      const spTree = XMLParser.getChild(XMLParser.getChild(slide, 'p:cSld') || slide, 'p:spTree')
       if (spTree) {
         const shapes = XMLParser.getChildren(spTree, 'p:sp')
         const groups = XMLParser.getChildren(spTree, 'p:grpSp')
@@ -0,0 +1,78 @@
+/**
+ * @file: TableStyleParser.ts
+ * @description: Парсер стилей таблиц ppt/tableStyles.xml (a:tblStyleLst) и встроенных стилей PowerPoint
+ * @dependencies: XMLParser, tableStyleDefinitions
+ * @created: 2026-10-18
+ */
+
+import { XMLParser } from './XMLParser'
+import { BUILT_IN_TABLE_STYLES, TABLE_STYLE_FAMILIES } from './tableStyleDefinitions'
+
+// Части стиля таблицы в порядке возрастания приоритета
+export const TABLE_STYLE_PARTS = ['wholeTbl', 'band1V', 'band2V', 'band1H', 'band2H', 'lastCol', 'firstCol', 'lastRow', 'firstRow'] as const
+export type TableStylePartName = typeof TABLE_STYLE_PARTS[number]
+
+// Стиль таблицы (a:tblStyle): узлы частей хранятся как есть, цвета схемы разрешаются темой слайда при разборе таблицы
+export interface TableStyleDefinition {
+  id: string
+  name: string
+  parts: { [part in TableStylePartName]?: any }
+}
+
+export interface TableStyles {
+  [styleId: string]: TableStyleDefinition
+}
+
+export class TableStyleParser {
+  private static builtInStyles: TableStyles = {}
+  private xmlParser: XMLParser
+
+  constructor() {
+    this.xmlParser = new XMLParser({ parseAttributeValue: false })
+  }
+
+  // Парсинг tableStyles.xml: стили по GUID из a:tblStyle@styleId
+  parse(xmlContent: string): TableStyles {
+    const data = this.xmlParser.parse(xmlContent)
+    const styles: TableStyles = {}
+
+    for (const tblStyle of XMLParser.getChildren(data['a:tblStyleLst'], 'a:tblStyle')) {
+      const style = this.parseTableStyle(tblStyle)
+      if (style) {
+        styles[style.id] = style
+      }
+    }
+
+    return styles
+  }
+
+  // Встроенный стиль PowerPoint по GUID; определения строятся один раз
+  static getBuiltInStyle(styleId: string): TableStyleDefinition | undefined {
+    const key = styleId.toUpperCase()
+    if (this.builtInStyles[key]) return this.builtInStyles[key]
+
+    const definition = BUILT_IN_TABLE_STYLES[key]
+    if (!definition) return undefined
+
+    const [name, family, color, header] = definition
+    const xml = `<a:tblStyleLst><a:tblStyle styleId="${key}" styleName="${name}">${TABLE_STYLE_FAMILIES[family](color, header || color)}</a:tblStyle></a:tblStyleLst>`
+    const style = new TableStyleParser().parse(xml)[key]
+    this.builtInStyles[key] = style
+    return style
+  }
+
+  private parseTableStyle(tblStyle: any): TableStyleDefinition | undefined {
+    const id = XMLParser.getAttribute(tblStyle, 'styleId')
+    if (!id) return undefined
+
+    const parts: TableStyleDefinition['parts'] = {}
+    for (const part of TABLE_STYLE_PARTS) {
+      const node = XMLParser.getChild(tblStyle, `a:${part}`)
+      if (node && typeof node === 'object') {
+        parts[part] = node
+      }
+    }
+
+    return { id: id.toUpperCase(), name: XMLParser.getAttribute(tblStyle, 'styleName') || id, parts }
+  }
+}
@@ -6,7 +6,12 @@
  */
 
 import { XMLParser } from './XMLParser'
-import { TextElement, TextRun, Paragraph, TextStyle, ListStyle, Hyperlink } from '../../models/types'
+import { TextElement, TextRun, Paragraph, ParagraphBullet, ParagraphStyle, TextSpacing, TextStyle, Hyperlink, Color, FontScheme, MasterTextStyle, MasterTextStyleCategory } from '../../models/types'
+import type { PartRelationships } from '../RelationshipResolver'
+import { DEFAULT_AUTONUMBER_SCHEME, formatAutoNumber, isSupportedAutoNumberScheme } from './AutoNumber'
+
+// Разрешение цвета узла заливки (a:solidFill) с учетом темы
+export type TextColorResolver = (fillNode: any) => Color | undefined
 
 export interface TextParseResult {
   success: boolean
@@ -15,8 +20,34 @@ export interface TextParseResult {
   warnings: string[]
 }
 
+// Взаимоисключающие свойства маркера: по цепочке уровней берется ближайший узел с любым свойством группы
+const BULLET_TYPE_KEYS = ['a:buNone', 'a:buChar', 'a:buAutoNum', 'a:buBlip']
+const BULLET_FONT_KEYS = ['a:buFontTx', 'a:buFont']
+const BULLET_COLOR_KEYS = ['a:buClrTx', 'a:buClr']
+const BULLET_SIZE_KEYS = ['a:buSzTx', 'a:buSzPct', 'a:buSzPts']
+// Маркер вместо картинки a:buBlip
+const DEFAULT_BULLET_CHAR = '•'
+// Содержимое абзаца: runs, разрывы строк и поля
+const RUN_ELEMENTS = ['a:r', 'a:br', 'a:fld']
+// Разрыв строки a:br: разделитель строк внутри абзаца (в Figma не начинает новый абзац)
+const LINE_BREAK = '\u2028'
+
+// Стили p:txStyles мастера и имена, под которыми они публикуются
+const MASTER_TEXT_STYLES: Array<{ key: string; category: MasterTextStyleCategory; name: string; levels: number }> = [
+  { key: 'p:titleStyle', category: 'title', name: 'Title', levels: 1 },
+  { key: 'p:bodyStyle', category: 'body', name: 'Body', levels: 9 },
+  { key: 'p:otherStyle', category: 'other', name: 'Other', levels: 9 }
+]
+
 export class TextParser extends XMLParser {
-  
+  private relationships?: PartRelationships
+  private colorResolver?: TextColorResolver
+  private fontScheme?: FontScheme
+  // Унаследованные a:lstStyle текущего txBody, от низшего приоритета к высшему
+  private listStyles: any[] = []
+  // Стили мастера той же категории для привязки runs текущего txBody
+  private masterStyles: MasterTextStyle[] = []
+
   constructor() {
     super({
       ignoreAttributes: false,
@@ -28,6 +59,26 @@ export class TextParser extends XMLParser {
     })
   }
 
+  // Нумерация runs, разрывов строк и полей в исходном XML до разбора, чтобы восстановить их порядок
+  static markRunOrder(xmlContent: string): string {
+    return XMLParser.markOrder(xmlContent, RUN_ELEMENTS)
+  }
+
+  // Установка связей части, из которой разбирается текст (для гиперссылок)
+  setRelationships(relationships?: PartRelationships): void {
+    this.relationships = relationships
+  }
+
+  // Установка разрешения цветов темы (a:schemeClr) для текста
+  setColorResolver(colorResolver?: TextColorResolver): void {
+    this.colorResolver = colorResolver
+  }
+
+  // Установка схемы шрифтов темы для ссылок +mj-lt, +mn-lt и т.п.
+  setFontScheme(fontScheme?: FontScheme): void {
+    this.fontScheme = fontScheme
+  }
+
   // Парсинг текстового блока (txBody)
   parseTextBody(xmlContent: string): TextParseResult {
     const result: TextParseResult = {
@@ -38,7 +89,7 @@ export class TextParser extends XMLParser {
     }
 
     try {
-      const xmlData = this.parse(xmlContent)
+      const xmlData = this.parse(TextParser.markRunOrder(xmlContent))
       const txBody = xmlData['a:txBody'] || xmlData.txBody
       
       if (!txBody) {
@@ -47,6 +98,7 @@ export class TextParser extends XMLParser {
       }
 
       // Парсинг абзацев
+      this.listStyles = this.collectListStyles(txBody, [])
       const paragraphs = this.parseParagraphs(txBody)
       result.paragraphs = paragraphs
       result.success = true
@@ -58,6 +110,93 @@ export class TextParser extends XMLParser {
     return result
   }
 
+  // Парсинг уже разобранного текстового блока (txBody ячейки таблицы, фигуры).
+  // inheritedListStyles — стили уровней из мастера и макета, от низшего приоритета к высшему,
+  // masterStyles — стили мастера, к которым привязываются runs с совпадающими свойствами
+  parseTextBodyNode(txBody: any, inheritedListStyles: any[] = [], masterStyles: MasterTextStyle[] = []): TextParseResult {
+    const result: TextParseResult = {
+      success: false,
+      paragraphs: [],
+      errors: [],
+      warnings: []
+    }
+
+    if (!txBody) {
+      result.errors.push('Текстовый блок (txBody) не найден')
+      return result
+    }
+
+    this.listStyles = this.collectListStyles(txBody, inheritedListStyles)
+    this.masterStyles = masterStyles
+    result.paragraphs = this.parseParagraphs(txBody)
+    this.masterStyles = []
+    result.success = true
+    return result
+  }
+
+  // Стили текста мастер-слайда (p:txStyles) по уровням; idPrefix — путь части мастера
+  parseMasterTextStyles(txStyles: any, idPrefix: string): MasterTextStyle[] {
+    const styles: MasterTextStyle[] = []
+    if (!txStyles || typeof txStyles !== 'object') return styles
+
+    for (const definition of MASTER_TEXT_STYLES) {
+      const listStyle = txStyles[definition.key]
+      if (!listStyle || typeof listStyle !== 'object') continue
+
+      this.listStyles = [listStyle]
+      for (let level = 0; level < definition.levels; level++) {
+        if (!listStyle[`a:lvl${level + 1}pPr`]) continue
+
+        const name = definition.levels > 1 ? `${definition.name} L${level + 1}` : definition.name
+        const pPr = this.resolveParagraphProperties({ '@lvl': String(level) })
+        styles.push({
+          id: `${idPrefix}#${name}`,
+          name,
+          category: definition.category,
+          level,
+          style: this.parseRunProperties({}, pPr['a:defRPr'])
+        })
+      }
+    }
+
+    this.listStyles = []
+    return styles
+  }
+
+  // Цепочка стилей уровней: унаследованные, затем собственный a:lstStyle блока
+  private collectListStyles(txBody: any, inheritedListStyles: any[]): any[] {
+    const lstStyle = txBody['a:lstStyle']
+    return lstStyle && typeof lstStyle === 'object' ? [...inheritedListStyles, lstStyle] : [...inheritedListStyles]
+  }
+
+  // Свойства уровня абзаца (a:lvlNpPr) по всей цепочке стилей, собственные свойства перекрывают унаследованные
+  private resolveParagraphProperties(pPr: any): any {
+    const chain = this.getPropertiesChain(pPr)
+    const merged = this.mergeProperties(chain)
+
+    merged['a:defRPr'] = this.mergeProperties(chain.map(levelPr => levelPr['a:defRPr']))
+    return merged
+  }
+
+  // Свойства уровня абзаца по цепочке стилей от низшего приоритета к высшему, последним — собственный a:pPr
+  private getPropertiesChain(pPr: any): any[] {
+    const level = parseInt(pPr['@lvl'] || '0') || 0
+    const levelKey = `a:lvl${level + 1}pPr`
+    const levels = this.listStyles.map(listStyle => listStyle[levelKey]).filter(Boolean)
+    return [...levels, pPr]
+  }
+
+  // Поверхностное слияние атрибутов и дочерних узлов свойств
+  private mergeProperties(nodes: any[]): any {
+    const merged: any = {}
+    for (const node of nodes) {
+      if (node && typeof node === 'object') {
+        Object.assign(merged, node)
+      }
+    }
+    return merged
+  }
+
   // Парсинг абзацев (p)
   private parseParagraphs(txBody: any): Paragraph[] {
     const paragraphs = txBody['a:p'] || txBody.p || []
@@ -66,18 +205,125 @@ export class TextParser extends XMLParser {
     if (!Array.isArray(paragraphs)) {
       // Если только один абзац
       const paragraph = this.parseParagraph(paragraphs, 0)
-      return paragraph ? [paragraph] : []
+      if (paragraph) elements.push(paragraph)
+    } else {
+      for (let i = 0; i < paragraphs.length; i++) {
+        const paragraph = paragraphs[i]
+        const element = this.parseParagraph(paragraph, i)
+        if (element) {
+          elements.push(element)
+        }
+      }
+    }
+
+    this.assignRunIndices(elements)
+    this.assignBulletNumbers(elements)
+    return elements
+  }
+
+  // Сквозная нумерация: счетчик уровня продолжается, пока идут абзацы той же схемы;
+  // абзац более высокого уровня сбрасывает счетчики вложенных, абзац без номера — счетчик своего уровня.
+  // Пустые абзацы PowerPoint показывает без маркера и не учитывает в нумерации
+  private assignBulletNumbers(paragraphs: Paragraph[]): void {
+    const counters: Array<{ scheme: string; startAt: number; next: number } | undefined> = []
+
+    for (const paragraph of paragraphs) {
+      const bullet = paragraph.bullet
+      if (!paragraph.runs.some(run => run.text.length > 0)) {
+        paragraph.bullet = undefined
+        paragraph.bulletType = 'none'
+        continue
+      }
+
+      const level = paragraph.bulletLevel || 0
+      counters.length = Math.min(counters.length, level + 1)
+
+      if (bullet?.type !== 'number') {
+        counters[level] = undefined
+        if (bullet) paragraph.bulletText = bullet.text
+        continue
+      }
+
+      const scheme = bullet.scheme || DEFAULT_AUTONUMBER_SCHEME
+      const startAt = bullet.startAt || 1
+      let counter = counters[level]
+      if (!counter || counter.scheme !== scheme || counter.startAt !== startAt) {
+        counter = { scheme, startAt, next: startAt }
+        counters[level] = counter
+        if (!isSupportedAutoNumberScheme(scheme)) {
+          console.warn(`Схема автонумерации ${scheme} не поддерживается, используется ${DEFAULT_AUTONUMBER_SCHEME}`)
+        }
+      }
+
+      bullet.number = counter.next++
+      bullet.text = formatAutoNumber(scheme, bullet.number)
+      paragraph.bulletText = bullet.text
     }
+  }
 
-    for (let i = 0; i < paragraphs.length; i++) {
-      const paragraph = paragraphs[i]
-      const element = this.parseParagraph(paragraph, i)
-      if (element) {
-        elements.push(element)
+  // Маркер абзаца по цепочке свойств уровней; a:buNone или отсутствие маркера — абзац без маркера
+  private parseBullet(chain: any[]): ParagraphBullet | undefined {
+    const typeNode = this.findLast(chain, BULLET_TYPE_KEYS)
+    if (!typeNode || typeNode['a:buNone'] !== undefined) return undefined
+
+    let bullet: ParagraphBullet
+    if (typeNode['a:buAutoNum'] !== undefined) {
+      const autoNum = typeNode['a:buAutoNum']
+      bullet = {
+        type: 'number',
+        text: '',
+        scheme: XMLParser.getAttribute(autoNum, 'type') || DEFAULT_AUTONUMBER_SCHEME,
+        startAt: XMLParser.getNumberAttribute(autoNum, 'startAt', 1)
       }
+    } else {
+      const char = typeNode['a:buChar'] !== undefined ? XMLParser.getAttribute(typeNode['a:buChar'], 'char') : undefined
+      bullet = { type: 'bullet', text: char || DEFAULT_BULLET_CHAR }
     }
 
-    return elements
+    // a:buFontTx, a:buClrTx и a:buSzTx — маркер следует за текстом
+    const fontNode = this.findLast(chain, BULLET_FONT_KEYS)
+    if (fontNode?.['a:buFont'] !== undefined) {
+      bullet.fontFamily = this.resolveThemeFont(XMLParser.getAttribute(fontNode['a:buFont'], 'typeface'))
+    }
+
+    const colorNode = this.findLast(chain, BULLET_COLOR_KEYS)
+    if (colorNode?.['a:buClr'] !== undefined) {
+      bullet.color = this.colorResolver?.(colorNode['a:buClr'])
+    }
+
+    const sizeNode = this.findLast(chain, BULLET_SIZE_KEYS)
+    if (sizeNode?.['a:buSzPct'] !== undefined) {
+      // a:buSzPct задается в тысячных долях процента
+      bullet.sizePercent = XMLParser.getNumberAttribute(sizeNode['a:buSzPct'], 'val', 100000) / 100000
+    } else if (sizeNode?.['a:buSzPts'] !== undefined) {
+      bullet.sizePoints = XMLParser.getNumberAttribute(sizeNode['a:buSzPts'], 'val', 0) / 100
+    }
+
+    return bullet
+  }
+
+  // Последний (с наибольшим приоритетом) узел цепочки, где задано любое из свойств
+  private findLast(chain: any[], keys: string[]): any {
+    for (let i = chain.length - 1; i >= 0; i--) {
+      const node = chain[i]
+      if (node && typeof node === 'object' && keys.some(key => node[key] !== undefined)) {
+        return node
+      }
+    }
+    return undefined
+  }
+
+  // Индексы символов runs в тексте всего блока: абзацы идут подряд и разделяются переводом строки
+  private assignRunIndices(paragraphs: Paragraph[]): void {
+    let offset = 0
+    for (const paragraph of paragraphs) {
+      for (const run of paragraph.runs) {
+        run.startIndex = offset
+        run.endIndex = offset + run.text.length
+        offset = run.endIndex
+      }
+      offset += 1
+    }
   }
 
   // Парсинг отдельного абзаца
@@ -85,18 +331,27 @@ export class TextParser extends XMLParser {
     if (!pElement) return null
 
     try {
+      // Свойства абзаца с учетом стилей уровней мастера, макета и a:lstStyle
+      const ownPPr = pElement['a:pPr'] || pElement.pPr || {}
+      const pPr = this.resolveParagraphProperties(ownPPr)
+
       // Парсинг текстовых runs (r)
-      const runs = this.parseTextRuns(pElement)
+      const level = parseInt(pPr['@lvl'] || '0') || 0
+      const masterStyle = this.masterStyles.find(style => style.level === level)
+      const runs = this.parseTextRuns(pElement, pPr['a:defRPr'], masterStyle)
       
       // Парсинг свойств абзаца
-      const paragraphProps = this.parseParagraphProperties(pElement)
+      const paragraphProps = this.parseParagraphProperties(pPr)
       
       // Создание элемента абзаца
+      const bullet = this.parseBullet(this.getPropertiesChain(ownPPr))
       const paragraph: Paragraph = {
         id: `paragraph-${index}`,
         runs,
         style: paragraphProps,
-        level: paragraphProps.level || 0
+        bulletType: bullet ? bullet.type : 'none',
+        bulletLevel: level,
+        bullet
       }
 
       return paragraph
@@ -108,39 +363,32 @@ export class TextParser extends XMLParser {
   }
 
   // Парсинг текстовых runs (r)
-  private parseTextRuns(pElement: any): TextRun[] {
-    const runs = pElement['a:r'] || pElement.r || []
+  private parseTextRuns(pElement: any, defaultRunProperties: any = {}, masterStyle?: MasterTextStyle): TextRun[] {
     const textRuns: TextRun[] = []
 
-    if (!Array.isArray(runs)) {
-      // Если только один run
-      const run = this.parseTextRun(runs, 0)
-      if (run) textRuns.push(run)
-      return textRuns
-    }
-
-    for (let i = 0; i < runs.length; i++) {
-      const run = runs[i]
-      const textRun = this.parseTextRun(run, i)
+    // Runs, разрывы строк и поля идут в порядке документа, чтобы индексы символов совпадали с PowerPoint
+    XMLParser.getOrderedChildren(pElement, RUN_ELEMENTS).forEach(({ name, node }, index) => {
+      const textRun = this.parseTextRun(node, index, defaultRunProperties, masterStyle, name === 'a:br')
       if (textRun) {
         textRuns.push(textRun)
       }
-    }
+    })
 
     return textRuns
   }
 
   // Парсинг отдельного текстового run
-  private parseTextRun(rElement: any, index: number): TextRun | null {
+  // a:fld разбирается как run: a:t содержит последнее значение поля (номер слайда, дата)
+  private parseTextRun(rElement: any, index: number, defaultRunProperties: any = {}, masterStyle?: MasterTextStyle, lineBreak = false): TextRun | null {
     if (!rElement) return null
 
     try {
       // Извлечение текста
       const textElement = rElement['a:t'] || rElement.t
-      const text = this.extractText(textElement)
+      const text = lineBreak ? LINE_BREAK : this.extractText(textElement)
 
       // Парсинг свойств run
-      const runProps = this.parseRunProperties(rElement)
+      const runProps = this.parseRunProperties(rElement, defaultRunProperties)
       
       // Парсинг гиперссылки
       const hyperlink = this.parseHyperlink(rElement)
@@ -150,11 +398,15 @@ export class TextParser extends XMLParser {
         id: `run-${index}`,
         text,
         style: runProps,
-        startIndex: 0, // TODO: Вычислить правильный индекс
+        startIndex: 0, // индексы в тексте блока назначаются в assignRunIndices
         endIndex: text.length,
         hyperlink
       }
 
+      if (masterStyle && this.hasSameTypography(runProps, masterStyle.style)) {
+        textRun.masterStyleId = masterStyle.id
+      }
+
       return textRun
 
     } catch (error) {
@@ -163,14 +415,28 @@ export class TextParser extends XMLParser {
     }
   }
 
+  // Совпадение свойств, которые переносятся в стиль текста Figma (цвет задается заливкой)
+  private hasSameTypography(style: TextStyle, masterStyle: TextStyle): boolean {
+    return style.fontFamily === masterStyle.fontFamily &&
+      style.fontSize === masterStyle.fontSize &&
+      style.fontWeight === masterStyle.fontWeight &&
+      style.fontStyle === masterStyle.fontStyle &&
+      style.textDecoration === masterStyle.textDecoration
+  }
+
   // Извлечение текста из элемента
   private extractText(textElement: any): string {
-    if (!textElement) return ''
+    if (textElement === undefined || textElement === null || textElement === '') return ''
 
     if (typeof textElement === 'string') {
       return textElement
     }
 
+    // Числовой текст (например, «2024») разбирается парсером как число
+    if (typeof textElement === 'number') {
+      return String(textElement)
+    }
+
     if (textElement['#text']) {
       return textElement['#text']
     }
@@ -182,99 +448,89 @@ export class TextParser extends XMLParser {
     return ''
   }
 
-  // Парсинг свойств абзаца
-  private parseParagraphProperties(pElement: any): TextStyle {
-    const pPr = pElement['a:pPr'] || pElement.pPr || {}
-    
+  // Парсинг свойств абзаца: интервалы сохраняют единицы PowerPoint, отступы переводятся в пиксели
+  private parseParagraphProperties(pPr: any): ParagraphStyle {
     return {
       alignment: this.parseAlignment(pPr),
-      level: this.parseLevel(pPr),
-      spacing: this.parseSpacing(pPr),
-      listStyle: this.parseListStyle(pPr),
-      indentation: this.parseIndentation(pPr)
+      lineHeight: this.parseSpacing(pPr['a:lnSpc'], { unit: 'percent', value: 1 }),
+      letterSpacing: 0,
+      textIndent: this.parseEMU(pPr['@indent']),
+      marginTop: this.parseSpacing(pPr['a:spcBef'], { unit: 'points', value: 0 }),
+      marginBottom: this.parseSpacing(pPr['a:spcAft'], { unit: 'points', value: 0 }),
+      marginLeft: this.parseEMU(pPr['@marL']),
+      marginRight: 0
     }
   }
 
   // Парсинг свойств run
-  private parseRunProperties(rElement: any): TextStyle {
-    const rPr = rElement['a:rPr'] || rElement.rPr || {}
+  private parseRunProperties(rElement: any, defaultRunProperties: any = {}): TextStyle {
+    // a:defRPr уровня абзаца задает значения, не указанные в a:rPr
+    const rPr = this.mergeProperties([defaultRunProperties, rElement['a:rPr'] || rElement.rPr])
     
     return {
-      font: this.parseFont(rPr),
-      size: this.parseFontSize(rPr),
+      fontFamily: this.parseFont(rPr),
+      fontSize: this.parseFontSize(rPr),
+      fontWeight: this.parseBold(rPr) ? 'bold' : 'normal',
+      fontStyle: this.parseItalic(rPr) ? 'italic' : 'normal',
+      textDecoration: this.parseStrikethrough(rPr)
+        ? 'line-through'
+        : this.parseUnderline(rPr) !== 'none' ? 'underline' : 'none',
       color: this.parseColor(rPr),
-      bold: this.parseBold(rPr),
-      italic: this.parseItalic(rPr),
-      underline: this.parseUnderline(rPr),
-      strikethrough: this.parseStrikethrough(rPr)
+      opacity: 1 // прозрачность передается альфой цвета
     }
   }
 
   // Парсинг выравнивания
-  private parseAlignment(pPr: any): string {
+  private parseAlignment(pPr: any): ParagraphStyle['alignment'] {
     const algn = pPr['@algn'] || pPr.algn
-    return algn || 'l' // left по умолчанию
-  }
-
-  // Парсинг уровня
-  private parseLevel(pPr: any): number {
-    const lvl = pPr['@lvl'] || pPr.lvl
-    return parseInt(lvl) || 0
-  }
-
-  // Парсинг отступов
-  private parseSpacing(pPr: any): any {
-    const spc = pPr['a:spc'] || pPr.spc || {}
-    return {
-      before: this.parseEMU(spc['@bef'] || spc.bef),
-      after: this.parseEMU(spc['@aft'] || spc.aft),
-      line: this.parsePercentage(spc['@ln'] || spc.ln)
+    switch (algn) {
+      case 'ctr': return 'center'
+      case 'r': return 'right'
+      case 'just':
+      case 'dist': return 'justify'
+      default: return 'left'
     }
   }
 
-  // Парсинг стиля списка
-  private parseListStyle(pPr: any): ListStyle | null {
-    const numPr = pPr['a:numPr'] || pPr.numPr
-    if (!numPr) return null
+  // Парсинг интервала (a:lnSpc, a:spcBef, a:spcAft): a:spcPct в тысячных долях процента, a:spcPts в сотых долях пункта
+  private parseSpacing(spacing: any, defaultValue: TextSpacing): TextSpacing {
+    if (!spacing || typeof spacing !== 'object') return defaultValue
 
-    const ilvl = numPr['a:ilvl'] || numPr.ilvl
-    const numId = numPr['a:numId'] || numPr.numId
+    const percent = XMLParser.getChild(spacing, 'a:spcPct')
+    if (percent !== undefined) {
+      return { unit: 'percent', value: XMLParser.getNumberAttribute(percent, 'val', 100000) / 100000 }
+    }
 
-    return {
-      level: parseInt(ilvl?.['@val'] || ilvl?.val || '0'),
-      numberId: parseInt(numId?.['@val'] || numId?.val || '0'),
-      type: this.determineListType(numId)
+    const points = XMLParser.getChild(spacing, 'a:spcPts')
+    if (points !== undefined) {
+      return { unit: 'points', value: XMLParser.getNumberAttribute(points, 'val', 0) / 100 }
     }
-  }
 
-  // Определение типа списка
-  private determineListType(numId: any): 'bullet' | 'number' | 'none' {
-    // Здесь должна быть логика определения типа списка
-    // по numId и соответствующим определениям списков
-    return 'bullet'
+    return defaultValue
   }
 
-  // Парсинг отступов
-  private parseIndentation(pPr: any): any {
-    const indent = pPr['a:ind'] || pPr.ind || {}
-    return {
-      left: this.parseEMU(indent['@l'] || indent.l),
-      right: this.parseEMU(indent['@r'] || indent.r),
-      firstLine: this.parseEMU(indent['@fl'] || indent.fl),
-      hanging: this.parseEMU(indent['@h'] || indent.h)
-    }
+  // Парсинг шрифта (a:latin@typeface)
+  private parseFont(rPr: any): string {
+    const latin = rPr['a:latin'] || rPr.latin
+    const font = latin?.['@typeface'] || rPr['@typeface'] || rPr.typeface
+    return this.resolveThemeFont(font) || 'Arial'
   }
 
-  // Парсинг шрифта
-  private parseFont(rPr: any): string {
-    const font = rPr['@typeface'] || rPr.typeface
-    return font || 'Arial'
+  // Ссылки на шрифты темы: +mj-* — шрифт заголовков, +mn-* — основной текст
+  private resolveThemeFont(font: string | undefined): string | undefined {
+    const match = font?.match(/^\+(mj|mn)-(lt|ea|cs)$/)
+    if (!match) return font
+
+    const fonts = match[1] === 'mj' ? this.fontScheme?.fonts.majorFont : this.fontScheme?.fonts.minorFont
+    const script = match[2] === 'ea' ? fonts?.eastAsian : match[2] === 'cs' ? fonts?.complexScript : fonts?.latin
+    return script?.typeface || fonts?.latin.typeface
   }
 
   // Парсинг размера шрифта
   private parseFontSize(rPr: any): number {
-    const size = rPr['@sz'] || rPr.sz
-    return this.parseEMU(size) || 12
+    // sz задается в сотых долях пункта
+    const size = parseInt(rPr['@sz'] || rPr.sz)
+    return size > 0 ? size / 100 : 18 // 18 pt — размер PowerPoint по умолчанию
   }
 
   // Парсинг цвета
@@ -282,6 +538,9 @@ export class TextParser extends XMLParser {
     const color = rPr['a:solidFill'] || rPr.solidFill
     if (!color) return { r: 0, g: 0, b: 0 }
 
+    const resolved = this.colorResolver?.(color)
+    if (resolved) return resolved
+
     const srgbClr = color['a:srgbClr'] || color.srgbClr
     if (srgbClr) {
       const val = srgbClr['@val'] || srgbClr.val
@@ -335,27 +594,27 @@ export class TextParser extends XMLParser {
     return emu / 9525 // 914400 / 96 DPI
   }
 
-  // Парсинг процентов
-  private parsePercentage(percentValue: string | number): number {
-    if (!percentValue) return 100
-    const percent = parseInt(percentValue.toString())
-    return percent / 1000 // PPTX использует тысячные доли
-  }
-
   // Парсинг гиперссылки
   private parseHyperlink(rElement: any): Hyperlink | undefined {
-    const hlinkClick = rElement['a:hlinkClick'] || rElement.hlinkClick
+    // a:hlinkClick задается в свойствах run (a:rPr)
+    const rPr = rElement['a:rPr'] || rElement.rPr || {}
+    const hlinkClick = rPr['a:hlinkClick'] || rPr.hlinkClick || rElement['a:hlinkClick'] || rElement.hlinkClick
     if (!hlinkClick) return undefined
 
     const rId = hlinkClick['@r:id'] || hlinkClick.rid
     if (!rId) return undefined
 
-    // TODO: Получить URL из relationships по rId
-    // Пока возвращаем заглушку
+    const relationship = this.relationships?.get(rId)
+    if (!relationship) {
+      console.warn(`Гиперссылка ${rId} не найдена в связях части`)
+      return undefined
+    }
+
+    // Внешние ссылки открываются в новой вкладке, переходы на слайды остаются внутри документа
     return {
-      url: `#${rId}`, // Временная заглушка
+      url: relationship.external ? relationship.target : `#${relationship.target}`,
       tooltip: hlinkClick['@tooltip'] || hlinkClick.tooltip,
-      target: '_blank'
+      target: relationship.external ? '_blank' : '_self'
     }
   }
 }
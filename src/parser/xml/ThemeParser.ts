@@ -22,7 +22,8 @@ export class ThemeParser extends XMLParser {
   private fontScheme: FontScheme | null = null
 
   constructor() {
-    super()
+    // Атрибуты оставляем строками: hex-цвета вида 000000 не должны превращаться в числа
+    super({ parseAttributeValue: false })
   }
 
   // Основной метод парсинга темы
@@ -122,7 +123,7 @@ export class ThemeParser extends XMLParser {
       const srgb = colorElement['a:srgbClr']
       return {
         type: 'rgb',
-        value: srgb['@attributes']?.val || '000000',
+        value: XMLParser.getAttribute(srgb, 'val') || '000000',
         tint: this.parseTint(srgb['a:tint']),
         shade: this.parseShade(srgb['a:shade']),
         alpha: this.parseAlpha(srgb['a:alpha'])
@@ -133,7 +134,7 @@ export class ThemeParser extends XMLParser {
       const scheme = colorElement['a:schemeClr']
       return {
         type: 'scheme',
-        value: scheme['@attributes']?.val || 'dk1',
+        value: XMLParser.getAttribute(scheme, 'val') || 'dk1',
         tint: this.parseTint(scheme['a:tint']),
         shade: this.parseShade(scheme['a:shade']),
         alpha: this.parseAlpha(scheme['a:alpha'])
@@ -142,9 +143,21 @@ export class ThemeParser extends XMLParser {
 
     if (colorElement['a:sysClr']) {
       const sys = colorElement['a:sysClr']
+      // lastClr хранит фактический цвет системного цвета на момент сохранения
+      const lastColor = XMLParser.getAttribute(sys, 'lastClr')
+      if (lastColor) {
+        return {
+          type: 'rgb',
+          value: lastColor,
+          tint: this.parseTint(sys['a:tint']),
+          shade: this.parseShade(sys['a:shade']),
+          alpha: this.parseAlpha(sys['a:alpha'])
+        }
+      }
+
       return {
         type: 'system',
-        value: sys['@attributes']?.val || 'window',
+        value: XMLParser.getAttribute(sys, 'val') || 'window',
         tint: this.parseTint(sys['a:tint']),
         shade: this.parseShade(sys['a:shade']),
         alpha: this.parseAlpha(sys['a:alpha'])
@@ -197,37 +210,37 @@ export class ThemeParser extends XMLParser {
   // Парсинг информации о шрифте
   private parseFontInfo(fontElement: any): FontInfo {
     return {
-      typeface: fontElement['@attributes']?.typeface || 'Arial',
-      panose: fontElement['@attributes']?.panose || '',
-      pitchFamily: fontElement['@attributes']?.pitchFamily || '18',
-      charset: fontElement['@attributes']?.charset || '0'
+      typeface: XMLParser.getAttribute(fontElement, 'typeface') || 'Arial',
+      panose: XMLParser.getAttribute(fontElement, 'panose') || '',
+      pitchFamily: XMLParser.getAttribute(fontElement, 'pitchFamily') || '18',
+      charset: XMLParser.getAttribute(fontElement, 'charset') || '0'
     }
   }
 
   // Парсинг tint (осветление)
   private parseTint(tintElement: any): number {
     if (!tintElement) return 0
-    const value = parseInt(tintElement['@attributes']?.val || '0')
-    return Math.max(0, Math.min(100, value)) / 100
+    const value = parseInt(XMLParser.getAttribute(tintElement, 'val') || '0')
+    return Math.max(0, Math.min(100000, value)) / 100000
   }
 
   // Парсинг shade (затемнение)
   private parseShade(shadeElement: any): number {
     if (!shadeElement) return 0
-    const value = parseInt(shadeElement['@attributes']?.val || '0')
-    return Math.max(0, Math.min(100, value)) / 100
+    const value = parseInt(XMLParser.getAttribute(shadeElement, 'val') || '0')
+    return Math.max(0, Math.min(100000, value)) / 100000
   }
 
   // Парсинг alpha (прозрачность)
   private parseAlpha(alphaElement: any): number {
     if (!alphaElement) return 1
-    const value = parseInt(alphaElement['@attributes']?.val || '100000')
+    const value = parseInt(XMLParser.getAttribute(alphaElement, 'val') || '100000')
     return Math.max(0, Math.min(1, value / 100000))
   }
 
   // Извлечение имени темы
   private extractThemeName(theme: any, themeNumber: number): string {
-    const themeName = theme['@attributes']?.name
+    const themeName = XMLParser.getAttribute(theme, 'name')
     return themeName || `Theme ${themeNumber}`
   }
 
@@ -6,7 +6,8 @@
  */
 
 import { XMLParser as FastXMLParser } from 'fast-xml-parser'
-import { ModelFactories, ModelUtils } from '../../models'
+import { ModelFactories, ModelUtils, angleToDegrees } from '../../models'
+import type { ColorModifiers } from '../../models/ThemeCache'
 
 export interface XMLParseOptions {
   ignoreAttributes: boolean
@@ -18,6 +19,23 @@ export interface XMLParseOptions {
   trimValues: boolean
 }
 
+// Штрихи и пробелы предустановленных пунктиров a:prstDash в долях толщины линии
+const DASH_PATTERNS: { [preset: string]: number[] } = {
+  solid: [],
+  dot: [1, 3],
+  dash: [4, 3],
+  lgDash: [8, 3],
+  dashDot: [4, 3, 1, 3],
+  lgDashDot: [8, 3, 1, 3],
+  lgDashDotDot: [8, 3, 1, 3, 1, 3],
+  sysDash: [3, 1],
+  sysDot: [1, 1],
+  sysDashDot: [3, 1, 1, 1],
+  sysDashDotDot: [3, 1, 1, 1, 1, 1]
+}
+// Атрибут с порядковым номером узла: fast-xml-parser группирует дочерние узлы по имени и теряет их порядок
+const ORDER_ATTRIBUTE = '__order'
+
 export class XMLParser {
   private parser: FastXMLParser
   private defaultOptions: XMLParseOptions = {
@@ -33,14 +51,50 @@ export class XMLParser {
   constructor(options: Partial<XMLParseOptions> = {}) {
     this.parser = new FastXMLParser({
       ...this.defaultOptions,
-      ...options
+      ...options,
+      // Числовые ссылки на символы (&#32;, &#x2022;) раскрываются только вместе с HTML-сущностями
+      htmlEntities: true
     })
   }
 
+  // Пробелы по краям a:t значимы (текст разбит на runs), а trimValues их отбрасывает.
+  // Заменяются ссылками на символы, которые раскрываются уже после обрезки
+  static preserveTextWhitespace(xmlString: string): string {
+    return xmlString.replace(/<a:t>([^<]*)<\/a:t>/g, (match, text: string) => {
+      if (!/^\s|\s$/.test(text)) return match
+      const escaped = text.replace(/^\s+|\s+$/g, whitespace => whitespace.replace(/\s/g, char => `&#${char.charCodeAt(0)};`))
+      return `<a:t>${escaped}</a:t>`
+    })
+  }
+
+  // Нумерация узлов с указанными именами в исходном XML до разбора, чтобы восстановить порядок соседей разных типов
+  static markOrder(xmlString: string, tagNames: string[]): string {
+    let order = 0
+    const pattern = new RegExp(`<(?:${tagNames.join('|')})(?=[\\s/>])`, 'g')
+    return xmlString.replace(pattern, match => `${match} ${ORDER_ATTRIBUTE}="${order++}"`)
+  }
+
+  // Дочерние узлы с указанными именами в порядке следования в документе (после markOrder)
+  static getOrderedChildren(obj: any, childNames: string[]): Array<{ name: string; node: any }> {
+    const children: Array<{ name: string; node: any; order: number }> = []
+
+    for (const name of childNames) {
+      // Пустой узел без атрибута порядка разбирается как '', поэтому заменяется объектом
+      const value = obj && typeof obj === 'object' ? obj[name] : undefined
+      const nodes = value === undefined ? [] : Array.isArray(value) ? value : [value]
+      for (const node of nodes) {
+        const order = parseInt(this.getAttribute(node, ORDER_ATTRIBUTE) || '', 10)
+        children.push({ name, node: node || {}, order: isNaN(order) ? children.length : order })
+      }
+    }
+
+    return children.sort((a, b) => a.order - b.order).map(({ name, node }) => ({ name, node }))
+  }
+
   // Парсинг XML строки
   parse(xmlString: string): any {
     try {
-      return this.parser.parse(xmlString)
+      return this.parser.parse(XMLParser.preserveTextWhitespace(xmlString))
     } catch (error) {
       console.error('XML parsing error:', error)
       throw new Error(`Failed to parse XML: ${error instanceof Error ? error.message : 'Unknown error'}`)
@@ -135,22 +189,25 @@ export class XMLParser {
     if (!obj) return undefined
     
     // Проверяем различные форматы цвета в PPTX
-    if (obj.srgbClr) {
-      const hexColor = this.getAttribute(obj.srgbClr, 'val')
+    const srgbClr = obj['a:srgbClr'] || obj.srgbClr
+    if (srgbClr) {
+      const hexColor = this.getAttribute(srgbClr, 'val')
       if (hexColor) {
-        return ModelUtils.hexToRGB(hexColor)
+        return ModelUtils.hexToRGB(String(hexColor))
       }
     }
     
-    if (obj.schemeClr) {
-      const schemeColor = this.getAttribute(obj.schemeClr, 'val')
+    const schemeClr = obj['a:schemeClr'] || obj.schemeClr
+    if (schemeClr) {
+      const schemeColor = this.getAttribute(schemeClr, 'val')
       if (schemeColor) {
         return this.getSchemeColor(schemeColor)
       }
     }
     
-    if (obj.sysClr) {
-      const sysColor = this.getAttribute(obj.sysClr, 'val')
+    const sysClr = obj['a:sysClr'] || obj.sysClr
+    if (sysClr) {
+      const sysColor = this.getAttribute(sysClr, 'val')
       if (sysColor) {
         return this.getSystemColor(sysColor)
       }
@@ -159,6 +216,22 @@ export class XMLParser {
     return undefined
   }
 
+  // Получение модификаторов цвета (a:tint, a:shade, a:lumMod, a:lumOff, a:alpha) в долях 0-1
+  static getColorModifiers(colorNode: any): ColorModifiers {
+    const modifiers: ColorModifiers = {}
+    if (!colorNode || typeof colorNode !== 'object') return modifiers
+
+    const names: Array<keyof ColorModifiers> = ['tint', 'shade', 'lumMod', 'lumOff', 'alpha']
+    for (const name of names) {
+      const modifier = this.getChild(colorNode, `a:${name}`)
+      if (modifier !== undefined) {
+        modifiers[name] = this.getNumberAttribute(modifier, 'val', 100000) / 100000
+      }
+    }
+
+    return modifiers
+  }
+
   // Получение цвета из схемы
   private static getSchemeColor(schemeName: string): any {
     const schemeColors: { [key: string]: any } = {
@@ -233,13 +306,11 @@ export class XMLParser {
     return ModelFactories.createRectangle(x, y, width, height)
   }
 
-  // Получение поворота из XML
+  // Получение поворота из XML в градусах [0, 360)
   static getRotation(obj: any): number {
     if (!obj) return 0
     
-    const rotation = this.getNumberAttribute(obj, 'rot', 0)
-    // PPTX использует 60000 единиц на градус
-    return rotation / 60000
+    return angleToDegrees(this.getNumberAttribute(obj, 'rot', 0))
   }
 
   // Получение прозрачности из XML
@@ -267,14 +338,30 @@ export class XMLParser {
     
     switch (lineType) {
       case 'sng':
+      case 'solid':
         return 'solid'
-      case 'dash':
-        return 'dashed'
       case 'dot':
+      case 'sysDot':
         return 'dotted'
       default:
-        return 'none'
+        return lineType && DASH_PATTERNS[lineType] ? 'dashed' : 'none'
+    }
+  }
+
+  // Пунктир линии a:ln в долях толщины: a:prstDash или a:custDash (d и sp в тысячных долях процента)
+  static getDashPattern(ln: any): number[] | undefined {
+    const prstDash = this.getChild(ln, 'a:prstDash')
+    if (prstDash) {
+      const pattern = DASH_PATTERNS[this.getAttribute(prstDash, 'val') || '']
+      return pattern && pattern.length > 0 ? pattern : undefined
+    }
+
+    const custDash = this.getChild(ln, 'a:custDash')
+    const pattern: number[] = []
+    for (const ds of this.getChildren(custDash, 'a:ds')) {
+      pattern.push(this.getNumberAttribute(ds, 'd', 0) / 100000, this.getNumberAttribute(ds, 'sp', 0) / 100000)
     }
+    return pattern.some(value => value > 0) ? pattern : undefined
   }
 
   // Получение выравнивания текста из XML
@@ -1,7 +1,7 @@
 /**
  * @file: index.ts
  * @description: Главный файл экспорта XML парсеров
- * @dependencies: XMLParser, PresentationParser, SlideParser
+ * @dependencies: XMLParser, PresentationParser, SlideParser, GeometryParser, TableStyleParser
  * @created: 2024-12-19
  */
 
@@ -9,6 +9,7 @@ import { XMLParser } from './XMLParser'
 import { PresentationParser } from './PresentationParser'
 import { SlideParser } from './SlideParser'
 import { ThemeParser } from './ThemeParser'
+import { ChartParser } from './ChartParser'
 
 // Экспорт базового XML парсера
 export { XMLParser } from './XMLParser'
@@ -18,9 +19,14 @@ export type { XMLParseOptions } from './XMLParser'
 export { PresentationParser } from './PresentationParser'
 export type { PresentationInfo } from './PresentationParser'
 export { SlideParser } from './SlideParser'
-export type { SlideData } from './SlideParser'
+export type { SlideData, SlideParseContext } from './SlideParser'
 export { ThemeParser } from './ThemeParser'
 export type { ThemeParseResult } from './ThemeParser'
+export { ChartParser } from './ChartParser'
+export type { ChartData } from './ChartParser'
+export { TableStyleParser } from './TableStyleParser'
+export type { TableStyles, TableStyleDefinition } from './TableStyleParser'
+export { GeometryParser } from './GeometryParser'
 
 // Экспорт утилит для работы с XML
 export const XMLUtils = {
@@ -47,6 +53,7 @@ export const XMLUtils = {
     MASTERS: 'ppt/slideMasters/',
     THEMES: 'ppt/theme/',
     MEDIA: 'ppt/media/',
+    CHARTS: 'ppt/charts/',
     RELATIONSHIPS: '_rels/',
     SLIDE_RELATIONSHIPS: 'ppt/slides/_rels/',
     MASTER_RELATIONSHIPS: 'ppt/slideMasters/_rels/'
@@ -101,6 +108,11 @@ export class ParserFactory {
     return new SlideParser()
   }
 
+  // Создание парсера для chart*.xml
+  static createChartParser(): any {
+    return new ChartParser()
+  }
+
   // Создание базового XML парсера
   static createXMLParser(options?: any): any {
     return new XMLParser(options)
@@ -110,4 +122,5 @@ export class ParserFactory {
 // Автоматическая регистрация парсеров
 ParserFactory.registerParser('presentation', ParserFactory.createPresentationParser)
 ParserFactory.registerParser('slide', ParserFactory.createSlideParser)
+ParserFactory.registerParser('chart', ParserFactory.createChartParser)
 ParserFactory.registerParser('xml', ParserFactory.createXMLParser)
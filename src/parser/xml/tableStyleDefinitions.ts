@@ -0,0 +1,183 @@
+/**
+ * @file: tableStyleDefinitions.ts
+ * @description: Встроенные стили таблиц PowerPoint по GUID (a:tableStyleId), на которые таблица может ссылаться
+ * без определения в ppt/tableStyles.xml. Части стилей повторяют заливки, границы и текст встроенных стилей
+ * @dependencies: -
+ * @created: 2026-10-18
+ */
+
+// Построение разметки частей a:tblStyle: цвета задаются цветами схемы и разрешаются темой слайда
+const FULL = ['left', 'right', 'top', 'bottom', 'insideH', 'insideV']
+const OUTER = ['left', 'right', 'top', 'bottom']
+
+const scheme = (value: string, modifiers = '') => `<a:schemeClr val="${value}">${modifiers}</a:schemeClr>`
+const tint = (value: number) => `<a:tint val="${value}"/>`
+const shade = (value: number) => `<a:shade val="${value}"/>`
+const alpha = (value: number) => `<a:alpha val="${value}"/>`
+const fill = (color: string) => `<a:fill><a:solidFill>${color}</a:solidFill></a:fill>`
+const line = (color: string, width = 12700, compound = 'sng') => `<a:ln w="${width}" cmpd="${compound}"><a:solidFill>${color}</a:solidFill></a:ln>`
+const borders = (sides: string[], ln: string) => `<a:tcBdr>${sides.map(side => `<a:${side}>${ln}</a:${side}>`).join('')}</a:tcBdr>`
+const text = (color?: string, bold = false) => `<a:tcTxStyle${bold ? ' b="on"' : ''}>${color || ''}</a:tcTxStyle>`
+const part = (name: string, content: { text?: string; borders?: string; fill?: string }) =>
+  `<a:${name}>${content.text || ''}<a:tcStyle>${content.borders || ''}${content.fill || ''}</a:tcStyle></a:${name}>`
+
+// Полосы строк и столбцов с одинаковой заливкой
+const bands = (content: { borders?: string; fill?: string }, vertical = content) =>
+  part('band1H', content) + part('band1V', vertical)
+// Итоговые столбцы выделяются полужирным текстом
+const boldColumns = (color?: string) => part('firstCol', { text: text(color, true) }) + part('lastCol', { text: text(color, true) })
+
+// Семейства стилей: color — цвет акцента (dk1 у вариантов без акцента), header — цвет строки заголовка Dark Style 2
+export const TABLE_STYLE_FAMILIES: { [family: string]: (color: string, header: string) => string } = {
+  noGrid: () =>
+    part('wholeTbl', { text: text(scheme('dk1')) }),
+  tableGrid: () =>
+    part('wholeTbl', { text: text(scheme('dk1')), borders: borders(FULL, line(scheme('dk1'))) }),
+  themed1: color =>
+    part('wholeTbl', { text: text(scheme('dk1')), borders: borders(FULL, line(scheme(color))) }) +
+    bands({ fill: fill(scheme(color, alpha(40000))) }) +
+    boldColumns() +
+    part('lastRow', { text: text(undefined, true), borders: borders(['top'], line(scheme(color), 38100)) }) +
+    part('firstRow', { text: text(scheme('lt1'), true), fill: fill(scheme(color)) }),
+  themed2: color =>
+    part('wholeTbl', { text: text(scheme('lt1')), borders: borders(OUTER, line(scheme(color, tint(50000)))), fill: fill(scheme(color)) }) +
+    bands({ fill: fill(scheme('lt1', alpha(20000))) }) +
+    boldColumns() +
+    part('lastRow', { text: text(undefined, true), borders: borders(['top'], line(scheme('lt1'), 38100)) }) +
+    part('firstRow', { text: text(undefined, true), borders: borders(['bottom'], line(scheme('lt1'), 38100)) }),
+  light1: color =>
+    part('wholeTbl', { text: text(scheme('dk1')), borders: borders(['top', 'bottom'], line(scheme(color))) }) +
+    bands({ fill: fill(scheme(color, alpha(20000))) }) +
+    boldColumns() +
+    part('lastRow', { text: text(undefined, true), borders: borders(['top'], line(scheme(color))) }) +
+    part('firstRow', { text: text(undefined, true), borders: borders(['bottom'], line(scheme(color))) }),
+  light2: color =>
+    part('wholeTbl', { text: text(scheme('dk1')), borders: borders(OUTER, line(scheme(color))) }) +
+    bands({ borders: borders(['top', 'bottom'], line(scheme(color))) }, { borders: borders(['left', 'right'], line(scheme(color))) }) +
+    boldColumns() +
+    part('lastRow', { text: text(undefined, true), borders: borders(['top'], line(scheme(color), 50800, 'dbl')) }) +
+    part('firstRow', { text: text(scheme('lt1'), true), fill: fill(scheme(color)) }),
+  light3: color =>
+    part('wholeTbl', { text: text(scheme('dk1')), borders: borders(FULL, line(scheme(color))) }) +
+    bands({ fill: fill(scheme(color, alpha(20000))) }) +
+    boldColumns() +
+    part('lastRow', { text: text(undefined, true), borders: borders(['top'], line(scheme(color), 50800, 'dbl')) }) +
+    part('firstRow', { text: text(scheme(color), true), borders: borders(['bottom'], line(scheme(color), 25400)) }),
+  medium1: color =>
+    part('wholeTbl', { text: text(scheme('dk1')), borders: borders([...OUTER, 'insideH'], line(scheme(color))), fill: fill(scheme('lt1')) }) +
+    bands({ fill: fill(scheme(color, tint(20000))) }) +
+    boldColumns() +
+    part('lastRow', { text: text(undefined, true), borders: borders(['top'], line(scheme(color), 50800, 'dbl')), fill: fill(scheme('lt1')) }) +
+    part('firstRow', { text: text(scheme('lt1'), true), fill: fill(scheme(color)) }),
+  medium2: color =>
+    part('wholeTbl', { text: text(scheme('dk1')), borders: borders(FULL, line(scheme('lt1'))), fill: fill(scheme(color, tint(20000))) }) +
+    bands({ fill: fill(scheme(color, tint(40000))) }) +
+    part('lastCol', { text: text(scheme('lt1'), true), fill: fill(scheme(color)) }) +
+    part('firstCol', { text: text(scheme('lt1'), true), fill: fill(scheme(color)) }) +
+    part('lastRow', { text: text(scheme('lt1'), true), borders: borders(['top'], line(scheme('lt1'), 38100)), fill: fill(scheme(color)) }) +
+    part('firstRow', { text: text(scheme('lt1'), true), borders: borders(['bottom'], line(scheme('lt1'), 38100)), fill: fill(scheme(color)) }),
+  medium3: color =>
+    part('wholeTbl', { text: text(scheme('dk1')), borders: borders(['top', 'bottom'], line(scheme('dk1'), 25400)), fill: fill(scheme('lt1')) }) +
+    bands({ fill: fill(scheme('dk1', tint(20000))) }) +
+    part('lastCol', { text: text(scheme('lt1'), true), fill: fill(scheme(color)) }) +
+    part('firstCol', { text: text(scheme('lt1'), true), fill: fill(scheme(color)) }) +
+    part('lastRow', { text: text(undefined, true), borders: borders(['top'], line(scheme('dk1'), 50800, 'dbl')), fill: fill(scheme('lt1')) }) +
+    part('firstRow', { text: text(scheme('lt1'), true), borders: borders(['bottom'], line(scheme('dk1'), 25400)), fill: fill(scheme(color)) }),
+  medium4: color =>
+    part('wholeTbl', { text: text(scheme('dk1')), borders: borders(FULL, line(scheme(color))), fill: fill(scheme(color, tint(20000))) }) +
+    bands({ fill: fill(scheme(color, tint(40000))) }) +
+    boldColumns() +
+    part('lastRow', { text: text(undefined, true), borders: borders(['top'], line(scheme(color), 25400)), fill: fill(scheme(color, tint(20000))) }) +
+    part('firstRow', { text: text(scheme(color), true), fill: fill(scheme(color, tint(20000))) }),
+  dark1: color =>
+    part('wholeTbl', { text: text(scheme('lt1')), fill: fill(scheme(color, shade(20000))) }) +
+    bands({ fill: fill(scheme(color, shade(40000))) }) +
+    part('lastCol', { text: text(undefined, true), borders: borders(['left'], line(scheme('lt1'), 25400)), fill: fill(scheme(color, shade(60000))) }) +
+    part('firstCol', { text: text(undefined, true), borders: borders(['right'], line(scheme('lt1'), 25400)), fill: fill(scheme(color, shade(60000))) }) +
+    part('lastRow', { text: text(undefined, true), borders: borders(['top'], line(scheme('lt1'), 38100)), fill: fill(scheme(color, shade(20000))) }) +
+    part('firstRow', { text: text(undefined, true), borders: borders(['bottom'], line(scheme('lt1'), 38100)), fill: fill(scheme('dk1')) }),
+  dark2: (color, header) =>
+    part('wholeTbl', { text: text(scheme('dk1')), fill: fill(scheme(color, tint(20000))) }) +
+    bands({ fill: fill(scheme(color, tint(40000))) }) +
+    boldColumns() +
+    part('lastRow', { text: text(undefined, true), borders: borders(['top'], line(scheme('dk1'), 50800, 'dbl')), fill: fill(scheme(color, tint(20000))) }) +
+    part('firstRow', { text: text(scheme('lt1'), true), fill: fill(scheme(header)) })
+}
+
+// GUID встроенного стиля: [название, семейство, цвет акцента, цвет заголовка]
+export const BUILT_IN_TABLE_STYLES: { [styleId: string]: [string, string, string, string?] } = {
+  '{2D5ABB26-0587-4C30-8999-92F81FD0307C}': ['No Style, No Grid', 'noGrid', 'dk1'],
+  '{5940675A-B579-460E-94D1-54222C63F5DA}': ['No Style, Table Grid', 'tableGrid', 'dk1'],
+  '{3C2FFA5D-87B4-456A-9821-1D502468CF0F}': ['Themed Style 1 - Accent 1', 'themed1', 'accent1'],
+  '{284E427A-3D55-4303-BF80-6455036E1DE7}': ['Themed Style 1 - Accent 2', 'themed1', 'accent2'],
+  '{69C7853C-536D-4A76-A0AE-DD22124D55A5}': ['Themed Style 1 - Accent 3', 'themed1', 'accent3'],
+  '{775DCB02-9BB8-47FD-8907-85C794F793BA}': ['Themed Style 1 - Accent 4', 'themed1', 'accent4'],
+  '{35758FB7-9AC5-4552-8A53-C91805E547FA}': ['Themed Style 1 - Accent 5', 'themed1', 'accent5'],
+  '{08FB837D-C827-4EFA-A057-4D05807E0F7C}': ['Themed Style 1 - Accent 6', 'themed1', 'accent6'],
+  '{D113A9D2-9D6B-4929-AA2D-F23B5EE8CBE7}': ['Themed Style 2 - Accent 1', 'themed2', 'accent1'],
+  '{18603FDC-E32A-4AB5-989C-0864C3EAD2B8}': ['Themed Style 2 - Accent 2', 'themed2', 'accent2'],
+  '{306799F8-075E-4A3A-A7F6-7FBC6576F1A4}': ['Themed Style 2 - Accent 3', 'themed2', 'accent3'],
+  '{E269D01E-BC32-4049-B463-5C60D7B0CCD2}': ['Themed Style 2 - Accent 4', 'themed2', 'accent4'],
+  '{327F97BB-C833-4FB7-BDE5-3F7075034690}': ['Themed Style 2 - Accent 5', 'themed2', 'accent5'],
+  '{638B1855-1B75-4FBE-930C-398BA8C253C6}': ['Themed Style 2 - Accent 6', 'themed2', 'accent6'],
+  '{9D7B26C5-4107-4FEC-AEDC-1716B250EE53}': ['Light Style 1', 'light1', 'dk1'],
+  '{3B4B98B0-60AC-42C2-AFA5-B58CD77FA1E5}': ['Light Style 1 - Accent 1', 'light1', 'accent1'],
+  '{0E3FDE45-AF77-4B5C-9715-49D594BDF05E}': ['Light Style 1 - Accent 2', 'light1', 'accent2'],
+  '{C083E6E3-FA7D-4D7B-A595-EF9225AFEA82}': ['Light Style 1 - Accent 3', 'light1', 'accent3'],
+  '{D27102A9-8310-4765-A935-A1911B00CA55}': ['Light Style 1 - Accent 4', 'light1', 'accent4'],
+  '{5FD0F851-EC5A-4D38-B0AD-8093EC10F338}': ['Light Style 1 - Accent 5', 'light1', 'accent5'],
+  '{68D230F3-CF80-4859-8CE7-A43EE81993B5}': ['Light Style 1 - Accent 6', 'light1', 'accent6'],
+  '{7E9639D4-E3E2-4D34-9284-5A2195B3D0D7}': ['Light Style 2', 'light2', 'dk1'],
+  '{69012ECD-51FC-41F1-AA8D-1B2483CD663E}': ['Light Style 2 - Accent 1', 'light2', 'accent1'],
+  '{72833802-FEF1-4C79-8D5D-14CF1EAF98D9}': ['Light Style 2 - Accent 2', 'light2', 'accent2'],
+  '{F2DE63D5-997A-4646-A377-4702673A728D}': ['Light Style 2 - Accent 3', 'light2', 'accent3'],
+  '{17292A2E-F333-43FB-9621-5CBBE7FDCDCB}': ['Light Style 2 - Accent 4', 'light2', 'accent4'],
+  '{5A111915-BE36-4E01-A7E5-04B1672EAD93}': ['Light Style 2 - Accent 5', 'light2', 'accent5'],
+  '{912C8C85-51F0-491E-9774-3900AFEF0FD7}': ['Light Style 2 - Accent 6', 'light2', 'accent6'],
+  '{616DA210-FB5B-4158-B5E0-FEB733F419BA}': ['Light Style 3', 'light3', 'dk1'],
+  '{BC89EF96-8CEA-46FF-86C4-4CE0E7609802}': ['Light Style 3 - Accent 1', 'light3', 'accent1'],
+  '{5DA37D80-6434-44C5-BB8A-A7F3AE3E1B6E}': ['Light Style 3 - Accent 2', 'light3', 'accent2'],
+  '{8799B23B-EC83-4686-B30A-512413B5E67A}': ['Light Style 3 - Accent 3', 'light3', 'accent3'],
+  '{ED083AE6-46FA-4A59-8FB0-9F97EB10719F}': ['Light Style 3 - Accent 4', 'light3', 'accent4'],
+  '{BDBED569-4797-4DF1-A0F4-6AAB3CD982D8}': ['Light Style 3 - Accent 5', 'light3', 'accent5'],
+  '{E8B1032C-EA38-4F05-BA0D-38AFFFC7BED3}': ['Light Style 3 - Accent 6', 'light3', 'accent6'],
+  '{793D81CF-94F2-401A-BA57-92F5A7B2D0C5}': ['Medium Style 1', 'medium1', 'dk1'],
+  '{B301B821-A1FF-4177-AEE7-76D212191A09}': ['Medium Style 1 - Accent 1', 'medium1', 'accent1'],
+  '{9DCAF9ED-07DC-4A11-8D7F-57B35C25682E}': ['Medium Style 1 - Accent 2', 'medium1', 'accent2'],
+  '{1FECB4D8-DB02-4DC6-A0A2-4F2EBAE1DC90}': ['Medium Style 1 - Accent 3', 'medium1', 'accent3'],
+  '{1E171933-4619-4E11-9A3F-F7608DF75F80}': ['Medium Style 1 - Accent 4', 'medium1', 'accent4'],
+  '{FABFCF23-3B69-468F-B69F-88F6DE6A72F2}': ['Medium Style 1 - Accent 5', 'medium1', 'accent5'],
+  '{10A1B5D5-9B99-4C35-A422-299274C87663}': ['Medium Style 1 - Accent 6', 'medium1', 'accent6'],
+  '{073A0DAA-6AF3-43AB-8588-CEC1D06C72B9}': ['Medium Style 2', 'medium2', 'dk1'],
+  '{5C22544A-7EE6-4342-B048-85BDC9FD1C3A}': ['Medium Style 2 - Accent 1', 'medium2', 'accent1'],
+  '{21E4AEA4-8DFA-4A89-87EB-49C32662AFE8}': ['Medium Style 2 - Accent 2', 'medium2', 'accent2'],
+  '{F5AB1C69-6EDB-4FF4-983F-18BD219EF322}': ['Medium Style 2 - Accent 3', 'medium2', 'accent3'],
+  '{00A15C55-8517-42AA-B614-E9B94910E393}': ['Medium Style 2 - Accent 4', 'medium2', 'accent4'],
+  '{7DF18680-E054-41AD-8BC1-D1AEF772440D}': ['Medium Style 2 - Accent 5', 'medium2', 'accent5'],
+  '{93296810-A885-4BE3-A3E7-6D5BEEA58F35}': ['Medium Style 2 - Accent 6', 'medium2', 'accent6'],
+  '{8EC20E35-A176-4012-BC5E-935CFFF8708E}': ['Medium Style 3', 'medium3', 'dk1'],
+  '{6E25E649-3F16-4E02-A733-19D2CDBF48F0}': ['Medium Style 3 - Accent 1', 'medium3', 'accent1'],
+  '{85BE263C-DBD7-4A20-BB59-AAB30ACAA65A}': ['Medium Style 3 - Accent 2', 'medium3', 'accent2'],
+  '{EB344D84-9AFB-497E-A393-DC336BA19D2E}': ['Medium Style 3 - Accent 3', 'medium3', 'accent3'],
+  '{EB9631B5-78F2-41C9-869B-9F39066F8104}': ['Medium Style 3 - Accent 4', 'medium3', 'accent4'],
+  '{74C1A8A3-306A-4EB7-A6B1-4F7E0EB9C5D6}': ['Medium Style 3 - Accent 5', 'medium3', 'accent5'],
+  '{2A488322-F2BA-4B5B-9748-0D474271808F}': ['Medium Style 3 - Accent 6', 'medium3', 'accent6'],
+  '{D7AC3CCA-C797-4891-BE02-D94E43425B78}': ['Medium Style 4', 'medium4', 'dk1'],
+  '{69CF1AB2-1976-4502-BF36-3FF5EA218861}': ['Medium Style 4 - Accent 1', 'medium4', 'accent1'],
+  '{8A107856-5554-42FB-B03E-39F5DBC370BA}': ['Medium Style 4 - Accent 2', 'medium4', 'accent2'],
+  '{0505E3EF-67EA-436B-97B2-0124C06EBD24}': ['Medium Style 4 - Accent 3', 'medium4', 'accent3'],
+  '{C4B1156A-380E-4F78-BDF5-A606A8083BF9}': ['Medium Style 4 - Accent 4', 'medium4', 'accent4'],
+  '{22838BEF-8BB2-4498-84A7-C5851F593DF1}': ['Medium Style 4 - Accent 5', 'medium4', 'accent5'],
+  '{16D9F66E-5EB9-4882-86FB-DCBF35E3C3E4}': ['Medium Style 4 - Accent 6', 'medium4', 'accent6'],
+  '{E8034E78-7F5D-4C2E-B375-FC64B27BC917}': ['Dark Style 1', 'dark1', 'dk1'],
+  '{125E5076-3810-47DD-B79F-674D7AD40C01}': ['Dark Style 1 - Accent 1', 'dark1', 'accent1'],
+  '{37CE84F3-28C3-443E-9E96-99CF82512B78}': ['Dark Style 1 - Accent 2', 'dark1', 'accent2'],
+  '{D03447BB-5D67-496B-8E87-E561075AD55C}': ['Dark Style 1 - Accent 3', 'dark1', 'accent3'],
+  '{E929F9F4-4A8F-4326-A1B4-22849713DDAB}': ['Dark Style 1 - Accent 4', 'dark1', 'accent4'],
+  '{8FD4443E-F989-4FC4-A0C8-D5A2AF1F390B}': ['Dark Style 1 - Accent 5', 'dark1', 'accent5'],
+  '{AF606853-7671-496A-8E4F-DF71F8EC918B}': ['Dark Style 1 - Accent 6', 'dark1', 'accent6'],
+  '{5202B0CA-FC54-4496-8BCA-5EF66A818D29}': ['Dark Style 2', 'dark2', 'dk1', 'dk1'],
+  '{0660B408-B3CF-4A94-85FC-2B1E0A45F4A2}': ['Dark Style 2 - Accent 1/Accent 2', 'dark2', 'accent1', 'accent2'],
+  '{91EBBBCC-DAD2-459C-BE2E-F6DE35CF9A28}': ['Dark Style 2 - Accent 3/Accent 4', 'dark2', 'accent3', 'accent4'],
+  '{46F890A9-2807-4EBB-B81D-B2AA78EC7F39}': ['Dark Style 2 - Accent 5/Accent 6', 'dark2', 'accent5', 'accent6']
+}
@@ -7,7 +7,7 @@
 
 // Типы сообщений от UI к main процессу
 export interface UIMessage {
-  type: 'import-pptx' | 'cancel' | 'update-progress'
+  type: 'import-pptx' | 'cancel' | 'update-progress' | 'font-substitutions'
   payload?: any
 }
 
@@ -33,9 +33,17 @@ export interface CancelMessage extends UIMessage {
   type: 'cancel'
 }
 
+// Таблица замены шрифтов, подтвержденная пользователем
+export interface FontSubstitutionsMessage extends UIMessage {
+  type: 'font-substitutions'
+  payload: {
+    substitutions: FontSubstitutions
+  }
+}
+
 // Типы сообщений от main процесса к UI
 export interface MainMessage {
-  type: 'import-started' | 'import-progress' | 'import-complete' | 'import-error' | 'notification'
+  type: 'import-started' | 'import-progress' | 'import-complete' | 'import-error' | 'notification' | 'font-check'
   payload?: any
 }
 
@@ -73,6 +81,15 @@ export interface ImportErrorMessage extends MainMessage {
   }
 }
 
+// Шрифты презентации, которых нет в Figma, с предложенными заменами
+export interface FontCheckMessage extends MainMessage {
+  type: 'font-check'
+  payload: {
+    missingFonts: MissingFont[]
+    availableFamilies: string[]
+  }
+}
+
 export interface NotificationMessage extends MainMessage {
   type: 'notification'
   payload: {
@@ -81,15 +98,33 @@ export interface NotificationMessage extends MainMessage {
   }
 }
 
+// Шрифт презентации, недоступный в Figma
+export interface MissingFont {
+  family: string
+  styles: string[] // начертания из презентации, которых нет в Figma
+  familyAvailable: boolean // семейство есть в Figma, недостает только начертаний
+  substitute: string // предложенное семейство замены
+}
+
+// Таблица замены шрифтов: семейство PPTX → семейство Figma
+export interface FontSubstitutions {
+  [family: string]: string
+}
+
 // Настройки импорта
 export interface ImportSettings {
   includeMasterBackground: boolean
+  useLayoutComponents: boolean
+  importThemeColors: boolean
+  importTextStyles: boolean
   importImages: boolean
   importShapes: boolean
   importText: boolean
   slideSize: '1920x1080' | '1280x720' | 'custom'
   customWidth?: number
   customHeight?: number
+  maxImageDimension?: number // наибольшая сторона изображения в пикселях, по умолчанию 4096
+  imageQuality?: number // качество JPEG при уменьшении изображений, 0-1
 }
 
 // Результаты импорта
@@ -99,6 +134,19 @@ export interface ImportResult {
   errors: string[]
   totalSlides: number
   processingTime: number
+  imageOptimizations?: ImageOptimization[]
+}
+
+// Уменьшенное при импорте изображение
+export interface ImageOptimization {
+  src: string // путь медиа файла в архиве
+  originalWidth: number
+  originalHeight: number
+  width: number
+  height: number
+  originalBytes: number
+  bytes: number
+  savedBytes: number
 }
 
 // Состояние импорта
@@ -108,6 +156,7 @@ export interface ImportState {
   currentStep: string
   currentSlide: number
   totalSlides: number
+  settings: ImportSettings
   results: ImportResult
 }
 
@@ -148,6 +197,7 @@ export interface PPTXData {
   themes: Theme[]
   media: MediaFile[]
   presentation: PresentationInfo
+  colorTheme?: ThemeColorPalette
 }
 
 // Импорт доменных моделей для совместимости
@@ -160,7 +210,7 @@ export {
   ImageElement,
   GroupElement,
   LineElement
-} from '../models'
+} from '../models/types'
 
 // Слайд
 export interface Slide {
@@ -190,6 +240,12 @@ export interface Theme {
   fonts: any
 }
 
+// Цвета схемы темы
+export interface ThemeColorPalette {
+  name: string
+  colors: { [key: string]: any }
+}
+
 // Медиа файл
 export interface MediaFile {
   id: string
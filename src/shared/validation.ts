@@ -59,6 +59,14 @@ export function validateImportSettings(settings: ImportSettings): { isValid: boo
     }
   }
 
+  // Проверка ограничений обработки изображений
+  if (settings.maxImageDimension !== undefined && !(settings.maxImageDimension >= 256 && settings.maxImageDimension <= 4096)) {
+    errors.push('Наибольшая сторона изображения должна быть от 256 до 4096 пикселей')
+  }
+  if (settings.imageQuality !== undefined && !(settings.imageQuality >= 0.1 && settings.imageQuality <= 1)) {
+    errors.push('Качество JPEG должно быть от 10 до 100%')
+  }
+
   // Проверка, что хотя бы один элемент выбран для импорта
   if (!settings.importText && !settings.importShapes && !settings.importImages) {
     errors.push('Необходимо выбрать хотя бы один элемент для импорта')
@@ -80,7 +88,7 @@ export function validateUIMessage(message: any): message is UIMessage {
     return false
   }
 
-  const validTypes = ['import-pptx', 'cancel', 'update-progress']
+  const validTypes = ['import-pptx', 'cancel', 'update-progress', 'font-substitutions']
   if (!validTypes.includes(message.type)) {
     return false
   }
@@ -91,6 +99,8 @@ export function validateUIMessage(message: any): message is UIMessage {
       return validateImportPPTXMessage(message)
     case 'update-progress':
       return validateUpdateProgressMessage(message)
+    case 'font-substitutions':
+      return validateFontSubstitutionsMessage(message)
     case 'cancel':
       return true
     default:
@@ -122,6 +132,16 @@ function validateImportPPTXMessage(message: any): boolean {
   return settingsValidation.isValid
 }
 
+// Валидация таблицы замены шрифтов: все значения — непустые названия семейств
+function validateFontSubstitutionsMessage(message: any): boolean {
+  const substitutions = message.payload?.substitutions
+  if (!substitutions || typeof substitutions !== 'object') {
+    return false
+  }
+
+  return Object.keys(substitutions).every(family => typeof substitutions[family] === 'string' && substitutions[family].trim() !== '')
+}
+
 // Валидация сообщения обновления прогресса
 function validateUpdateProgressMessage(message: any): boolean {
   if (!message.payload || typeof message.payload !== 'object') {
@@ -151,7 +171,7 @@ export function validateMainMessage(message: any): message is MainMessage {
     return false
   }
 
-  const validTypes = ['import-started', 'import-progress', 'import-complete', 'import-error', 'notification']
+  const validTypes = ['import-started', 'import-progress', 'import-complete', 'import-error', 'notification', 'font-check']
   if (!validTypes.includes(message.type)) {
     return false
   }
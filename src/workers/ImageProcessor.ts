@@ -0,0 +1,360 @@
+/**
+ * @file: ImageProcessor.ts
+ * @description: Обработка растровых изображений в Web Worker: эффекты a:blip без аналога в Figma
+ *   (дуотон, замена цвета, черно-белый порог) запекаются в новый PNG через OffscreenCanvas,
+ *   крупные изображения уменьшаются до наибольшего размера, в котором они показаны на слайдах
+ * @dependencies: parser/types.ts, parser/utils.ts, shared/types.ts, models
+ * @created: 2026-10-18
+ */
+
+import { PPTXFile, MediaFile } from '../parser/types'
+import { generateId, emuToPixels } from '../parser/utils'
+import { ImageOptimization } from '../shared/types'
+import { Element, Color, FillStyle, ImageAdjustments, ImagePlacement, SlideBackground, Size, contentHash } from '../models'
+
+export interface ImageProcessingOptions {
+  maxDimension: number // наибольшая сторона в пикселях; figma.createImage не принимает изображения больше 4096px
+  quality: number // качество JPEG, 0-1
+  frameSize?: Size // размер фрейма слайда из настроек импорта; масштаб рендеринга — фрейм к размеру слайда
+  pixelRatio: number // запас разрешения относительно размера во фрейме: увеличение в Figma и экраны высокой плотности
+}
+
+export interface ImageProcessingReport {
+  warnings: string[]
+  optimizations: ImageOptimization[]
+}
+
+// Эффекты, которые запекаются в растр; оттенки серого запекаются только вместе с ними,
+// иначе их передает нулевая насыщенность фильтра Figma
+type BakedAdjustments = Pick<ImageAdjustments, 'grayscale' | 'duotone' | 'colorChange' | 'biLevelThreshold'>
+
+// Изображение презентации: элемент, заливка фигуры или фон
+interface ImageReference {
+  src: string
+  adjustments: ImageAdjustments
+  size: Size // размер всего изображения на слайде с учетом обрезки; у мозаики не ограничен
+  setSrc(src: string): void
+}
+
+// OffscreenCanvas доступен в Web Worker браузера, но отсутствует в lib.dom TypeScript 4.8
+interface WorkerCanvas {
+  getContext(type: '2d'): CanvasRenderingContext2D | null
+  convertToBlob(options?: { type?: string; quality?: number }): Promise<Blob>
+}
+type WorkerCanvasConstructor = new (width: number, height: number) => WorkerCanvas
+
+// Допуск совпадения цвета a:clrChange на канал: сжатие JPEG искажает исходный цвет
+const COLOR_CHANGE_TOLERANCE = 8
+export const DEFAULT_IMAGE_PROCESSING_OPTIONS: ImageProcessingOptions = { maxDimension: 4096, quality: 0.85, pixelRatio: 2 }
+// Форматы, которые можно декодировать и сжать заново; GIF пропускается, чтобы не потерять анимацию
+const RESIZABLE_MIME_TYPES = ['image/png', 'image/jpeg']
+// Уменьшение меньше чем на 10% не стоит повторного сжатия
+const MIN_DOWNSCALE = 0.9
+
+export class ImageProcessor {
+  private warnings: string[] = []
+  // Ключ — исходный путь и эффекты, значение — путь обработанного PNG
+  private baked = new Map<string, Promise<string | undefined>>()
+
+  private optimizations: ImageOptimization[] = []
+  private options: ImageProcessingOptions
+
+  constructor(private file: PPTXFile, options: Partial<ImageProcessingOptions> = {}) {
+    this.options = {
+      maxDimension: options.maxDimension ?? DEFAULT_IMAGE_PROCESSING_OPTIONS.maxDimension,
+      quality: options.quality ?? DEFAULT_IMAGE_PROCESSING_OPTIONS.quality,
+      frameSize: options.frameSize,
+      pixelRatio: options.pixelRatio ?? DEFAULT_IMAGE_PROCESSING_OPTIONS.pixelRatio
+    }
+  }
+
+  // Запекание эффектов и уменьшение изображений презентации; отчет попадает в результаты импорта
+  async process(): Promise<ImageProcessingReport> {
+    const Canvas = (globalThis as { OffscreenCanvas?: WorkerCanvasConstructor }).OffscreenCanvas
+    if (!Canvas || typeof createImageBitmap === 'undefined') {
+      const hasEffects = this.collectReferences().some(reference => this.needsBaking(reference.adjustments))
+      return {
+        warnings: hasEffects ? ['Эффекты изображений (дуотон, замена цвета, черно-белый режим) не применены: обработка изображений недоступна'] : [],
+        optimizations: []
+      }
+    }
+
+    await this.bakeEffects(Canvas)
+    await this.downscale(Canvas)
+    return { warnings: this.warnings, optimizations: this.optimizations }
+  }
+
+  private async bakeEffects(Canvas: WorkerCanvasConstructor): Promise<void> {
+    const references = this.collectReferences().filter(reference => this.needsBaking(reference.adjustments))
+    for (const reference of references) {
+      const effects = this.takeBakedAdjustments(reference.adjustments)
+      const key = `${reference.src}|${JSON.stringify(effects)}`
+      let result = this.baked.get(key)
+      if (!result) {
+        result = this.bake(Canvas, reference.src, effects)
+        this.baked.set(key, result)
+      }
+
+      const src = await result
+      if (src) {
+        reference.setSrc(src)
+      } else {
+        // Оттенки серого остаются фильтром Figma, если запечь изображение не удалось
+        reference.adjustments.grayscale = effects.grayscale
+      }
+    }
+  }
+
+  // Уменьшение изображений до наибольшего размера во фреймах Figma (с запасом pixelRatio) и не больше maxDimension.
+  // Файл заменяется на месте, поэтому ссылки элементов не меняются
+  private async downscale(Canvas: WorkerCanvasConstructor): Promise<void> {
+    const ratio = this.getRenderScale() * this.options.pixelRatio
+    const required = new Map<string, Size>()
+    for (const reference of this.collectReferences()) {
+      const size = required.get(reference.src) || { width: 0, height: 0 }
+      required.set(reference.src, {
+        width: Math.max(size.width, reference.size.width * ratio),
+        height: Math.max(size.height, reference.size.height * ratio)
+      })
+    }
+
+    for (const media of this.file.media) {
+      const size = required.get(media.src)
+      if (!size || !media.data || RESIZABLE_MIME_TYPES.indexOf(media.mimeType) === -1) continue
+
+      try {
+        await this.downscaleMedia(Canvas, media, size)
+      } catch (error) {
+        this.warnings.push(`Изображение ${media.src}: не удалось уменьшить (${error instanceof Error ? error.message : String(error)})`)
+      }
+    }
+  }
+
+  private async downscaleMedia(Canvas: WorkerCanvasConstructor, media: MediaFile, required: Size): Promise<void> {
+    const bitmap = await createImageBitmap(new Blob([media.data!], { type: media.mimeType }))
+    const { width, height } = bitmap
+    // Мозаика сохраняет исходное разрешение, ограничение maxDimension действует всегда
+    const fit = Math.max(required.width / width, required.height / height) || 1
+    const scale = Math.min(1, fit, this.options.maxDimension / Math.max(width, height))
+    if (scale > MIN_DOWNSCALE) {
+      bitmap.close()
+      return
+    }
+
+    const target = { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) }
+    const canvas = new Canvas(target.width, target.height)
+    const context = canvas.getContext('2d')
+    if (!context) throw new Error('2D context is not available')
+
+    context.imageSmoothingQuality = 'high'
+    context.drawImage(bitmap, 0, 0, target.width, target.height)
+    bitmap.close()
+
+    // Формат сохраняется: путь файла и его расширение остаются прежними
+    const blob = await canvas.convertToBlob({ type: media.mimeType, quality: this.options.quality })
+    const data = new Uint8Array(await blob.arrayBuffer())
+    // Сжатие не помогло, а ограничение Figma по размеру не нарушено
+    if (data.length >= media.data!.length && Math.max(width, height) <= this.options.maxDimension) return
+
+    this.optimizations.push({
+      src: media.src,
+      originalWidth: width,
+      originalHeight: height,
+      width: target.width,
+      height: target.height,
+      originalBytes: media.data!.length,
+      bytes: data.length,
+      savedBytes: media.data!.length - data.length
+    })
+    media.data = data
+    media.size = data.length
+  }
+
+  // Обработка изображения эффектами и добавление результата в медиа файлы
+  private async bake(Canvas: WorkerCanvasConstructor, src: string, effects: BakedAdjustments): Promise<string | undefined> {
+    const media = this.file.media.find(file => file.src === src)
+    if (!media?.data) {
+      this.warnings.push(`Изображение ${src}: эффекты не применены, файл не найден`)
+      return undefined
+    }
+
+    try {
+      const bitmap = await createImageBitmap(new Blob([media.data], { type: media.mimeType }))
+      const canvas = new Canvas(bitmap.width, bitmap.height)
+      const context = canvas.getContext('2d')
+      if (!context) throw new Error('2D context is not available')
+
+      context.drawImage(bitmap, 0, 0)
+      const image = context.getImageData(0, 0, bitmap.width, bitmap.height)
+      applyEffects(image.data, effects)
+      context.putImageData(image, 0, 0)
+      bitmap.close()
+
+      const data = new Uint8Array(await (await canvas.convertToBlob({ type: 'image/png' })).arrayBuffer())
+      const path = `${src.replace(/\.[^./]+$/, '')}-${contentHash(data)}.png`
+      if (this.file.media.some(file => file.src === path)) return path
+
+      const processed: MediaFile = {
+        id: generateId(),
+        name: path.split('/').pop() || path,
+        type: 'image',
+        src: path,
+        size: data.length,
+        mimeType: 'image/png',
+        data
+      }
+      this.file.media.push(processed)
+      return path
+    } catch (error) {
+      this.warnings.push(`Изображение ${src}: эффекты не применены (${error instanceof Error ? error.message : String(error)})`)
+      return undefined
+    }
+  }
+
+  private needsBaking(adjustments: ImageAdjustments): boolean {
+    return !!adjustments.duotone || !!adjustments.colorChange || adjustments.biLevelThreshold !== undefined
+  }
+
+  // Запекаемые эффекты переносятся из модели в обработанное изображение
+  private takeBakedAdjustments(adjustments: ImageAdjustments): BakedAdjustments {
+    const { grayscale, duotone, colorChange, biLevelThreshold } = adjustments
+    delete adjustments.grayscale
+    delete adjustments.duotone
+    delete adjustments.colorChange
+    delete adjustments.biLevelThreshold
+    return { grayscale, duotone, colorChange, biLevelThreshold }
+  }
+
+  // Изображения слайдов, мастер-слайдов и макетов
+  private collectReferences(): ImageReference[] {
+    const references: ImageReference[] = []
+    const addElements = (elements: Element[]) => elements.forEach(element => this.collectElement(element, references))
+    const addBackground = (background: SlideBackground | undefined) => {
+      if (background?.type === 'image' && background.imageUrl) {
+        references.push({
+          src: background.imageUrl,
+          adjustments: background.imageAdjustments || {},
+          size: this.getImageSize(this.getSlideSize(), background.imagePlacement),
+          setSrc: src => { background.imageUrl = src }
+        })
+      }
+    }
+
+    for (const slide of this.file.slides) {
+      addElements(slide.elements)
+      addBackground(slide.background)
+    }
+    for (const master of this.file.masters) {
+      addElements(master.elements)
+      addBackground(master.background)
+      for (const layout of master.layouts) {
+        addElements(layout.elements)
+        addBackground(layout.background)
+      }
+    }
+    return references
+  }
+
+  private collectElement(element: Element, references: ImageReference[]): void {
+    switch (element.type) {
+      case 'image':
+        if (element.src) {
+          references.push({ src: element.src, adjustments: element, size: this.getImageSize(element.size, element), setSrc: src => { element.src = src } })
+        }
+        break
+      case 'shape':
+        this.collectFill(element.fill, element.size, references)
+        break
+      case 'group':
+        element.children.forEach(child => this.collectElement(child, references))
+        break
+      case 'table':
+        // Размер ячейки не больше размера таблицы
+        element.rows.forEach(row => row.cells.forEach(cell => this.collectFill(cell.fill, element.size, references)))
+        break
+    }
+  }
+
+  private collectFill(fill: FillStyle | undefined, frame: Size, references: ImageReference[]): void {
+    if (fill?.type === 'image' && fill.imageUrl) {
+      references.push({
+        src: fill.imageUrl,
+        adjustments: fill.imageAdjustments || {},
+        size: this.getImageSize(frame, fill.imagePlacement),
+        setSrc: src => { fill.imageUrl = src }
+      })
+    }
+  }
+
+  // Размер слайда в пикселях (p:sldSz задан в EMU)
+  private getSlideSize(): Size {
+    const { width, height } = this.file.presentation.slideSize
+    return { width: emuToPixels(width), height: emuToPixels(height) }
+  }
+
+  // Масштаб, с которым слайд рендерится во фрейм из настроек импорта (как getRenderScale в plugin/code.ts)
+  private getRenderScale(): number {
+    const frame = this.options.frameSize
+    const slide = this.getSlideSize()
+    if (!frame || !slide.width || !slide.height) return 1
+    return Math.min(frame.width / slide.width, frame.height / slide.height)
+  }
+
+  // Размер всего изображения на слайде: область a:fillRect рамки показывает часть a:srcRect
+  private getImageSize(frame: Size, placement: ImagePlacement = {}): Size {
+    if (placement.tile) return { width: Infinity, height: Infinity }
+
+    const crop = placement.crop || { left: 0, top: 0, right: 0, bottom: 0 }
+    const fillRect = placement.fillRect || { left: 0, top: 0, right: 0, bottom: 0 }
+    return {
+      width: frame.width * (1 - fillRect.left - fillRect.right) / Math.max(1 - crop.left - crop.right, 0.01),
+      height: frame.height * (1 - fillRect.top - fillRect.bottom) / Math.max(1 - crop.top - crop.bottom, 0.01)
+    }
+  }
+}
+
+// Эффекты в порядке PowerPoint: замена цвета, оттенки серого, черно-белый порог, дуотон
+function applyEffects(pixels: Uint8ClampedArray, effects: BakedAdjustments): void {
+  const from = effects.colorChange && toBytes(effects.colorChange.from)
+  const to = effects.colorChange && toBytes(effects.colorChange.to)
+  const dark = effects.duotone && toBytes(effects.duotone[0])
+  const light = effects.duotone && toBytes(effects.duotone[1])
+  const threshold = effects.biLevelThreshold
+
+  for (let i = 0; i < pixels.length; i += 4) {
+    let r = pixels[i]
+    let g = pixels[i + 1]
+    let b = pixels[i + 2]
+
+    if (from && to && Math.abs(r - from[0]) <= COLOR_CHANGE_TOLERANCE &&
+      Math.abs(g - from[1]) <= COLOR_CHANGE_TOLERANCE && Math.abs(b - from[2]) <= COLOR_CHANGE_TOLERANCE) {
+      r = to[0]
+      g = to[1]
+      b = to[2]
+      pixels[i + 3] = Math.round(pixels[i + 3] * to[3] / 255)
+    }
+
+    if (effects.grayscale || threshold !== undefined || dark) {
+      const luminance = 0.3 * r + 0.59 * g + 0.11 * b
+      if (dark && light) {
+        // Дуотон: яркость пикселя смешивает темный и светлый цвета
+        const t = (threshold !== undefined ? (luminance >= threshold * 255 ? 255 : 0) : luminance) / 255
+        r = dark[0] + (light[0] - dark[0]) * t
+        g = dark[1] + (light[1] - dark[1]) * t
+        b = dark[2] + (light[2] - dark[2]) * t
+      } else {
+        r = g = b = threshold !== undefined ? (luminance >= threshold * 255 ? 255 : 0) : luminance
+      }
+    }
+
+    pixels[i] = r
+    pixels[i + 1] = g
+    pixels[i + 2] = b
+  }
+}
+
+// Цвет модели (доли 0-1) в байты RGBA
+function toBytes(color: Color): [number, number, number, number] {
+  const alpha = 'a' in color ? color.a : 1
+  return [Math.round(color.r * 255), Math.round(color.g * 255), Math.round(color.b * 255), Math.round(alpha * 255)]
+}
@@ -1,12 +1,14 @@
 /**
  * @file: parser.worker.ts
  * @description: Web Worker для фонового парсинга PPTX файлов
- * @dependencies: PPTXParser, types
+ * @dependencies: PPTXParser, ImageProcessor, types
  * @created: 2024-12-19
  */
 
 import { PPTXParser } from '../parser/PPTXParser'
 import { ParseResult, ParserState } from '../parser/types'
+import { ImageOptimization } from '../shared/types'
+import { ImageProcessor, ImageProcessingOptions } from './ImageProcessor'
 
 // Типы сообщений для Web Worker
 interface WorkerMessage {
@@ -20,6 +22,7 @@ interface ParseMessage extends WorkerMessage {
   payload: {
     fileData: ArrayBuffer
     fileName: string
+    imageOptions?: Partial<ImageProcessingOptions>
   }
 }
 
@@ -56,7 +59,7 @@ self.onmessage = async (event: MessageEvent<WorkerMessage>) => {
 
 // Обработка парсинга
 async function handleParse(message: ParseMessage): Promise<void> {
-  const { fileData, fileName } = message.payload
+  const { fileData, fileName, imageOptions } = message.payload
 
   try {
     // Создание парсера с callback для прогресса
@@ -67,8 +70,17 @@ async function handleParse(message: ParseMessage): Promise<void> {
     // Запуск парсинга
     const result = await parser.parse(fileData, fileName)
 
+    // Эффекты изображений без аналога в Figma и уменьшение крупных изображений выполняются здесь, вне потока плагина
+    let imageOptimizations: ImageOptimization[] = []
+    if (result.data) {
+      sendProgress(message.id, { ...parser.getState(), currentStep: 'Обработка изображений...' })
+      const report = await new ImageProcessor(result.data, imageOptions).process()
+      result.warnings.push(...report.warnings)
+      imageOptimizations = report.optimizations
+    }
+
     // Отправка результата
-    sendComplete(message.id, result)
+    sendComplete(message.id, { ...result, imageOptimizations })
 
   } catch (error) {
     sendError(message.id, `Parse error: ${error.message}`)
@@ -102,7 +114,7 @@ function sendProgress(id: string, state: ParserState): void {
 }
 
 // Отправка результата
-function sendComplete(id: string, result: ParseResult): void {
+function sendComplete(id: string, result: ParseResult & { imageOptimizations: ImageOptimization[] }): void {
   const response: WorkerResponse = {
     id,
     type: 'complete',
@@ -20,7 +20,7 @@ export default defineConfig({
   },
   plugins: [react(), viteSingleFile(), svgLoader()],
   worker: {
-    format: 'es',
+    format: 'iife', // классический worker: type 'module' не поддерживается стабильно в iframe плагина
     plugins: []
   }
 })